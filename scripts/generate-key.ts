@@ -2,6 +2,7 @@
 
 import { generateApiKey, hashApiKey } from '../src/crypto';
 import { ApiKeyData } from '../src/types';
+import { SCHEMA_VERSIONS } from '../src/migrations';
 import { execSync } from 'child_process';
 import { pathToFileURL } from 'url';
 
@@ -143,7 +144,8 @@ async function main() {
     const keyData: ApiKeyData = {
       name,
       expiry,
-      created: new Date().toISOString()
+      created: new Date().toISOString(),
+      schemaVersion: SCHEMA_VERSIONS.apiKey
     };
     
     // Store in KV
@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+
+import { Env } from '../src/types';
+import { getVersionedRecord, SchemaRecordType, SCHEMA_VERSIONS } from '../src/migrations';
+import { migrateUserFastingData } from '../src/fasting';
+import { execSync } from 'child_process';
+import { pathToFileURL } from 'url';
+import { config } from 'dotenv';
+import { join } from 'path';
+
+type MigrationEnv = Pick<Env, 'FASTS' | 'CHATS' | 'API_KEYS'>;
+
+export type MigrationCounts = Record<SchemaRecordType, number>;
+
+// Records are also upgraded lazily when read; this upgrades everything at once,
+// e.g. before a release that drops support for an old schema version.
+// Run outside the worker there is no USER_FASTING binding, so fasting records are written straight to KV
+// rather than through each user's Durable Object: only run it while the bot receives no updates (see main)
+export async function migrateAllRecords(env: MigrationEnv): Promise<MigrationCounts> {
+  const counts: MigrationCounts = { userFasting: 0, chatAuth: 0, apiKey: 0 };
+
+  for (const key of await listAllKeys(env.FASTS)) {
+    const match = key.match(/^user:(\d+)$/);
+    const data = match ? await env.FASTS.get(key) : null;
+    if (!match || !data || JSON.parse(data).schemaVersion === SCHEMA_VERSIONS.userFasting) {
+      continue;
+    }
+    await migrateUserFastingData(Number(match[1]), env as Env);
+    counts.userFasting++;
+  }
+
+  for (const key of await listAllKeys(env.CHATS)) {
+    const outcome = await getVersionedRecord(env.CHATS, key, 'chatAuth');
+    if (outcome?.migrated) {
+      counts.chatAuth++;
+    }
+  }
+
+  for (const key of await listAllKeys(env.API_KEYS)) {
+    const outcome = await getVersionedRecord(env.API_KEYS, key, 'apiKey');
+    if (outcome?.migrated) {
+      counts.apiKey++;
+    }
+  }
+
+  return counts;
+}
+
+// The bot is live while Telegram has a webhook for it; returns that URL, or null when updates are paused
+export async function getLiveWebhookUrl(botToken: string): Promise<string | null> {
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/getWebhookInfo`);
+  const info: { ok: boolean; result?: { url: string }; description?: string } = await response.json();
+  if (!info.ok) {
+    throw new Error(`Failed to check webhook: ${info.description}`);
+  }
+  return info.result?.url || null;
+}
+
+async function listAllKeys(kv: KVNamespace): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list(cursor ? { cursor } : {});
+    keys.push(...page.keys.map(key => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return keys;
+}
+
+// The subset of KVNamespace used above, backed by wrangler so the script runs outside the worker
+function createWranglerKv(binding: string, useLocal: boolean): KVNamespace {
+  const remoteFlag = useLocal ? '' : ' --remote';
+  const quote = (value: string) => `'${value.replace(/'/g, "'\"'\"'")}'`;
+  const run = (args: string) => execSync(`npx wrangler kv ${args}${remoteFlag} --binding ${binding}`, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+
+  const kv = {
+    async get(key: string): Promise<string | null> {
+      try {
+        const value = run(`key get ${quote(key)} --text`);
+        return value.trim() === 'Value not found' ? null : value;
+      } catch {
+        return null;
+      }
+    },
+    async put(key: string, value: string): Promise<void> {
+      run(`key put ${quote(key)} ${quote(value)}`);
+    },
+    async delete(key: string): Promise<void> {
+      run(`key delete ${quote(key)}`);
+    },
+    async list() {
+      const keys: Array<{ name: string }> = JSON.parse(run('key list'));
+      return { keys, list_complete: true, cacheStatus: null };
+    }
+  };
+  return kv as unknown as KVNamespace;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const useLocal = args.includes('--local');
+
+  // Writes bypass the per-user Durable Objects, so a fast changed while this runs could be overwritten
+  if (!useLocal && !args.includes('--force')) {
+    config({ path: join(process.cwd(), '.env') });
+    const botToken = process.env.BOT_TOKEN;
+    if (!botToken) {
+      console.error('❌ BOT_TOKEN not found in .env file; it is needed to check that the bot is paused (or pass --force)');
+      process.exit(1);
+    }
+    const webhookUrl = await getLiveWebhookUrl(botToken);
+    if (webhookUrl) {
+      console.error(`❌ The bot is live (webhook: ${webhookUrl}) and its changes could be overwritten`);
+      console.log(`💡 Pause it with: curl https://api.telegram.org/bot<BOT_TOKEN>/deleteWebhook`);
+      console.log('💡 Then run this again, and restore the webhook with: npm run setup-webhook -- --force');
+      process.exit(1);
+    }
+  }
+  const env: MigrationEnv = {
+    FASTS: createWranglerKv('FASTS', useLocal),
+    CHATS: createWranglerKv('CHATS', useLocal),
+    API_KEYS: createWranglerKv('API_KEYS', useLocal)
+  };
+
+  console.log(`Migrating ${useLocal ? 'local' : 'remote'} records to schema versions ${JSON.stringify(SCHEMA_VERSIONS)}...`);
+  const counts = await migrateAllRecords(env);
+  console.log(`✅ Upgraded ${counts.userFasting} user records, ${counts.chatAuth} chat records and ${counts.apiKey} API keys`);
+}
+
+// Only run main if this script is executed directly (not imported)
+if (import.meta.url === pathToFileURL(process.argv[1]!).href) {
+  main().catch((error) => {
+    console.error('Error migrating records:', error);
+    process.exit(1);
+  });
+}
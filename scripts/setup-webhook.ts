@@ -3,6 +3,8 @@
 import { config } from 'dotenv';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import { createTelegramApi } from '../src/telegram';
+import { getCommandMenus } from '../src/command-registry';
 
 // Load environment variables
 const envPath = join(process.cwd(), '.env');
@@ -56,6 +58,23 @@ async function deleteWebhook(): Promise<{ ok: boolean; description?: string }> {
   return response.json();
 }
 
+// Publishes the command menu from src/command-registry.ts for every chat scope and language
+async function publishCommands(): Promise<boolean> {
+  const telegram = createTelegramApi(BOT_TOKEN!);
+  
+  for (const menu of getCommandMenus()) {
+    const label = `${menu.scope?.type ?? 'default'} (${menu.language_code ?? 'default language'})`;
+    const result = await telegram.setMyCommands(menu);
+    if (!result.ok) {
+      console.error(`❌ Failed to publish commands for ${label}:`, result.description);
+      return false;
+    }
+    console.log(`✅ Published ${menu.commands.length} commands for ${label}`);
+  }
+  
+  return true;
+}
+
 async function main() {
   console.log('🚀 ZenFast Webhook Setup\n');
   
@@ -87,6 +106,14 @@ async function main() {
     process.exit(1);
   }
   
+  if (process.argv.includes('--commands')) {
+    console.log('📋 Publishing command menu...');
+    if (!await publishCommands()) {
+      process.exit(1);
+    }
+    return;
+  }
+  
   try {
     // Check current webhook status
     console.log('📡 Checking current webhook status...');
@@ -112,6 +139,11 @@ async function main() {
       if (!process.argv.includes('--force')) {
         console.log('\n⚠️  Webhook already configured');
         console.log('Use --force to reconfigure the webhook');
+        
+        console.log('\n📋 Publishing command menu...');
+        if (!await publishCommands()) {
+          process.exit(1);
+        }
         return;
       }
       
@@ -148,6 +180,11 @@ async function main() {
       console.log('Actual:', verifyWebhook.result?.url);
     }
     
+    console.log('\n📋 Publishing command menu...');
+    if (!await publishCommands()) {
+      process.exit(1);
+    }
+    
   } catch (error) {
     console.error('❌ Error setting up webhook:', error);
     process.exit(1);
@@ -161,6 +198,7 @@ if (process.argv.includes('--help')) {
   console.log('\nOptions:');
   console.log('  --status   Show current webhook status only');
   console.log('  --force    Force reconfigure webhook even if already set');
+  console.log('  --commands Only publish the bot command menu');
   console.log('  --help     Show this help message');
   process.exit(0);
 }
@@ -1,5 +1,8 @@
-import { Env, ChatAuthData, ApiKeyData, RateLimitData, User } from './types';
+import { Env, ChatAuthData, ApiKeyData, RateLimitData, User, Language } from './types';
 import { hashApiKey } from './crypto';
+import { getVersionedRecord, SCHEMA_VERSIONS } from './migrations';
+import { getUserLanguage } from './fasting';
+import { t, getLocale } from './i18n';
 
 export interface AuthResult {
   success: boolean;
@@ -17,22 +20,19 @@ export interface AuthDetails {
 
 export async function isAuthenticated(chatId: number, env: Env): Promise<boolean> {
   try {
-    const chatAuth = await env.CHATS.get(chatId.toString());
-    if (!chatAuth) {
+    const authData = await getChatAuthData(chatId, env);
+    if (!authData) {
       return false;
     }
-
-    const authData: ChatAuthData = JSON.parse(chatAuth);
     
     // Check if the API key still exists and hasn't expired
-    const apiKeyData = await env.API_KEYS.get(authData.api_key_hash);
-    if (!apiKeyData) {
+    const keyData = await getApiKeyData(authData.api_key_hash, env);
+    if (!keyData) {
       // API key was deleted, remove the chat association
       await env.CHATS.delete(chatId.toString());
       return false;
     }
 
-    const keyData: ApiKeyData = JSON.parse(apiKeyData);
     const now = new Date();
     const expiry = new Date(keyData.expiry);
     
@@ -56,10 +56,11 @@ export async function authenticateChat(
   env: Env
 ): Promise<AuthResult> {
   const chatIdStr = chatId.toString();
+  const language = await getUserLanguage(user, env);
 
   try {
     // Check rate limits first
-    const rateLimitCheck = await checkRateLimit(chatId, env);
+    const rateLimitCheck = await checkRateLimit(chatId, env, language);
     if (!rateLimitCheck.allowed) {
       return {
         success: false,
@@ -71,16 +72,14 @@ export async function authenticateChat(
     const keyHash = await hashApiKey(apiKey);
     
     // Check if the hashed key exists in API_KEYS
-    const apiKeyData = await env.API_KEYS.get(keyHash);
-    if (!apiKeyData) {
+    const keyData = await getApiKeyData(keyHash, env);
+    if (!keyData) {
       await recordFailedAttempt(chatId, env);
       return {
         success: false,
-        message: "Invalid API key. Please check and try again."
+        message: t(language, 'auth.invalidKey')
       };
     }
-
-    const keyData: ApiKeyData = JSON.parse(apiKeyData);
     
     // Check if key has expired
     const now = new Date();
@@ -90,7 +89,7 @@ export async function authenticateChat(
       await recordFailedAttempt(chatId, env);
       return {
         success: false,
-        message: "Your API key has expired. Please contact the bot owner for a new key."
+        message: t(language, 'auth.expiredKey')
       };
     }
 
@@ -98,7 +97,8 @@ export async function authenticateChat(
     const chatAuth: ChatAuthData = {
       api_key_hash: keyHash,
       authenticated_at: now.toISOString(),
-      authenticated_by: user
+      authenticated_by: user,
+      schemaVersion: SCHEMA_VERSIONS.chatAuth
     };
 
     await env.CHATS.put(chatIdStr, JSON.stringify(chatAuth));
@@ -108,7 +108,7 @@ export async function authenticateChat(
 
     return {
       success: true,
-      message: `Authentication successful! ✅\nAuthenticated as: ${keyData.name}\nExpires: ${formatDate(expiry)}`,
+      message: t(language, 'auth.success', { name: keyData.name, expiry: formatDate(expiry) }),
       keyName: keyData.name,
       expiry: keyData.expiry
     };
@@ -117,29 +117,26 @@ export async function authenticateChat(
     console.error('Error during authentication:', error);
     return {
       success: false,
-      message: "Service temporarily unavailable. Please try again."
+      message: t(language, 'auth.unavailable')
     };
   }
 }
 
 export async function getAuthDetails(chatId: number, env: Env): Promise<AuthDetails | null> {
   try {
-    const chatAuth = await env.CHATS.get(chatId.toString());
-    if (!chatAuth) {
+    const authData = await getChatAuthData(chatId, env);
+    if (!authData) {
       return null;
     }
-
-    const authData: ChatAuthData = JSON.parse(chatAuth);
     
     // Get API key details
-    const apiKeyData = await env.API_KEYS.get(authData.api_key_hash);
-    if (!apiKeyData) {
+    const keyData = await getApiKeyData(authData.api_key_hash, env);
+    if (!keyData) {
       // Key was deleted, clean up chat association
       await env.CHATS.delete(chatId.toString());
       return null;
     }
 
-    const keyData: ApiKeyData = JSON.parse(apiKeyData);
     
     // Check if key has expired
     const now = new Date();
@@ -164,12 +161,22 @@ export async function getAuthDetails(chatId: number, env: Env): Promise<AuthDeta
   }
 }
 
+async function getChatAuthData(chatId: number, env: Env): Promise<ChatAuthData | null> {
+  const outcome = await getVersionedRecord<ChatAuthData>(env.CHATS, chatId.toString(), 'chatAuth');
+  return outcome?.record ?? null;
+}
+
+async function getApiKeyData(keyHash: string, env: Env): Promise<ApiKeyData | null> {
+  const outcome = await getVersionedRecord<ApiKeyData>(env.API_KEYS, keyHash, 'apiKey');
+  return outcome?.record ?? null;
+}
+
 interface RateLimitCheck {
   allowed: boolean;
   message: string;
 }
 
-async function checkRateLimit(chatId: number, env: Env): Promise<RateLimitCheck> {
+async function checkRateLimit(chatId: number, env: Env, language: Language): Promise<RateLimitCheck> {
   try {
     const rateLimitData = await env.RATE_LIMITS.get(chatId.toString());
     if (!rateLimitData) {
@@ -185,7 +192,7 @@ async function checkRateLimit(chatId: number, env: Env): Promise<RateLimitCheck>
       if (now < lockedUntil) {
         return {
           allowed: false,
-          message: `Too many failed attempts. Please try again after ${formatDateTime(lockedUntil)}.`
+          message: t(language, 'auth.rateLimited', { time: formatDateTime(lockedUntil, language) })
         };
       }
     }
@@ -256,8 +263,8 @@ function formatDate(date: Date): string {
   return '';
 }
 
-function formatDateTime(date: Date): string {
-  return date.toLocaleString('en-US', {
+function formatDateTime(date: Date, language: Language): string {
+  return date.toLocaleString(getLocale(language), {
     year: 'numeric',
     month: 'short',
     day: 'numeric',
@@ -1,8 +1,11 @@
-import { Env, User, Message, CallbackQuery } from './types';
+import { Env, User, Message, CallbackQuery, FastEntry, Language } from './types';
 import { isAuthenticated } from './auth';
-import { startFast, endFast, formatDuration, formatTimeInTimezone, getFastsThisWeek, cancelFast, getUserFastingData, getCurrentFastDuration } from './fasting';
-import { createSingleButtonKeyboard, createInlineKeyboard } from './telegram';
-import { getOrdinalSuffix } from './utils';
+import { startFast, endFast, formatDuration, formatTimeInTimezone, getFastsThisWeek, cancelFast, getUserFastingData, getCurrentFastDuration, formatGoalTarget, formatGoalOutcome, formatGoalProgress, formatDateInTimezone, formatRelativeTime, decodeFastReference, loadFastByReference, getHistoryTotals, deleteFastFromHistory, encodeFastReference, FastReference, getStreakStatistics, formatStreakSummary, formatNewAchievements, formatFastingPhase, formatMilestoneReached, updateFastRatings, formatFastRatings, RATING_CATEGORIES, decodeStatisticsPeriod, parseHistoryFilter, getFastingLimits, getUserLanguage } from './fasting';
+import { createSingleButtonKeyboard, createInlineKeyboard, createFastEndedKeyboard, createFastStateKeyboard } from './telegram';
+import { t, formatOrdinal } from './i18n';
+import { buildPeriodStatisticsResult, buildHistoryPageResult, loadHistoryPage, buildCalendarResult, loadPeriodStatisticsHistory, loadCalendarHistory } from './commands';
+import { parseMonthKey } from './heatmap';
+import { parseTimeAdjustment, validateTimelineConsistency } from './time-adjustments';
 
 export interface CallbackResult {
   text?: string;
@@ -12,6 +15,7 @@ export interface CallbackResult {
     chatId: number;
     newText: string;
     newKeyboard?: import('./types').InlineKeyboardMarkup;
+    parseMode?: 'HTML';
   };
 }
 
@@ -26,27 +30,50 @@ export async function routeCallback(
   }
 
   const chatId = message.chat.id;
+  const language = await getUserLanguage(user, env);
   
   // Check authentication
   const authenticated = await isAuthenticated(chatId, env);
   if (!authenticated) {
     return {
-      text: "Please authenticate first by sending your API key.",
+      text: t(language, 'auth.requiredCallback'),
       showAlert: true
     };
   }
 
+  if (data.startsWith('undo_')) {
+    return await routeUndoCallback(data, user, message, callbackQuery.id, env, language);
+  }
+  if (data.startsWith('edit_')) {
+    return await routeEditCallback(data, user, message, env, language);
+  }
+  if (data.startsWith('rate_')) {
+    return await routeRateCallback(data, user, message, callbackQuery.id, env, language);
+  }
+  if (data.startsWith('hist_')) {
+    return await handleHistoryPageCallback(data, user, message, env, language);
+  }
+  if (data.startsWith('cal_')) {
+    return await handleCalendarMonthCallback(data.substring('cal_'.length), user, message, env, language);
+  }
+  if (data.startsWith('stats_')) {
+    return await handleStatsPeriodCallback(data.substring('stats_'.length), user, message, env, language);
+  }
+  if (data.startsWith('adjust_')) {
+    return await routeAdjustTimeCallback(data, user, message, callbackQuery.id, env, language);
+  }
+
   switch (data) {
     case 'start_fast':
-      return await handleStartFastCallback(user, message, env);
+      return await handleStartFastCallback(user, message, callbackQuery.id, env, language);
     case 'end_fast':
-      return await handleEndFastCallback(user, message, env);
+      return await handleEndFastCallback(user, message, callbackQuery.id, env, language);
     case 'cancel_fast':
-      return await promptCancelFastConfirmation(user, message, env);
+      return await promptCancelFastConfirmation(user, message, env, language);
     case 'cancel_fast_yes':
-      return await handleCancelFastYesCallback(user, message, env);
+      return await handleCancelFastYesCallback(user, message, callbackQuery.id, env, language);
     case 'cancel_fast_no':
-      return await handleCancelFastNoCallback(user, message, env);
+      return await handleCancelFastNoCallback(user, message, env, language);
     default:
       return { showAlert: false };
   }
@@ -55,21 +82,26 @@ export async function routeCallback(
 async function handleStartFastCallback(
   user: User,
   message: Message,
-  env: Env
+  callbackQueryId: string,
+  env: Env,
+  language: Language,
+  customStartTime?: Date
 ): Promise<CallbackResult> {
   try {
-    const result = await startFast(user.id, user, env);
+    const result = await startFast(user.id, user, env, customStartTime, undefined, `callback:${callbackQueryId}`, language);
     
     if (!result.success) {
       return {
-        text: result.error || "Failed to start fast. Please try again.",
+        text: result.error || t(language, 'fast.startFailed'),
         showAlert: true
       };
     }
 
     const formattedTime = formatTimeInTimezone(result.startTime!, result.userData.timezone);
-    const newText = `✅ Fast started at ${formattedTime}`;
-    const newKeyboard = createSingleButtonKeyboard("🛑 End Fast", "end_fast");
+    const startedGoal = result.userData.currentFast?.goal;
+    const goalText = startedGoal ? `\n${formatGoalTarget(result.startTime!, startedGoal, result.userData.timezone, language)}` : '';
+    const newText = t(language, 'fast.started', { time: formattedTime }) + goalText;
+    const newKeyboard = createFastStateKeyboard(true, language);
 
     return {
       editMessage: {
@@ -82,7 +114,7 @@ async function handleStartFastCallback(
   } catch (error) {
     console.error('Error in handleStartFastCallback:', error);
     return {
-      text: "An error occurred while starting your fast. Please try again.",
+      text: t(language, 'error.startFast'),
       showAlert: true
     };
   }
@@ -91,30 +123,34 @@ async function handleStartFastCallback(
 async function handleEndFastCallback(
   user: User,
   message: Message,
-  env: Env
+  callbackQueryId: string,
+  env: Env,
+  language: Language,
+  customEndTime?: Date
 ): Promise<CallbackResult> {
   try {
-    const result = await endFast(user.id, user, env);
+    const result = await endFast(user.id, user, env, customEndTime, `callback:${callbackQueryId}`, language);
     
-    if (!result.success || !result.duration || !result.fastEntry) {
+    if (!result.success || !result.duration || !result.fastEntry || result.fastIndex === undefined) {
       return {
-        text: "No active fast to end.",
+        text: result.userData.currentFast && result.error ? result.error : t(language, 'fast.noneToEnd'),
         showAlert: true
       };
     }
 
     const durationText = formatDuration(result.duration);
-    const fastsThisWeek = getFastsThisWeek(result.userData.history, result.userData.timezone);
+    const fastsThisWeek = getFastsThisWeek(result.userData.history, result.userData.timezone, result.userData.weekStart);
     
-    let weekText;
-    if (fastsThisWeek === 1) {
-      weekText = ' (Your 1st fast this week)';
-    } else {
-      weekText = ` (Your ${fastsThisWeek}${getOrdinalSuffix(fastsThisWeek)} fast this week)`;
-    }
+    const weekText = t(language, 'fast.weekCount', { ordinal: formatOrdinal(fastsThisWeek, language) });
 
-    const newText = `✅ Great job! You fasted for ${durationText}${weekText}`;
-    const newKeyboard = createSingleButtonKeyboard("🚀 Start Fast", "start_fast");
+    const goalText = result.fastEntry.goal ? `\n${formatGoalOutcome(result.fastEntry, language)}` : '';
+    const milestone = formatMilestoneReached(result.duration, language);
+    const milestoneText = milestone ? `\n${milestone}` : '';
+    const streakText = `\n${formatStreakSummary(getStreakStatistics(result.userData), language)}`;
+    const achievements = formatNewAchievements(result.newAchievements ?? [], result.personalRecord ?? false, result.duration, language);
+    const achievementText = achievements ? `\n\n${achievements}` : '';
+    const newText = t(language, 'fast.ended', { duration: durationText }) + weekText + goalText + milestoneText + streakText + achievementText;
+    const newKeyboard = createFastEndedKeyboard(encodeFastReference(result.fastIndex, result.fastEntry), language);
 
     return {
       editMessage: {
@@ -127,7 +163,173 @@ async function handleEndFastCallback(
   } catch (error) {
     console.error('Error in handleEndFastCallback:', error);
     return {
-      text: "An error occurred while ending your fast. Please try again.",
+      text: t(language, 'error.endFast'),
+      showAlert: true
+    };
+  }
+}
+
+const ADJUST_TIME_STEPS = ['-15m', '-30m', '-1h', '-2h'];
+const MINUTE_MS = 60 * 1000;
+
+// adjust_<start|end> opens the keyboard at the current time; the chosen time travels in the
+// callback data as minutes since the epoch: adjust_start_<minutes>, adjust_start_ok_<minutes>
+async function routeAdjustTimeCallback(
+  data: string,
+  user: User,
+  message: Message,
+  callbackQueryId: string,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  const match = data.match(/^adjust_(start|end)(?:_(\d+|ok_\d+|custom|cancel))?$/);
+  if (!match || !match[1]) {
+    return { showAlert: false };
+  }
+  const isStart = match[1] === 'start';
+  const action = match[2];
+
+  if (action === 'custom') {
+    return showCustomTimeHelp(isStart, message, language);
+  }
+  if (action === 'cancel') {
+    return await handleAdjustTimeCancel(user, message, env, language);
+  }
+  if (action?.startsWith('ok_')) {
+    return await handleAdjustTimeConfirm(isStart, new Date(parseInt(action.substring('ok_'.length), 10) * MINUTE_MS), user, message, callbackQueryId, env, language);
+  }
+
+  const time = action ? new Date(parseInt(action, 10) * MINUTE_MS) : new Date(Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS);
+  return await showAdjustTimeKeyboard(isStart, time, user, message, env, language);
+}
+
+async function showAdjustTimeKeyboard(
+  isStart: boolean,
+  time: Date,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    if (isStart === !!userData.currentFast) {
+      return {
+        text: t(language, isStart ? 'fast.alreadyActive' : 'fast.noneToEnd'),
+        showAlert: true
+      };
+    }
+
+    const kind = isStart ? 'start' : 'end';
+    const now = new Date();
+    const limits = getFastingLimits(env, userData);
+    const stepButtons = ADJUST_TIME_STEPS.flatMap(step => {
+      const adjusted = parseTimeAdjustment(step, time, userData.timezone, time, language).adjustment?.value;
+      if (!adjusted || !validateTimelineConsistency(adjusted, userData.currentFast, isStart, now, limits, language).valid) {
+        return [];
+      }
+      return [{ text: step.replace('-', '−'), callback_data: `adjust_${kind}_${Math.round(adjusted.getTime() / MINUTE_MS)}` }];
+    });
+
+    const formattedTime = formatTimeInTimezone(time.toISOString(), userData.timezone);
+    const elapsed = now.getTime() - time.getTime();
+    const elapsedText = elapsed < MINUTE_MS ? t(language, 'adjust.now') : t(language, 'adjust.ago', { duration: formatDuration(elapsed) });
+    const durationText = userData.currentFast
+      ? `\n${t(language, 'adjust.lasted', { duration: formatDuration(time.getTime() - new Date(userData.currentFast.startedAt).getTime()) })}`
+      : '';
+    const newText = t(language, isStart ? 'adjust.previewStart' : 'adjust.previewEnd', { time: formattedTime, elapsed: elapsedText }) +
+      `${durationText}\n\n${t(language, 'adjust.hint')}`;
+
+    const rows = [
+      ...(stepButtons.length > 0 ? [stepButtons] : []),
+      [
+        { text: t(language, 'button.customTime'), callback_data: `adjust_${kind}_custom` },
+        { text: t(language, 'button.cancelAdjust'), callback_data: `adjust_${kind}_cancel` }
+      ],
+      [{ text: t(language, isStart ? 'button.confirmStart' : 'button.confirmEnd', { time: formattedTime }), callback_data: `adjust_${kind}_ok_${Math.round(time.getTime() / MINUTE_MS)}` }]
+    ];
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText,
+        newKeyboard: createInlineKeyboard(rows)
+      }
+    };
+  } catch (error) {
+    console.error('Error in showAdjustTimeKeyboard:', error);
+    return {
+      text: t(language, 'error.adjustTime'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleAdjustTimeConfirm(
+  isStart: boolean,
+  time: Date,
+  user: User,
+  message: Message,
+  callbackQueryId: string,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const validation = validateTimelineConsistency(time, userData.currentFast, isStart, new Date(), getFastingLimits(env, userData), language);
+    if (!validation.valid) {
+      return {
+        text: validation.error || t(language, 'error.invalidTime'),
+        showAlert: true
+      };
+    }
+  } catch (error) {
+    console.error('Error in handleAdjustTimeConfirm:', error);
+    return {
+      text: t(language, 'error.adjustTime'),
+      showAlert: true
+    };
+  }
+
+  return isStart
+    ? await handleStartFastCallback(user, message, callbackQueryId, env, language, time)
+    : await handleEndFastCallback(user, message, callbackQueryId, env, language, time);
+}
+
+// Free-form times are typed as a command, which goes through the same time parser
+function showCustomTimeHelp(isStart: boolean, message: Message, language: Language): CallbackResult {
+  const command = isStart ? '/f' : '/end';
+  return {
+    editMessage: {
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      newText: t(language, 'adjust.custom', { command }),
+      newKeyboard: createSingleButtonKeyboard(t(language, 'button.back'), isStart ? "adjust_start" : "adjust_end")
+    }
+  };
+}
+
+async function handleAdjustTimeCancel(
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText: t(language, 'adjust.canceled'),
+        newKeyboard: createFastStateKeyboard(!!userData.currentFast, language)
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleAdjustTimeCancel:', error);
+    return {
+      text: t(language, 'error.short'),
       showAlert: true
     };
   }
@@ -136,19 +338,21 @@ async function handleEndFastCallback(
 async function handleCancelFastYesCallback(
   user: User,
   message: Message,
-  env: Env
+  callbackQueryId: string,
+  env: Env,
+  language: Language
 ): Promise<CallbackResult> {
   try {
-    const result = await cancelFast(user.id, env);
+    const result = await cancelFast(user.id, env, `callback:${callbackQueryId}`, language);
     if (!result.success) {
       return {
-        text: "No active fast to cancel.",
+        text: t(language, 'fast.noneToCancel'),
         showAlert: true
       };
     }
 
-    const newText = `❎ Fast canceled. You can start a new fast anytime.`;
-    const newKeyboard = createSingleButtonKeyboard("🚀 Start Fast", "start_fast");
+    const newText = t(language, 'fast.canceled');
+    const newKeyboard = createFastStateKeyboard(false, language);
 
     return {
       editMessage: {
@@ -161,7 +365,7 @@ async function handleCancelFastYesCallback(
   } catch (error) {
     console.error('Error in handleCancelFastYesCallback:', error);
     return {
-      text: "An error occurred while canceling your fast. Please try again.",
+      text: t(language, 'error.cancelFast'),
       showAlert: true
     };
   }
@@ -170,13 +374,14 @@ async function handleCancelFastYesCallback(
 async function promptCancelFastConfirmation(
   user: User,
   message: Message,
-  env: Env
+  env: Env,
+  language: Language
 ): Promise<CallbackResult> {
   try {
-    const userData = await getUserFastingData(user.id, env);
+    const userData = await getUserFastingData(user.id, env, 'none');
     if (!userData.currentFast) {
       return {
-        text: "No active fast to cancel.",
+        text: t(language, 'fast.noneToCancel'),
         showAlert: true
       };
     }
@@ -184,10 +389,10 @@ async function promptCancelFastConfirmation(
     const durationText = formatDuration(duration);
     const startTime = formatTimeInTimezone(userData.currentFast.startedAt, userData.timezone);
 
-    const newText = `❓ Cancel current fast?\nYou've been fasting for ${durationText} (started at ${startTime}).\nThis will discard the fast. Are you sure?`;
+    const newText = t(language, 'fast.cancelPrompt', { duration: durationText, time: startTime });
     const newKeyboard = createInlineKeyboard([[
-      { text: "✅ Yes, cancel", callback_data: "cancel_fast_yes" },
-      { text: "↩️ No, keep fasting", callback_data: "cancel_fast_no" }
+      { text: t(language, 'button.confirmCancel'), callback_data: "cancel_fast_yes" },
+      { text: t(language, 'button.keepFasting'), callback_data: "cancel_fast_no" }
     ]]);
 
     return {
@@ -201,7 +406,7 @@ async function promptCancelFastConfirmation(
   } catch (error) {
     console.error('Error in promptCancelFastConfirmation:', error);
     return {
-      text: "An error occurred. Please try again.",
+      text: t(language, 'error.short'),
       showAlert: true
     };
   }
@@ -210,13 +415,14 @@ async function promptCancelFastConfirmation(
 async function handleCancelFastNoCallback(
   user: User,
   message: Message,
-  env: Env
+  env: Env,
+  language: Language
 ): Promise<CallbackResult> {
   try {
-    const userData = await getUserFastingData(user.id, env);
+    const userData = await getUserFastingData(user.id, env, 'none');
     if (!userData.currentFast) {
       return {
-        text: "No active fast.",
+        text: t(language, 'fast.none'),
         showAlert: true
       };
     }
@@ -225,10 +431,12 @@ async function handleCancelFastNoCallback(
     const durationText = formatDuration(duration);
     const startTime = formatTimeInTimezone(userData.currentFast.startedAt, userData.timezone);
 
-    const newText = `👍 Cancellation aborted. Keep going! You've been fasting for ${durationText} (started at ${startTime}).`;
+    const goalText = userData.currentFast.goal ? `\n${formatGoalProgress(duration, userData.currentFast.goal, language)}` : '';
+    const phaseText = `\n${formatFastingPhase(userData.currentFast.startedAt, duration, userData.timezone, language)}`;
+    const newText = t(language, 'fast.cancelAborted', { duration: durationText, time: startTime }) + goalText + phaseText;
     const newKeyboard = createInlineKeyboard([[
-      { text: "🛑 End Fast", callback_data: "end_fast" },
-      { text: "🗑️ Cancel Fast", callback_data: "cancel_fast" }
+      { text: t(language, 'button.endFast'), callback_data: "end_fast" },
+      { text: t(language, 'button.cancelFast'), callback_data: "cancel_fast" }
     ]]);
 
     return {
@@ -242,8 +450,429 @@ async function handleCancelFastNoCallback(
   } catch (error) {
     console.error('Error in handleCancelFastNoCallback:', error);
     return {
-      text: "An error occurred. Please try again.",
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function routeUndoCallback(
+  data: string,
+  user: User,
+  message: Message,
+  callbackQueryId: string,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  if (data === 'undo_cancel') {
+    return await handleUndoCancelCallback(user, message, env, language);
+  }
+
+  const match = data.match(/^undo_(select|confirm)_(.+)$/);
+  const reference = match?.[2] ? decodeFastReference(match[2]) : null;
+  if (!match || !reference) {
+    return { showAlert: false };
+  }
+
+  return match[1] === 'select'
+    ? await handleUndoSelectCallback(reference, user, message, env, language)
+    : await handleUndoConfirmCallback(reference, user, message, callbackQueryId, env, language);
+}
+
+async function handleUndoSelectCallback(
+  reference: FastReference,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const fast = await loadFastByReference(user.id, userData, reference, env);
+    if (!fast) {
+      return {
+        text: t(language, 'history.fastGone'),
+        showAlert: true
+      };
+    }
+
+    const newText = t(language, 'undo.confirm', {
+      duration: formatDuration(fast.duration),
+      start: formatDateInTimezone(fast.startedAt, userData.timezone, language),
+      end: formatDateInTimezone(fast.endedAt, userData.timezone, language),
+      relative: formatRelativeTime(fast.endedAt, userData.timezone, language),
+      currentFastNote: userData.currentFast ? t(language, 'undo.currentFastNote') : ''
+    });
+    const newKeyboard = createInlineKeyboard([[
+      { text: t(language, 'button.confirmDelete'), callback_data: `undo_confirm_${encodeFastReference(reference.index, fast)}` },
+      { text: t(language, 'button.keepFast'), callback_data: "undo_cancel" }
+    ]]);
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText,
+        newKeyboard
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleUndoSelectCallback:', error);
+    return {
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleUndoConfirmCallback(
+  reference: FastReference,
+  user: User,
+  message: Message,
+  callbackQueryId: string,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const result = await deleteFastFromHistory(user.id, reference, env, `callback:${callbackQueryId}`, language);
+    if (!result.success) {
+      return {
+        text: t(language, 'history.fastGone'),
+        showAlert: true
+      };
+    }
+
+    const fastsThisWeek = getFastsThisWeek(result.userData.history, result.userData.timezone, result.userData.weekStart);
+    const newText = t(language, 'undo.deleted', { count: result.userData.history.length, week: fastsThisWeek });
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText,
+        newKeyboard: createFastStateKeyboard(!!result.userData.currentFast, language)
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleUndoConfirmCallback:', error);
+    return {
+      text: t(language, 'error.deleteFast'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleUndoCancelCallback(
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText: t(language, 'undo.canceled'),
+        newKeyboard: createFastStateKeyboard(!!userData.currentFast, language)
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleUndoCancelCallback:', error);
+    return {
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function routeEditCallback(
+  data: string,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  if (data === 'edit_cancel') {
+    return await handleEditCancelCallback(user, message, env, language);
+  }
+
+  const match = data.match(/^edit_select_(.+)$/);
+  const reference = match?.[1] ? decodeFastReference(match[1]) : null;
+  if (!reference) {
+    return { showAlert: false };
+  }
+
+  return await handleEditSelectCallback(reference, user, message, env, language);
+}
+
+async function handleEditSelectCallback(
+  reference: FastReference,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const fast = await loadFastByReference(user.id, userData, reference, env);
+    if (!fast) {
+      return {
+        text: t(language, 'history.fastGone'),
+        showAlert: true
+      };
+    }
+
+    // The /edit command addresses fasts by their position in the recent list
+    const position = getHistoryTotals(userData).count - reference.index;
+    const newText = t(language, 'edit.selected', {
+      position,
+      start: formatDateInTimezone(fast.startedAt, userData.timezone, language),
+      end: formatDateInTimezone(fast.endedAt, userData.timezone, language),
+      duration: formatDuration(fast.duration)
+    });
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText,
+        newKeyboard: createSingleButtonKeyboard(t(language, 'button.cancel'), "edit_cancel")
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleEditSelectCallback:', error);
+    return {
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleEditCancelCallback(
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText: t(language, 'edit.canceled'),
+        newKeyboard: createFastStateKeyboard(!!userData.currentFast, language)
+      }
+    };
+  } catch (error) {
+    console.error('Error in handleEditCancelCallback:', error);
+    return {
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function routeRateCallback(
+  data: string,
+  user: User,
+  message: Message,
+  callbackQueryId: string,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  if (data === 'rate_skip') {
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText: t(language, 'rate.skipped'),
+        newKeyboard: createFastStateKeyboard(false, language)
+      }
+    };
+  }
+
+  // rate_start_<ref> opens the flow; rate_<category>_<1-5>_<ref> records one answer
+  const startMatch = data.match(/^rate_start_(.+)$/);
+  const answerMatch = data.match(/^rate_(hunger|energy|mood)_([1-5])_(.+)$/);
+  const reference = decodeFastReference(startMatch?.[1] ?? answerMatch?.[3] ?? '');
+  if (!reference) {
+    return { showAlert: false };
+  }
+
+  try {
+    let ratedFast: FastEntry | null;
+    let nextCategoryIndex = 0;
+
+    if (answerMatch) {
+      const category = RATING_CATEGORIES.findIndex(entry => entry.key === answerMatch[1]);
+      const result = await updateFastRatings(user.id, reference, { [answerMatch[1]!]: Number(answerMatch[2]) }, env, `callback:${callbackQueryId}`, language);
+      ratedFast = result.fastEntry ?? null;
+      nextCategoryIndex = category + 1;
+    } else {
+      const userData = await getUserFastingData(user.id, env, 'none');
+      ratedFast = await loadFastByReference(user.id, userData, reference, env);
+    }
+
+    if (!ratedFast) {
+      return {
+        text: t(language, 'history.fastGone'),
+        showAlert: true
+      };
+    }
+
+    const nextCategory = RATING_CATEGORIES[nextCategoryIndex];
+    if (!nextCategory) {
+      const ratingsText = ratedFast.ratings ? `\n${formatFastRatings(ratedFast.ratings, language)}` : '';
+      return {
+        editMessage: {
+          messageId: message.message_id,
+          chatId: message.chat.id,
+          newText: t(language, 'rate.saved', { duration: formatDuration(ratedFast.duration) }) + ratingsText,
+          newKeyboard: createFastStateKeyboard(false, language)
+        }
+      };
+    }
+
+    const encodedReference = encodeFastReference(reference.index, ratedFast);
+    const newText = t(language, 'rate.prompt', {
+      duration: formatDuration(ratedFast.duration),
+      step: nextCategoryIndex + 1,
+      total: RATING_CATEGORIES.length,
+      emoji: nextCategory.emoji,
+      label: t(language, `rating.${nextCategory.key}.label`),
+      question: t(language, `rating.${nextCategory.key}.question`)
+    });
+    const newKeyboard = createInlineKeyboard([
+      [1, 2, 3, 4, 5].map(value => ({ text: `${value}`, callback_data: `rate_${nextCategory.key}_${value}_${encodedReference}` })),
+      [{ text: t(language, 'button.skip'), callback_data: "rate_skip" }]
+    ]);
+
+    return {
+      editMessage: {
+        messageId: message.message_id,
+        chatId: message.chat.id,
+        newText,
+        newKeyboard
+      }
+    };
+  } catch (error) {
+    console.error('Error in routeRateCallback:', error);
+    return {
+      text: t(language, 'error.short'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleStatsPeriodCallback(
+  encodedPeriod: string,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const period = decodeStatisticsPeriod(encodedPeriod, userData.timezone, userData.weekStart);
+    if (!period) {
+      return { showAlert: false };
+    }
+    const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+
+    const result = buildPeriodStatisticsResult(statisticsData, period, message.message_id, language);
+    const editMessage: NonNullable<CallbackResult['editMessage']> = {
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      newText: result.text
+    };
+    if (result.replyMarkup) {
+      editMessage.newKeyboard = result.replyMarkup;
+    }
+
+    return { editMessage };
+  } catch (error) {
+    console.error('Error in handleStatsPeriodCallback:', error);
+    return {
+      text: t(language, 'error.stats'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleHistoryPageCallback(
+  data: string,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  // hist_<page> or hist_<page>_<filter>
+  const match = data.match(/^hist_(\d+)(?:_(.+))?$/);
+  const filterResult = parseHistoryFilter(match?.[2] ?? '', language);
+  if (!match?.[1] || !filterResult.filter) {
+    return { showAlert: false };
+  }
+
+  try {
+    const page = parseInt(match[1], 10);
+    const userData = await getUserFastingData(user.id, env, 'none');
+    await loadHistoryPage(user.id, userData, filterResult.filter, page, env);
+    const result = buildHistoryPageResult(userData, filterResult.filter, page, message.message_id, language);
+    const editMessage: NonNullable<CallbackResult['editMessage']> = {
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      newText: result.text
+    };
+    if (result.replyMarkup) {
+      editMessage.newKeyboard = result.replyMarkup;
+    }
+
+    return { editMessage };
+  } catch (error) {
+    console.error('Error in handleHistoryPageCallback:', error);
+    return {
+      text: t(language, 'error.history'),
+      showAlert: true
+    };
+  }
+}
+
+async function handleCalendarMonthCallback(
+  monthKey: string,
+  user: User,
+  message: Message,
+  env: Env,
+  language: Language
+): Promise<CallbackResult> {
+  if (!parseMonthKey(monthKey)) {
+    return { showAlert: false };
+  }
+
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    await loadCalendarHistory(user.id, userData, monthKey, env);
+    const result = buildCalendarResult(userData, monthKey, message.message_id, language);
+    const editMessage: NonNullable<CallbackResult['editMessage']> = {
+      messageId: message.message_id,
+      chatId: message.chat.id,
+      newText: result.text,
+      parseMode: 'HTML'
+    };
+    if (result.replyMarkup) {
+      editMessage.newKeyboard = result.replyMarkup;
+    }
+
+    return { editMessage };
+  } catch (error) {
+    console.error('Error in handleCalendarMonthCallback:', error);
+    return {
+      text: t(language, 'error.calendar'),
       showAlert: true
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,201 @@
+import { UserFastingData, Language } from './types';
+import {
+  StatisticsPeriod,
+  getLocalDateKey,
+  addDaysToDateKey,
+  getDateKeyDifference
+} from './fasting';
+import { FastingInterval, getFastingDurationsByDay } from './heatmap';
+import { RGB, IndexedImage, createIndexedImage, fillRect, drawLine, encodePng } from './png';
+import { t, formatNumber, DEFAULT_LANGUAGE } from './i18n';
+
+export interface FastingChartData {
+  period: StatisticsPeriod;
+  dailyHours: number[]; // one entry per day of the period, 0 for days still to come
+  rollingAverage: number[]; // one entry per elapsed day
+  goalHours: number | null;
+  ticks: Array<{ index: number; label: string }>;
+}
+
+const HOUR = 1000 * 60 * 60;
+const ROLLING_AVERAGE_DAYS = 7;
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 400;
+const MARGIN = { top: 16, right: 16, bottom: 32, left: 44 };
+const MAX_HOURS = 24;
+const GRID_STEP_HOURS = 4;
+
+const COLORS = {
+  background: 0,
+  grid: 1,
+  axis: 2,
+  bar: 3,
+  barGoalMet: 4,
+  average: 5,
+  goal: 6
+};
+
+const PALETTE: RGB[] = [
+  [255, 255, 255],
+  [228, 230, 236],
+  [88, 92, 104],
+  [122, 162, 247],
+  [72, 187, 120],
+  [237, 137, 54],
+  [229, 62, 62]
+];
+
+// 3×5 bitmap digits for axis labels
+const DIGIT_FONT: Record<string, string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '010', '010', '010'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111']
+};
+const FONT_SCALE = 2;
+
+export function getFastingChartData(userData: UserFastingData, period: StatisticsPeriod, now: Date = new Date()): FastingChartData {
+  const intervals: FastingInterval[] = [...userData.history];
+  if (userData.currentFast) {
+    intervals.push({ startedAt: userData.currentFast.startedAt, endedAt: now.toISOString() });
+  }
+
+  // Start early enough that the first days of the period already have a full rolling window
+  const dayCount = getDateKeyDifference(period.from, period.to) + 1;
+  const lookback = ROLLING_AVERAGE_DAYS - 1;
+  const hours = getFastingDurationsByDay(intervals, addDaysToDateKey(period.from, -lookback), dayCount + lookback, userData.timezone)
+    .map(duration => duration / HOUR);
+
+  const today = getLocalDateKey(now.toISOString(), userData.timezone);
+  const elapsedDays = Math.max(0, Math.min(dayCount, getDateKeyDifference(period.from, today) + 1));
+
+  const dailyHours = hours.slice(lookback).map((value, index) => index < elapsedDays ? value : 0);
+  const rollingAverage: number[] = [];
+  for (let index = 0; index < elapsedDays; index++) {
+    const window = hours.slice(index, index + ROLLING_AVERAGE_DAYS);
+    rollingAverage.push(window.reduce((sum, value) => sum + value, 0) / window.length);
+  }
+
+  const goal = userData.currentFast?.goal ?? userData.defaultGoal;
+
+  return {
+    period,
+    dailyHours,
+    rollingAverage,
+    goalHours: goal ? goal.targetDuration / HOUR : null,
+    ticks: getChartTicks(period, dayCount)
+  };
+}
+
+export async function renderFastingChart(data: FastingChartData): Promise<Uint8Array> {
+  const image = createIndexedImage(CHART_WIDTH, CHART_HEIGHT, PALETTE);
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const plotBottom = MARGIN.top + plotHeight;
+  const toY = (hours: number) => plotBottom - Math.min(hours, MAX_HOURS) / MAX_HOURS * plotHeight;
+
+  for (let hours = 0; hours <= MAX_HOURS; hours += GRID_STEP_HOURS) {
+    const y = Math.round(toY(hours));
+    fillRect(image, MARGIN.left, y, plotWidth, 1, COLORS.grid);
+    const label = String(hours);
+    drawDigits(image, label, MARGIN.left - 6 - getTextWidth(label), y - Math.floor(5 * FONT_SCALE / 2), COLORS.axis);
+  }
+
+  const slot = plotWidth / data.dailyHours.length;
+  const barWidth = Math.max(1, Math.floor(slot * 0.7));
+  const centerOf = (index: number) => MARGIN.left + slot * index + slot / 2;
+
+  data.dailyHours.forEach((hours, index) => {
+    if (hours <= 0) {
+      return;
+    }
+    const color = data.goalHours !== null && hours >= data.goalHours ? COLORS.barGoalMet : COLORS.bar;
+    const top = toY(hours);
+    fillRect(image, Math.round(centerOf(index) - barWidth / 2), top, barWidth, plotBottom - top, color);
+  });
+
+  if (data.goalHours !== null && data.goalHours <= MAX_HOURS) {
+    const y = Math.round(toY(data.goalHours));
+    for (let x = MARGIN.left; x < MARGIN.left + plotWidth; x += 14) {
+      fillRect(image, x, y - 1, Math.min(8, MARGIN.left + plotWidth - x), 2, COLORS.goal);
+    }
+  }
+
+  const lineThickness = data.dailyHours.length > 62 ? 2 : 3;
+  for (let index = 1; index < data.rollingAverage.length; index++) {
+    drawLine(
+      image,
+      centerOf(index - 1), toY(data.rollingAverage[index - 1] ?? 0),
+      centerOf(index), toY(data.rollingAverage[index] ?? 0),
+      COLORS.average,
+      lineThickness
+    );
+  }
+
+  fillRect(image, MARGIN.left, plotBottom, plotWidth, 1, COLORS.axis);
+  fillRect(image, MARGIN.left, MARGIN.top, 1, plotHeight, COLORS.axis);
+  for (const tick of data.ticks) {
+    const x = Math.round(centerOf(tick.index));
+    fillRect(image, x, plotBottom + 1, 1, 4, COLORS.axis);
+    drawDigits(image, tick.label, x - Math.floor(getTextWidth(tick.label) / 2), plotBottom + 10, COLORS.axis);
+  }
+
+  return encodePng(image);
+}
+
+export function formatChartCaption(title: string, data: FastingChartData, language: Language = DEFAULT_LANGUAGE): string {
+  const totalHours = data.dailyHours.reduce((sum, hours) => sum + hours, 0);
+  const averageHours = data.rollingAverage.length > 0 ? totalHours / data.rollingAverage.length : 0;
+
+  const legend = data.goalHours !== null
+    ? t(language, 'chart.legendGoal', { goal: formatHours(data.goalHours, language) })
+    : t(language, 'chart.legend');
+  const totals = t(language, 'chart.totals', { total: formatHours(totalHours, language), average: formatHours(averageHours, language) });
+
+  return `${title}\n\n${legend}\n\n${totals}`;
+}
+
+// Week charts label every day, month charts every fifth day and year charts the first day of each month
+function getChartTicks(period: StatisticsPeriod, dayCount: number): Array<{ index: number; label: string }> {
+  const ticks: Array<{ index: number; label: string }> = [];
+  for (let index = 0; index < dayCount; index++) {
+    const dateKey = addDaysToDateKey(period.from, index);
+    const day = Number(dateKey.substring(8, 10));
+    const month = Number(dateKey.substring(5, 7));
+
+    if (period.kind === 'year') {
+      if (day === 1) ticks.push({ index, label: String(month) });
+    } else if (dayCount <= 7 || day === 1 || day % 5 === 0) {
+      ticks.push({ index, label: String(day) });
+    }
+  }
+  return ticks;
+}
+
+function getTextWidth(text: string): number {
+  return text.length * 4 * FONT_SCALE - FONT_SCALE;
+}
+
+function drawDigits(image: IndexedImage, text: string, x: number, y: number, color: number): void {
+  [...text].forEach((character, position) => {
+    const glyph = DIGIT_FONT[character];
+    glyph?.forEach((row, rowIndex) => {
+      [...row].forEach((bit, columnIndex) => {
+        if (bit === '1') {
+          fillRect(image, x + (position * 4 + columnIndex) * FONT_SCALE, y + rowIndex * FONT_SCALE, FONT_SCALE, FONT_SCALE, color);
+        }
+      });
+    });
+  });
+}
+
+function formatHours(hours: number, language: Language): string {
+  return `${formatNumber(Math.round(hours * 10) / 10, language, { useGrouping: false })}h`;
+}
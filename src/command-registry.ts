@@ -0,0 +1,86 @@
+import { Language } from './types';
+import { t, MessageKey, LANGUAGES, DEFAULT_LANGUAGE } from './i18n';
+import { BotCommand, BotCommandScope, SetMyCommandsParams } from './telegram';
+
+// Every command the bot answers to. routeCommand resolves aliases here, /help lists the
+// commands in this order and setup-webhook publishes them as Telegram's command menu.
+
+export type CommandScope = 'private' | 'group';
+
+export interface CommandDefinition {
+  name: string;
+  aliases: string[];
+  description: MessageKey;
+  scopes: CommandScope[]; // chats whose command menu lists it; every command works everywhere
+}
+
+const EVERYWHERE: CommandScope[] = ['private', 'group'];
+const PRIVATE_ONLY: CommandScope[] = ['private'];
+
+export const COMMANDS: CommandDefinition[] = [
+  { name: 'fast', aliases: ['f'], description: 'command.fast', scopes: EVERYWHERE },
+  { name: 'end', aliases: ['e'], description: 'command.end', scopes: EVERYWHERE },
+  { name: 'cancel', aliases: [], description: 'command.cancel', scopes: EVERYWHERE },
+  { name: 'stats', aliases: [], description: 'command.stats', scopes: EVERYWHERE },
+  { name: 'week', aliases: [], description: 'command.week', scopes: EVERYWHERE },
+  { name: 'month', aliases: [], description: 'command.month', scopes: EVERYWHERE },
+  { name: 'year', aliases: [], description: 'command.year', scopes: PRIVATE_ONLY },
+  { name: 'lastweek', aliases: [], description: 'command.lastweek', scopes: PRIVATE_ONLY },
+  { name: 'lastmonth', aliases: [], description: 'command.lastmonth', scopes: PRIVATE_ONLY },
+  { name: 'history', aliases: [], description: 'command.history', scopes: EVERYWHERE },
+  { name: 'calendar', aliases: [], description: 'command.calendar', scopes: PRIVATE_ONLY },
+  { name: 'chart', aliases: [], description: 'command.chart', scopes: PRIVATE_ONLY },
+  { name: 'streak', aliases: [], description: 'command.streak', scopes: EVERYWHERE },
+  { name: 'badges', aliases: [], description: 'command.badges', scopes: PRIVATE_ONLY },
+  { name: 'note', aliases: [], description: 'command.note', scopes: PRIVATE_ONLY },
+  { name: 'weight', aliases: [], description: 'command.weight', scopes: PRIVATE_ONLY },
+  { name: 'undo', aliases: [], description: 'command.undo', scopes: PRIVATE_ONLY },
+  { name: 'edit', aliases: [], description: 'command.edit', scopes: PRIVATE_ONLY },
+  { name: 'log', aliases: [], description: 'command.log', scopes: PRIVATE_ONLY },
+  { name: 'goal', aliases: [], description: 'command.goal', scopes: PRIVATE_ONLY },
+  { name: 'limits', aliases: [], description: 'command.limits', scopes: PRIVATE_ONLY },
+  { name: 'timezone', aliases: [], description: 'command.timezone', scopes: PRIVATE_ONLY },
+  { name: 'weekstart', aliases: [], description: 'command.weekstart', scopes: PRIVATE_ONLY },
+  { name: 'language', aliases: [], description: 'command.language', scopes: PRIVATE_ONLY },
+  // Authenticating sends the API key, which should not happen in front of a group
+  { name: 'start', aliases: [], description: 'command.start', scopes: PRIVATE_ONLY },
+  { name: 'status', aliases: [], description: 'command.status', scopes: PRIVATE_ONLY },
+  { name: 'help', aliases: [], description: 'command.help', scopes: EVERYWHERE }
+];
+
+const MENU_SCOPES: Record<CommandScope, BotCommandScope> = {
+  private: { type: 'all_private_chats' },
+  group: { type: 'all_group_chats' }
+};
+
+export function findCommand(nameOrAlias: string): CommandDefinition | undefined {
+  return COMMANDS.find(command => command.name === nameOrAlias || command.aliases.includes(nameOrAlias));
+}
+
+export function formatHelp(language: Language): string {
+  const lines = COMMANDS.map(command => {
+    const names = [command.name, ...command.aliases].map(name => `/${name}`).join(', ');
+    return `${names} — ${t(language, command.description)}`;
+  });
+  return `${t(language, 'help.title')}\n\n${lines.join('\n')}`;
+}
+
+export function getMenuCommands(scope: CommandScope, language: Language): BotCommand[] {
+  return COMMANDS
+    .filter(command => command.scopes.includes(scope))
+    .map(command => ({ command: command.name, description: t(language, command.description) }));
+}
+
+// One setMyCommands call per chat scope and language. The default language is published
+// without a language code so that it also covers clients in languages the bot doesn't speak.
+export function getCommandMenus(): SetMyCommandsParams[] {
+  return (Object.keys(MENU_SCOPES) as CommandScope[]).flatMap(scope =>
+    (Object.keys(LANGUAGES) as Language[]).map(language => {
+      const params: SetMyCommandsParams = { commands: getMenuCommands(scope, language), scope: MENU_SCOPES[scope] };
+      if (language !== DEFAULT_LANGUAGE) {
+        params.language_code = language;
+      }
+      return params;
+    })
+  );
+}
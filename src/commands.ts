@@ -1,7 +1,16 @@
-import { Env, User, InlineKeyboardMarkup } from './types';
+import { Env, User, InlineKeyboardMarkup, FastingGoal, FastEntry, UserFastingData, WeekStart, FastingLimits, Language } from './types';
 import { getAuthDetails, isAuthenticated } from './auth';
 import { 
   getUserFastingData, 
+  getFastingLimits,
+  getCountedFastingData,
+  loadFullHistory,
+  loadRecentHistory,
+  parseLimitDuration,
+  formatLimitDuration,
+  setUserFastingLimits,
+  loadHistoryForPeriods,
+  zonedTimeToInstant,
   startFast, 
   endFast, 
   setUserTimezone, 
@@ -13,39 +22,86 @@ import {
   getFastsThisWeek, 
   getLastFast, 
   getRecentFasts,
-  getWeeklyStatistics,
-  getMonthlyStatistics,
-  PeriodStatistics
+  getStatisticsPeriod,
+  getRangeStatisticsPeriod,
+  shiftStatisticsPeriod,
+  parseDateRange,
+  getPeriodStatistics,
+  encodeStatisticsPeriod,
+  formatPeriodTitle,
+  formatPeriodStatistics,
+  getPeriodComparison,
+  setUserDefaultGoal,
+  setUserWeekStart,
+  setUserLanguage,
+  getUserLanguage,
+  setCurrentFastGoal,
+  formatGoalProgress,
+  formatGoalTarget,
+  formatGoalOutcome,
+  encodeFastReference,
+  getFastReference,
+  updateFastTimes,
+  logFast,
+  getStreakStatistics,
+  loadStreakHistory,
+  getHistoryTotals,
+  formatStreakSummary,
+  formatDays,
+  getEatingWindows,
+  calculateEatingWindowStatistics,
+  getCurrentEatingWindowDuration,
+  formatEatingWindowSummary,
+  formatFastingPhase,
+  formatMilestoneReached,
+  setFastNote,
+  formatFastRatings,
+  getLocalDateKey,
+  parseHistoryFilter,
+  formatHistoryFilter,
+  filterHistory,
+  HistoryFilter,
+  StatisticsPeriod,
+  formatNewAchievements,
+  formatBadgeList
 } from './fasting';
-import { createSingleButtonKeyboard, createInlineKeyboard } from './telegram';
-import { getOrdinalSuffix } from './utils';
-import { parseTimeAdjustment, validateTimelineConsistency } from './time-adjustments';
+import { parseGoal, formatGoalLabel, isGoalMet, getProtocolList } from './goals';
+import { getUserWeightData, logWeight, setWeightUnit, parseWeight, parseWeightUnit, formatWeight, getWeightSummary, formatWeightSummary, formatMonthlyWeightLine } from './weight';
+import { createInlineKeyboard, createNumberedButtonRows, getNumberEmoji, createFastEndedKeyboard, createFastStateKeyboard, escapeHtml } from './telegram';
+import { t, formatOrdinal, formatNumber, parseLanguage, formatLanguageList, LANGUAGES, MessageKey } from './i18n';
+import { parseMonthKey, formatMonthKey, shiftMonthKey, getDailyFastingDurations, formatCalendarHeatmap, formatHeatmapLegend, formatMonthTitle, FastingInterval } from './heatmap';
+import { getFastingChartData, renderFastingChart, formatChartCaption } from './chart';
+import { findCommand, formatHelp } from './command-registry';
+import { parseTimeAdjustment, parseTimeRange, validateTimelineConsistency } from './time-adjustments';
 
 export interface CommandResult {
   text: string;
   replyToMessageId?: number;
   replyMarkup?: InlineKeyboardMarkup;
+  parseMode?: 'HTML';
+  photo?: Uint8Array; // sent as a photo with `text` as its caption
 }
 
 export async function handleStartCommand(
   chatId: number,
-  _user: User,
+  user: User,
   messageId: number,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   const authDetails = await getAuthDetails(chatId, env);
   
   if (authDetails) {
     // Chat is already authenticated
     const expiry = new Date(authDetails.expiry);
     return {
-      text: `Welcome back! ✅\nAuthenticated as: ${authDetails.keyName}\nExpires: ${formatDate(expiry)}`,
+      text: t(language, 'start.welcomeBack', { name: authDetails.keyName, expiry: formatDate(expiry) }),
       replyToMessageId: messageId
     };
   } else {
     // Chat is not authenticated
     return {
-      text: "Welcome to ZenFast! 🚀\nPlease authenticate by sending your API key.",
+      text: t(language, 'start.welcome'),
       replyToMessageId: messageId
     };
   }
@@ -53,10 +109,11 @@ export async function handleStartCommand(
 
 export async function handleStatusCommand(
   chatId: number,
-  _user: User,
+  user: User,
   messageId: number,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   const authDetails = await getAuthDetails(chatId, env);
   
   if (authDetails) {
@@ -64,21 +121,35 @@ export async function handleStatusCommand(
     const authenticatedAt = new Date(authDetails.authenticatedAt);
     
     return {
-      text: `Authentication Status: ✅ Authenticated\n\n` +
-            `Key Name: ${authDetails.keyName}\n` +
-            `Expires: ${formatDate(expiry)}\n` +
-            `Authenticated by: ${authDetails.authenticatedBy.first_name}\n` +
-            `Authenticated on: ${formatDate(authenticatedAt)}`,
+      text: t(language, 'status.authenticated', {
+        name: authDetails.keyName,
+        expiry: formatDate(expiry),
+        by: authDetails.authenticatedBy.first_name,
+        on: formatDate(authenticatedAt)
+      }),
       replyToMessageId: messageId
     };
   } else {
     return {
-      text: "Authentication Status: ❌ Not authenticated\n\nPlease use /start to begin authentication.",
+      text: t(language, 'status.notAuthenticated'),
       replyToMessageId: messageId
     };
   }
 }
 
+export async function handleHelpCommand(
+  _chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  return {
+    text: formatHelp(language),
+    replyToMessageId: messageId
+  };
+}
+
 export function extractCommand(text: string): string | null {
   if (!text.startsWith('/')) {
     return null;
@@ -96,90 +167,118 @@ export async function handleFastCommand(
   env: Env,
   messageText?: string
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const { goal, timeInput } = parseFastArguments(messageText);
     
     if (userData.currentFast) {
+      // "/f 18h" during a fast switches the goal of the running fast
+      if (goal && !timeInput) {
+        const goalResult = await setCurrentFastGoal(user.id, goal, env, `message:${chatId}:${messageId}`, language);
+        if (!goalResult.success || !goalResult.userData.currentFast) {
+          return {
+            text: goalResult.error || t(language, 'goal.failed'),
+            replyToMessageId: messageId
+          };
+        }
+        
+        const duration = getCurrentFastDuration(goalResult.userData.currentFast);
+        return {
+          text: t(language, 'fast.goalSwitched', { goal: formatGoalLabel(goal), progress: formatGoalProgress(duration, goal, language) }),
+          replyToMessageId: messageId,
+          replyMarkup: createInlineKeyboard([[
+            { text: t(language, 'button.endFast'), callback_data: "end_fast" },
+            { text: t(language, 'button.cancelFast'), callback_data: "cancel_fast" }
+          ]])
+        };
+      }
+      
       const duration = getCurrentFastDuration(userData.currentFast);
       const durationText = formatDuration(duration);
       const startTime = formatTimeInTimezone(userData.currentFast.startedAt, userData.timezone);
+      const goalText = userData.currentFast.goal ? `\n${formatGoalProgress(duration, userData.currentFast.goal, language)}` : '';
+      const phaseText = `\n${formatFastingPhase(userData.currentFast.startedAt, duration, userData.timezone, language)}`;
       
       return {
-        text: `You've been fasting for ${durationText} (started at ${startTime}). Please end your current fast (or cancel it) before starting a new one.`,
+        text: t(language, 'fast.alreadyFasting', { duration: durationText, time: startTime }) + goalText + phaseText,
         replyToMessageId: messageId,
         replyMarkup: createInlineKeyboard([[
-          { text: "🛑 End Fast", callback_data: "end_fast" },
-          { text: "🗑️ Cancel Fast", callback_data: "cancel_fast" }
+          { text: t(language, 'button.endFast'), callback_data: "end_fast" },
+          { text: t(language, 'button.cancelFast'), callback_data: "cancel_fast" }
         ]])
       };
     } else {
       // Parse time adjustment if provided
       let customStartTime: Date | undefined;
-      if (messageText) {
-        const parts = messageText.split(' ');
-        if (parts.length > 1) {
-          const timeInput = parts.slice(1).join(' ');
-          const parseResult = parseTimeAdjustment(timeInput, new Date(), userData.timezone);
+      let timeNotice = '';
+      if (timeInput) {
+        const parseResult = parseTimeAdjustment(timeInput, new Date(), userData.timezone, new Date(), language);
+        
+        if (parseResult.error) {
+          return {
+            text: `❌ ${parseResult.error}`,
+            replyToMessageId: messageId
+          };
+        }
+        
+        if (parseResult.adjustment) {
+          // Validate timeline consistency
+          const validation = validateTimelineConsistency(
+            parseResult.adjustment.value,
+            userData.currentFast,
+            true,
+            new Date(),
+            getFastingLimits(env, userData),
+            language
+          );
           
-          if (parseResult.error) {
+          if (!validation.valid) {
             return {
-              text: `❌ ${parseResult.error}`,
+              text: `❌ ${validation.error}`,
               replyToMessageId: messageId
             };
           }
           
-          if (parseResult.adjustment) {
-            // Validate timeline consistency
-            const validation = validateTimelineConsistency(
-              parseResult.adjustment.value,
-              userData.currentFast,
-              true
-            );
-            
-            if (!validation.valid) {
-              return {
-                text: `❌ ${validation.error}`,
-                replyToMessageId: messageId
-              };
-            }
-            
-            customStartTime = parseResult.adjustment.value;
-          }
+          customStartTime = parseResult.adjustment.value;
+          timeNotice = parseResult.adjustment.notice ? `\n🕑 ${parseResult.adjustment.notice}` : '';
         }
       }
       
-      const result = await startFast(user.id, user, env, customStartTime);
+      const result = await startFast(user.id, user, env, customStartTime, goal, `message:${chatId}:${messageId}`, language);
       if (!result.success) {
         return {
-          text: result.error || "Failed to start fast. Please try again.",
+          text: result.error || t(language, 'fast.startFailed'),
           replyToMessageId: messageId
         };
       }
       
       const startTime = formatTimeInTimezone(result.startTime!, result.userData.timezone);
-      const timeNote = customStartTime ? ` (adjusted from your input)` : '';
+      const timeNote = customStartTime ? t(language, 'fast.adjusted') : '';
+      const startedGoal = result.userData.currentFast?.goal;
+      const goalText = startedGoal ? `\n${formatGoalTarget(result.startTime!, startedGoal, result.userData.timezone, language)}` : '';
       
       return {
-        text: `✅ Fast started at ${startTime}${timeNote}`,
+        text: t(language, 'fast.started', { time: startTime }) + timeNote + timeNotice + goalText,
         replyToMessageId: messageId,
         replyMarkup: createInlineKeyboard([[
-          { text: "🛑 End Fast", callback_data: "end_fast" },
-          { text: "🗑️ Cancel Fast", callback_data: "cancel_fast" }
+          { text: t(language, 'button.endFast'), callback_data: "end_fast" },
+          { text: t(language, 'button.cancelFast'), callback_data: "cancel_fast" }
         ]])
       };
     }
   } catch (error) {
     console.error('Error in handleFastCommand:', error);
     return {
-      text: "An error occurred while processing your request. Please try again.",
+      text: t(language, 'error.generic'),
       replyToMessageId: messageId
     };
   }
@@ -192,25 +291,27 @@ export async function handleEndCommand(
   env: Env,
   messageText?: string
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
+    const userData = await getUserFastingData(user.id, env, 'none');
     
     if (userData.currentFast) {
       // Parse time adjustment if provided
       let customEndTime: Date | undefined;
+      let timeNotice = '';
       if (messageText) {
         const parts = messageText.split(' ');
         if (parts.length > 1) {
           const timeInput = parts.slice(1).join(' ');
-          const parseResult = parseTimeAdjustment(timeInput, new Date(), userData.timezone);
+          const parseResult = parseTimeAdjustment(timeInput, new Date(), userData.timezone, new Date(), language);
           
           if (parseResult.error) {
             return {
@@ -224,7 +325,10 @@ export async function handleEndCommand(
             const validation = validateTimelineConsistency(
               parseResult.adjustment.value,
               userData.currentFast,
-              false
+              false,
+              new Date(),
+              getFastingLimits(env, userData),
+              language
             );
             
             if (!validation.valid) {
@@ -235,58 +339,63 @@ export async function handleEndCommand(
             }
             
             customEndTime = parseResult.adjustment.value;
+            timeNotice = parseResult.adjustment.notice ? `\n🕑 ${parseResult.adjustment.notice}` : '';
           }
         }
       }
       
-      const result = await endFast(user.id, user, env, customEndTime);
+      const result = await endFast(user.id, user, env, customEndTime, `message:${chatId}:${messageId}`, language);
       if (!result.success || !result.duration) {
         return {
-          text: result.error || "Failed to end fast. Please try again.",
+          text: result.error || t(language, 'fast.endFailed'),
           replyToMessageId: messageId
         };
       }
       
       const durationText = formatDuration(result.duration);
-      const fastsThisWeek = getFastsThisWeek(result.userData.history, result.userData.timezone);
-      
-      let weekText;
-      if (fastsThisWeek === 1) {
-        weekText = ' (Your 1st fast this week)';
-      } else {
-        weekText = ` (Your ${fastsThisWeek}${getOrdinalSuffix(fastsThisWeek)} fast this week)`;
-      }
+      const fastsThisWeek = getFastsThisWeek(result.userData.history, result.userData.timezone, result.userData.weekStart);
       
-      const timeNote = customEndTime ? ` (adjusted from your input)` : '';
+      const weekText = t(language, 'fast.weekCount', { ordinal: formatOrdinal(fastsThisWeek, language) });
+      const timeNote = customEndTime ? t(language, 'fast.adjusted') : '';
+      const goalText = result.fastEntry?.goal ? `\n${formatGoalOutcome(result.fastEntry, language)}` : '';
+      const milestone = formatMilestoneReached(result.duration, language);
+      const milestoneText = milestone ? `\n${milestone}` : '';
+      const streakText = `\n${formatStreakSummary(getStreakStatistics(result.userData), language)}`;
+      const achievements = formatNewAchievements(result.newAchievements ?? [], result.personalRecord ?? false, result.duration, language);
+      const achievementText = achievements ? `\n\n${achievements}` : '';
       
       return {
-        text: `✅ Great job! You fasted for ${durationText}${weekText}${timeNote}`,
+        text: t(language, 'fast.ended', { duration: durationText }) + weekText + timeNote + timeNotice + goalText + milestoneText + streakText + achievementText,
         replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        replyMarkup: result.fastEntry && result.fastIndex !== undefined
+          ? createFastEndedKeyboard(encodeFastReference(result.fastIndex, result.fastEntry), language)
+          : createFastStateKeyboard(false, language)
       };
     } else {
+      await loadRecentHistory(user.id, userData, 1, env);
       const lastFast = getLastFast(userData.history);
       if (lastFast) {
         const durationText = formatDuration(lastFast.duration);
-        const relativeTime = formatRelativeTime(lastFast.endedAt, userData.timezone);
+        const relativeTime = formatRelativeTime(lastFast.endedAt, userData.timezone, language);
+        const eatingDuration = getCurrentEatingWindowDuration(userData.history) ?? 0;
         
         return {
-          text: `You're not currently fasting. Your last fast was ${durationText} (${relativeTime})`,
+          text: t(language, 'fast.notFastingWithLast', { duration: durationText, relative: relativeTime, eating: formatDuration(eatingDuration) }),
           replyToMessageId: messageId,
-          replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+          replyMarkup: createFastStateKeyboard(false, language)
         };
       } else {
         return {
-          text: "You're not currently fasting and have no fasting history.",
+          text: t(language, 'fast.notFastingNoHistory'),
           replyToMessageId: messageId,
-          replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+          replyMarkup: createFastStateKeyboard(false, language)
         };
       }
     }
   } catch (error) {
     console.error('Error in handleEndCommand:', error);
     return {
-      text: "An error occurred while processing your request. Please try again.",
+      text: t(language, 'error.generic'),
       replyToMessageId: messageId
     };
   }
@@ -296,49 +405,69 @@ export async function handleStatsCommand(
   chatId: number,
   user: User,
   messageId: number,
-  env: Env
+  env: Env,
+  messageText?: string
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
+    const rangeInput = (messageText || '').split(' ').slice(1).join(' ').trim();
+    if (rangeInput) {
+      const range = parseDateRange(rangeInput, language);
+      if (range.error || !range.from || !range.to) {
+        return {
+          text: `❌ ${range.error}`,
+          replyToMessageId: messageId
+        };
+      }
+      
+      const userData = await getUserFastingData(user.id, env, 'none');
+      const period = getRangeStatisticsPeriod(range.from, range.to, userData.timezone);
+      const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+      return buildPeriodStatisticsResult(statisticsData, period, messageId, language);
+    }
+    
+    const userData = await getUserFastingData(user.id, env, 'none');
+    await loadRecentHistory(user.id, userData, 5, env);
     const recentFasts = getRecentFasts(userData.history, 5);
     
     if (recentFasts.length === 0) {
       return {
-        text: "📊 No fasting history yet. Start your first fast to see stats here!",
+        text: t(language, 'stats.noHistory'),
         replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        replyMarkup: createFastStateKeyboard(false, language)
       };
     }
     
-    let statsText = "📊 Your recent fasts:\n\n";
+    let statsText = `${t(language, 'stats.recent')}\n\n`;
     
     recentFasts.forEach(fast => {
       const duration = formatDuration(fast.duration);
-      const relativeTime = formatRelativeTime(fast.endedAt, userData.timezone);
-      statsText += `📊 ${duration} - ${relativeTime}\n`;
+      const relativeTime = formatRelativeTime(fast.endedAt, userData.timezone, language);
+      statsText += `📊 ${duration} - ${relativeTime}${formatGoalMarker(fast)}\n`;
     });
     
-    // Determine appropriate button based on current state
-    const buttonText = userData.currentFast ? "🛑 End Fast" : "🚀 Start Fast";
-    const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+    const eatingStats = calculateEatingWindowStatistics(getEatingWindows(recentFasts));
+    if (eatingStats.totalWindows > 0) {
+      statsText += `\n${formatEatingWindowSummary(eatingStats, language)}`;
+    }
     
     return {
       text: statsText.trim(),
       replyToMessageId: messageId,
-      replyMarkup: createSingleButtonKeyboard(buttonText, buttonData)
+      replyMarkup: createFastStateKeyboard(!!userData.currentFast, language)
     };
   } catch (error) {
     console.error('Error in handleStatsCommand:', error);
     return {
-      text: "An error occurred while retrieving your stats. Please try again.",
+      text: t(language, 'error.stats'),
       replyToMessageId: messageId
     };
   }
@@ -351,11 +480,12 @@ export async function handleTimezoneCommand(
   messageText: string,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
@@ -363,18 +493,18 @@ export async function handleTimezoneCommand(
     // Extract timezone from command
     const parts = messageText.split(' ');
     if (parts.length < 2) {
-      const userData = await getUserFastingData(user.id, env);
+      const userData = await getUserFastingData(user.id, env, 'none');
       return {
-        text: `Your current timezone is: ${userData.timezone}\n\nTo change it, use: /timezone America/New_York`,
+        text: t(language, 'timezone.current', { timezone: userData.timezone }),
         replyToMessageId: messageId
       };
     }
     
     const timezone = parts[1];
     if (!timezone) {
-      const userData = await getUserFastingData(user.id, env);
+      const userData = await getUserFastingData(user.id, env, 'none');
       return {
-        text: `Your current timezone is: ${userData.timezone}\n\nTo change it, use: /timezone America/New_York`,
+        text: t(language, 'timezone.current', { timezone: userData.timezone }),
         replyToMessageId: messageId
       };
     }
@@ -384,277 +514,1345 @@ export async function handleTimezoneCommand(
       new Intl.DateTimeFormat('en-US', { timeZone: timezone });
     } catch (timezoneError) {
       return {
-        text: `Invalid timezone: ${timezone}\n\nPlease use a valid IANA timezone like: America/New_York, Europe/London, Asia/Tokyo`,
+        text: t(language, 'timezone.invalid', { timezone }),
         replyToMessageId: messageId
       };
     }
     
-    const result = await setUserTimezone(user.id, timezone, env);
+    const result = await setUserTimezone(user.id, timezone, env, `message:${chatId}:${messageId}`);
     if (!result.success) {
       return {
-        text: "Failed to update timezone. Please try again.",
+        text: t(language, 'timezone.failed'),
         replyToMessageId: messageId
       };
     }
     
     return {
-      text: `✅ Timezone updated to: ${timezone}`,
+      text: t(language, 'timezone.updated', { timezone }),
       replyToMessageId: messageId
     };
   } catch (error) {
     console.error('Error in handleTimezoneCommand:', error);
     return {
-      text: "An error occurred while updating your timezone. Please try again.",
+      text: t(language, 'error.timezone'),
       replyToMessageId: messageId
     };
   }
 }
 
-export async function handleWeekCommand(
+export async function handleWeekStartCommand(
   chatId: number,
   user: User,
   messageId: number,
+  messageText: string,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
-    const weekStats = getWeeklyStatistics(userData.history, userData.timezone);
-    
-    if (weekStats.totalFasts === 0) {
+    const weekStartInput = messageText.split(' ').slice(1).join(' ').trim().toLowerCase();
+    if (!weekStartInput) {
+      const userData = await getUserFastingData(user.id, env, 'none');
       return {
-        text: "📅 This Week's Fasting Summary\n\nNo fasts completed this week yet. Start your first fast to see your weekly progress!",
-        replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        text: t(language, 'weekStart.current', { day: formatWeekStart(userData.weekStart ?? 'monday', language) }),
+        replyToMessageId: messageId
       };
     }
     
-    const text = formatPeriodStatistics("📅 This Week's Fasting Summary", weekStats);
-    
-    // Determine appropriate button based on current state
-    const buttonText = userData.currentFast ? "🛑 End Fast" : "🚀 Start Fast";
-    const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+    if (weekStartInput !== 'monday' && weekStartInput !== 'sunday') {
+      return {
+        text: t(language, 'weekStart.invalid', { input: weekStartInput }),
+        replyToMessageId: messageId
+      };
+    }
     
+    await setUserWeekStart(user.id, weekStartInput, env, `message:${chatId}:${messageId}`);
     return {
-      text,
-      replyToMessageId: messageId,
-      replyMarkup: createSingleButtonKeyboard(buttonText, buttonData)
+      text: t(language, 'weekStart.updated', { day: formatWeekStart(weekStartInput, language) }),
+      replyToMessageId: messageId
     };
   } catch (error) {
-    console.error('Error in handleWeekCommand:', error);
+    console.error('Error in handleWeekStartCommand:', error);
     return {
-      text: "An error occurred while retrieving your weekly stats. Please try again.",
+      text: t(language, 'error.weekStart'),
       replyToMessageId: messageId
     };
   }
 }
 
-export async function handleMonthCommand(
+export async function handleGoalCommand(
   chatId: number,
   user: User,
   messageId: number,
+  messageText: string,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
-    const monthStats = getMonthlyStatistics(userData.history, userData.timezone);
+    const goalInput = messageText.split(' ').slice(1).join(' ').trim();
+    if (!goalInput) {
+      const userData = await getUserFastingData(user.id, env, 'none');
+      const currentGoal = userData.defaultGoal ? formatGoalLabel(userData.defaultGoal) : t(language, 'goal.none');
+      return {
+        text: t(language, 'goal.current', { goal: currentGoal, protocols: getProtocolList() }),
+        replyToMessageId: messageId
+      };
+    }
     
-    if (monthStats.totalFasts === 0) {
+    if (goalInput.toLowerCase() === 'off') {
+      await setUserDefaultGoal(user.id, null, env, `message:${chatId}:${messageId}`);
       return {
-        text: "📊 This Month's Fasting Summary\n\nNo fasts completed this month yet. Start your first fast to see your monthly progress!",
-        replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        text: t(language, 'goal.cleared'),
+        replyToMessageId: messageId
       };
     }
     
-    const text = formatPeriodStatistics("📊 This Month's Fasting Summary", monthStats);
+    const goal = parseGoal(goalInput);
+    if (!goal) {
+      return {
+        text: t(language, 'goal.invalid', { input: goalInput, protocols: getProtocolList() }),
+        replyToMessageId: messageId
+      };
+    }
     
-    // Determine appropriate button based on current state
-    const buttonText = userData.currentFast ? "🛑 End Fast" : "🚀 Start Fast";
-    const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+    const result = await setUserDefaultGoal(user.id, goal, env, `message:${chatId}:${messageId}`);
+    if (!result.success) {
+      return {
+        text: t(language, 'goal.failed'),
+        replyToMessageId: messageId
+      };
+    }
     
     return {
-      text,
-      replyToMessageId: messageId,
-      replyMarkup: createSingleButtonKeyboard(buttonText, buttonData)
+      text: t(language, 'goal.updated', { goal: formatGoalLabel(goal) }),
+      replyToMessageId: messageId
     };
   } catch (error) {
-    console.error('Error in handleMonthCommand:', error);
+    console.error('Error in handleGoalCommand:', error);
     return {
-      text: "An error occurred while retrieving your monthly stats. Please try again.",
+      text: t(language, 'error.goal'),
       replyToMessageId: messageId
     };
   }
 }
 
-export async function handleHistoryCommand(
+const LIMIT_SETTINGS: Record<string, { key: keyof FastingLimits; label: MessageKey }> = {
+  backdate: { key: 'maxBackdate', label: 'limits.maxBackdate' },
+  max: { key: 'maxFastDuration', label: 'limits.maxFastDuration' },
+  min: { key: 'minFastDuration', label: 'limits.minFastDuration' }
+};
+
+export async function handleLimitsCommand(
   chatId: number,
   user: User,
   messageId: number,
+  messageText: string,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
-    const recentFasts = getRecentFasts(userData.history, 10);
+    const [settingInput, valueInput, ...rest] = messageText.split(/\s+/).slice(1).filter(Boolean);
+    const userData = await getUserFastingData(user.id, env, 'none');
     
-    if (recentFasts.length === 0) {
+    if (!settingInput) {
+      const limits = getFastingLimits(env, userData);
+      const lines = Object.values(LIMIT_SETTINGS).map(({ key, label }) => {
+        const value = key === 'minFastDuration' && limits[key] === 0 ? t(language, 'limits.none') : formatLimitDuration(limits[key], language);
+        const source = t(language, userData.limits?.[key] !== undefined ? 'limits.personal' : 'limits.default');
+        return t(language, 'limits.line', { label: t(language, label), value, source });
+      });
       return {
-        text: "📜 No fasting history yet. Start your first fast to build your history!",
-        replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        text: `${t(language, 'limits.title')}\n\n${lines.join('\n')}\n\n${t(language, 'limits.usage')}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    if (settingInput.toLowerCase() === 'reset' && !valueInput) {
+      await setUserFastingLimits(user.id, null, env, `message:${chatId}:${messageId}`);
+      return {
+        text: t(language, 'limits.reset'),
+        replyToMessageId: messageId
       };
     }
     
-    let historyText = "📜 Your fasting history (last 10):\n\n";
+    const setting = LIMIT_SETTINGS[settingInput.toLowerCase()];
+    if (!setting || !valueInput || rest.length > 0) {
+      return {
+        text: t(language, 'limits.invalidCommand', { input: messageText.split(' ').slice(1).join(' '), usage: t(language, 'limits.usage') }),
+        replyToMessageId: messageId
+      };
+    }
     
-    recentFasts.forEach((fast, index) => {
-      const endDate = formatDateInTimezone(fast.endedAt, userData.timezone);
-      const duration = formatDuration(fast.duration);
-      const hours = fast.duration / (1000 * 60 * 60);
-      
-      // Create bar chart (1 bar = 2 hours, max 12 bars for 24h+)
-      const barCount = Math.min(Math.ceil(hours / 2), 12);
-      const barChart = '▓'.repeat(barCount) + '░'.repeat(Math.max(0, 12 - barCount));
-      
-      historyText += `${index + 1}. ${endDate} • ${duration}\n`;
-      historyText += `   ${barChart}\n\n`;
-    });
+    const value = parseLimitDuration(valueInput);
+    if (value === null || (value === 0 && setting.key !== 'minFastDuration')) {
+      return {
+        text: t(language, setting.key === 'minFastDuration' ? 'limits.invalidMinDuration' : 'limits.invalidDuration', { input: valueInput }),
+        replyToMessageId: messageId
+      };
+    }
     
-    // Determine appropriate button based on current state
-    const buttonText = userData.currentFast ? "🛑 End Fast" : "🚀 Start Fast";
-    const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+    const limits = { ...getFastingLimits(env, userData), [setting.key]: value };
+    if (limits.minFastDuration >= limits.maxFastDuration) {
+      return {
+        text: t(language, 'limits.minAboveMax', { min: formatLimitDuration(limits.minFastDuration, language), max: formatLimitDuration(limits.maxFastDuration, language) }),
+        replyToMessageId: messageId
+      };
+    }
     
+    await setUserFastingLimits(user.id, { [setting.key]: value }, env, `message:${chatId}:${messageId}`);
     return {
-      text: historyText.trim(),
-      replyToMessageId: messageId,
-      replyMarkup: createSingleButtonKeyboard(buttonText, buttonData)
+      text: t(language, 'limits.updated', { label: t(language, setting.label), value: value === 0 ? t(language, 'limits.none') : formatLimitDuration(value, language) }),
+      replyToMessageId: messageId
     };
   } catch (error) {
-    console.error('Error in handleHistoryCommand:', error);
+    console.error('Error in handleLimitsCommand:', error);
     return {
-      text: "An error occurred while retrieving your history. Please try again.",
+      text: t(language, 'error.limits'),
       replyToMessageId: messageId
     };
   }
 }
 
-function formatPeriodStatistics(title: string, stats: PeriodStatistics): string {
-  const averageDurationText = formatDuration(stats.averageDuration);
-  const longestFastText = formatDuration(stats.longestFast);
-  
-  return `${title}\n\n` +
-         `📈 Total fasts: ${stats.totalFasts}\n` +
-         `⏰ Total hours: ${stats.totalHours}h\n` +
-         `📊 Average duration: ${averageDurationText}\n` +
-         `🏆 Longest fast: ${longestFastText}`;
-}
-
-export async function routeCommand(
-  command: string,
+export async function handleLanguageCommand(
   chatId: number,
   user: User,
   messageId: number,
   messageText: string,
   env: Env
-): Promise<CommandResult | null> {
-  switch (command) {
-    case 'start':
-      return await handleStartCommand(chatId, user, messageId, env);
-    case 'status':
-      return await handleStatusCommand(chatId, user, messageId, env);
-    case 'fast':
-    case 'f':
-      return await handleFastCommand(chatId, user, messageId, env, messageText);
-    case 'end':
-    case 'e':
-      return await handleEndCommand(chatId, user, messageId, env, messageText);
-    case 'cancel':
-      return await handleCancelCommand(chatId, user, messageId, env);
-    case 'stats':
-      return await handleStatsCommand(chatId, user, messageId, env);
-    case 'timezone':
-      return await handleTimezoneCommand(chatId, user, messageId, messageText, env);
-    case 'week':
-      return await handleWeekCommand(chatId, user, messageId, env);
-    case 'month':
-      return await handleMonthCommand(chatId, user, messageId, env);
-    case 'history':
-      return await handleHistoryCommand(chatId, user, messageId, env);
-    default:
-      // Unknown command - ignore silently
-      return null;
-  }
-}
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
 
-function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0] || '';
+    const languageInput = messageText.split(' ').slice(1).join(' ').trim();
+    if (!languageInput) {
+      return {
+        text: t(language, 'language.current', { language: LANGUAGES[language].name, languages: formatLanguageList() }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const newLanguage = parseLanguage(languageInput);
+    if (!newLanguage) {
+      return {
+        text: t(language, 'language.invalid', { input: languageInput, languages: formatLanguageList() }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    await setUserLanguage(user.id, newLanguage, env, `message:${chatId}:${messageId}`);
+    // Confirmed in the new language, so the reply already shows the change
+    return {
+      text: t(newLanguage, 'language.updated', { language: LANGUAGES[newLanguage].name }),
+      replyToMessageId: messageId
+    };
+  } catch (error) {
+    console.error('Error in handleLanguageCommand:', error);
+    return {
+      text: t(language, 'error.language'),
+      replyToMessageId: messageId
+    };
+  }
 }
 
-export async function handleCancelCommand(
+export async function handleStreakCommand(
   chatId: number,
   user: User,
   messageId: number,
   env: Env
 ): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
   try {
     const authenticated = await isAuthenticated(chatId, env);
     if (!authenticated) {
       return {
-        text: "Please authenticate by sending your API key first.",
+        text: t(language, 'auth.required'),
         replyToMessageId: messageId
       };
     }
 
-    const userData = await getUserFastingData(user.id, env);
-    if (!userData.currentFast) {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    
+    if (getHistoryTotals(userData).count === 0) {
       return {
-        text: "You're not currently fasting.",
+        text: t(language, 'streak.none'),
         replyToMessageId: messageId,
-        replyMarkup: createSingleButtonKeyboard("🚀 Start Fast", "start_fast")
+        replyMarkup: createFastStateKeyboard(false, language)
       };
     }
+    
+    await loadStreakHistory(user.id, userData, env);
+    const streaks = getStreakStatistics(userData);
+    let streakText = t(language, 'streak.summary', {
+      current: formatDays(streaks.currentStreak, language),
+      longest: formatDays(streaks.longestStreak, language)
+    });
+    
+    if (userData.defaultGoal || streaks.longestGoalStreak > 0 || userData.history.some(fast => fast.goal)) {
+      streakText += `\n\n${t(language, 'streak.goal', {
+        current: formatDays(streaks.currentGoalStreak, language),
+        longest: formatDays(streaks.longestGoalStreak, language)
+      })}`;
+    }
+    
+    return {
+      text: streakText,
+      replyToMessageId: messageId,
+      replyMarkup: createFastStateKeyboard(!!userData.currentFast, language)
+    };
+  } catch (error) {
+    console.error('Error in handleStreakCommand:', error);
+    return {
+      text: t(language, 'error.streaks'),
+      replyToMessageId: messageId
+    };
+  }
+}
 
-    // Ask for confirmation before canceling
-    const duration = getCurrentFastDuration(userData.currentFast);
-    const durationText = formatDuration(duration);
-    const startTime = formatTimeInTimezone(userData.currentFast.startedAt, userData.timezone);
+export async function handleNoteCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
 
+    const noteInput = messageText.replace(/^\/\S+\s*/, '').trim();
+    if (!noteInput) {
+      const userData = await getUserFastingData(user.id, env, 'none');
+      if (!userData.currentFast) {
+        await loadRecentHistory(user.id, userData, 1, env);
+      }
+      const target = userData.currentFast ?? getLastFast(userData.history);
+      const noteText = target?.note ? `${t(language, userData.currentFast ? 'note.onCurrent' : 'note.onLast', { note: target.note })}\n\n` : '';
+      return {
+        text: noteText + t(language, 'note.usage'),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const note = noteInput.toLowerCase() === 'clear' ? null : noteInput;
+    const result = await setFastNote(user.id, note, env, `message:${chatId}:${messageId}`, language);
+    if (!result.success) {
+      return {
+        text: `❌ ${result.error}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    const isCurrent = result.target === 'current';
     return {
-      text: `❓ Cancel current fast?\nYou've been fasting for ${durationText} (started at ${startTime}).\nThis will discard the fast. Are you sure?` ,
-      replyToMessageId: messageId,
-      replyMarkup: createInlineKeyboard([[
-        { text: "✅ Yes, cancel", callback_data: "cancel_fast_yes" },
-        { text: "↩️ No, keep fasting", callback_data: "cancel_fast_no" }
-      ]])
+      text: note === null
+        ? t(language, isCurrent ? 'note.removedCurrent' : 'note.removedLast')
+        : t(language, isCurrent ? 'note.savedCurrent' : 'note.savedLast'),
+      replyToMessageId: messageId
     };
   } catch (error) {
-    console.error('Error in handleCancelCommand:', error);
+    console.error('Error in handleNoteCommand:', error);
     return {
-      text: "An error occurred while processing your request. Please try again.",
+      text: t(language, 'error.note'),
       replyToMessageId: messageId
     };
   }
 }
+
+export async function handleWeightCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const args = messageText.split(' ').slice(1).filter(arg => arg.length > 0);
+    const userData = await getUserFastingData(user.id, env, 'none');
+    
+    if (args.length === 0) {
+      const weightData = await getUserWeightData(user.id, env);
+      const summary = getWeightSummary(weightData.entries, userData.timezone);
+      return {
+        text: t(language, 'weight.summary', { summary: formatWeightSummary(summary, weightData.unit, userData.timezone, language) }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    if (args[0]?.toLowerCase() === 'unit') {
+      const unit = parseWeightUnit(args[1] || '');
+      if (!unit) {
+        return {
+          text: t(language, 'weight.invalidUnit'),
+          replyToMessageId: messageId
+        };
+      }
+      
+      await setWeightUnit(user.id, unit, env, `message:${chatId}:${messageId}`);
+      return {
+        text: t(language, 'weight.unitUpdated', { unit }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const weightInput = args.join(' ');
+    const currentData = await getUserWeightData(user.id, env);
+    const parsed = parseWeight(weightInput, currentData.unit);
+    if (!parsed) {
+      return {
+        text: t(language, 'weight.invalid', { input: weightInput }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const result = await logWeight(user.id, parsed.weightKg, env, new Date(), `message:${chatId}:${messageId}`, language);
+    if (!result.success || !result.entry) {
+      return {
+        text: `❌ ${result.error || t(language, 'weight.failed')}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    const summary = getWeightSummary(result.weightData.entries, userData.timezone);
+    return {
+      text: t(language, 'weight.logged', { weight: formatWeight(result.entry.weightKg, result.weightData.unit, language), summary: formatWeightSummary(summary, result.weightData.unit, userData.timezone, language) }),
+      replyToMessageId: messageId
+    };
+  } catch (error) {
+    console.error('Error in handleWeightCommand:', error);
+    return {
+      text: t(language, 'error.weight'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleWeekCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const period = getStatisticsPeriod('week', new Date(), userData.timezone, userData.weekStart);
+    const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+    
+    return buildPeriodStatisticsResult(
+      statisticsData,
+      period,
+      messageId,
+      language,
+      t(language, 'stats.weekEmpty')
+    );
+  } catch (error) {
+    console.error('Error in handleWeekCommand:', error);
+    return {
+      text: t(language, 'error.weeklyStats'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleMonthCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const period = getStatisticsPeriod('month', new Date(), userData.timezone);
+    const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+    const weightData = await getUserWeightData(user.id, env);
+    const weightLine = formatMonthlyWeightLine(getWeightSummary(weightData.entries, userData.timezone), weightData.unit, language);
+    const weightText = weightLine ? `\n\n${weightLine}` : '';
+    
+    return buildPeriodStatisticsResult(
+      statisticsData,
+      period,
+      messageId,
+      language,
+      t(language, 'stats.monthEmpty'),
+      weightText
+    );
+  } catch (error) {
+    console.error('Error in handleMonthCommand:', error);
+    return {
+      text: t(language, 'error.monthlyStats'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleYearCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const period = getStatisticsPeriod('year', new Date(), userData.timezone);
+    const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+    
+    return buildPeriodStatisticsResult(statisticsData, period, messageId, language);
+  } catch (error) {
+    console.error('Error in handleYearCommand:', error);
+    return {
+      text: t(language, 'error.yearlyStats'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleLastPeriodCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  kind: 'week' | 'month',
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const currentPeriod = getStatisticsPeriod(kind, new Date(), userData.timezone, userData.weekStart);
+    const period = shiftStatisticsPeriod(currentPeriod, -1, userData.timezone, userData.weekStart);
+    const statisticsData = await loadPeriodStatisticsHistory(user.id, userData, period, env);
+    
+    return buildPeriodStatisticsResult(statisticsData, period, messageId, language);
+  } catch (error) {
+    console.error('Error in handleLastPeriodCommand:', error);
+    return {
+      text: t(language, 'error.stats'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleHistoryCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env,
+  messageText?: string
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const filterResult = parseHistoryFilter((messageText || '').split(' ').slice(1).join(' '), language);
+    if (filterResult.error || !filterResult.filter) {
+      return {
+        text: `❌ ${filterResult.error}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    const userData = await getUserFastingData(user.id, env, 'none');
+    
+    if (getHistoryTotals(userData).count === 0) {
+      return {
+        text: t(language, 'history.none'),
+        replyToMessageId: messageId,
+        replyMarkup: createFastStateKeyboard(false, language)
+      };
+    }
+    
+    await loadHistoryPage(user.id, userData, filterResult.filter, 1, env);
+    return buildHistoryPageResult(userData, filterResult.filter, 1, messageId, language);
+  } catch (error) {
+    console.error('Error in handleHistoryCommand:', error);
+    return {
+      text: t(language, 'error.history'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+// Unfiltered pages need only the newest months down to the page, a month filter that month;
+// duration and tag filters can only be counted over every fast
+export async function loadHistoryPage(userId: number, userData: UserFastingData, filter: HistoryFilter, page: number, env: Env): Promise<void> {
+  const month = filter.month ? parseMonthKey(filter.month) : null;
+  if (filter.minDuration !== undefined || filter.maxDuration !== undefined || filter.tag) {
+    await loadFullHistory(userId, userData, env);
+  } else if (month) {
+    const period = getStatisticsPeriod('month', zonedTimeToInstant(month.year, month.month, 15, 12, 0, userData.timezone), userData.timezone);
+    await loadHistoryForPeriods(userId, userData, [period], env);
+  } else {
+    await loadRecentHistory(userId, userData, page * HISTORY_PAGE_SIZE, env);
+  }
+}
+
+export function buildHistoryPageResult(
+  userData: UserFastingData,
+  filter: HistoryFilter,
+  page: number,
+  messageId: number,
+  language: Language
+): CommandResult {
+  const filterText = formatHistoryFilter(filter);
+  const fasts = filterHistory(userData.history, filter, userData.timezone).reverse(); // Most recent first
+  // Without a filter only the pages up to this one are loaded (see loadHistoryPage), so the shard summaries give the count
+  const fastCount = filterText ? fasts.length : getHistoryTotals(userData).count;
+  const totalPages = Math.max(1, Math.ceil(fastCount / HISTORY_PAGE_SIZE));
+  const currentPage = Math.min(Math.max(page, 1), totalPages);
+  const offset = (currentPage - 1) * HISTORY_PAGE_SIZE;
+  const pageFasts = fasts.slice(offset, offset + HISTORY_PAGE_SIZE);
+  
+  // Determine appropriate button based on current state
+  const buttonText = t(language, userData.currentFast ? 'button.endFast' : 'button.startFast');
+  const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+  const stateRow = [{ text: buttonText, callback_data: buttonData }];
+  
+  if (pageFasts.length === 0) {
+    return {
+      text: t(language, 'history.noMatch', { filter: filterText }),
+      replyToMessageId: messageId,
+      replyMarkup: createInlineKeyboard([stateRow])
+    };
+  }
+  
+  let historyText: string;
+  if (filterText) {
+    historyText = `${t(language, 'history.matching', { filter: filterText })}\n\n`;
+  } else if (currentPage === 1) {
+    historyText = `${t(language, 'history.recent')}\n\n`;
+  } else {
+    historyText = `${t(language, 'history.title')}\n\n`;
+  }
+  
+  pageFasts.forEach((fast, index) => {
+    const endDate = formatDateInTimezone(fast.endedAt, userData.timezone, language);
+    const duration = formatDuration(fast.duration);
+    const hours = fast.duration / (1000 * 60 * 60);
+    
+    // Create bar chart (1 bar = 2 hours, max 12 bars for 24h+)
+    const barCount = Math.min(Math.ceil(hours / 2), 12);
+    const barChart = '▓'.repeat(barCount) + '░'.repeat(Math.max(0, 12 - barCount));
+    
+    historyText += `${offset + index + 1}. ${endDate} • ${duration}${formatGoalMarker(fast)}\n`;
+    historyText += `   ${barChart}\n`;
+    if (fast.note) {
+      historyText += `   📝 ${fast.note}\n`;
+    }
+    if (fast.ratings) {
+      historyText += `   ${formatFastRatings(fast.ratings, language)}\n`;
+    }
+    historyText += `\n`;
+  });
+  
+  const rows = [stateRow];
+  if (totalPages > 1) {
+    historyText += t(language, 'history.page', { page: currentPage, pages: totalPages, count: fastCount });
+    
+    const filterSuffix = filterText ? `_${filterText}` : '';
+    const navigationRow = [];
+    if (currentPage > 1) {
+      navigationRow.push({ text: "◀️", callback_data: `hist_${currentPage - 1}${filterSuffix}` });
+    }
+    if (currentPage < totalPages) {
+      navigationRow.push({ text: "▶️", callback_data: `hist_${currentPage + 1}${filterSuffix}` });
+    }
+    rows.push(navigationRow);
+  }
+  
+  return {
+    text: historyText.trim(),
+    replyToMessageId: messageId,
+    replyMarkup: createInlineKeyboard(rows)
+  };
+}
+
+export async function handleBadgesCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    
+    return {
+      text: formatBadgeList(userData, language),
+      replyToMessageId: messageId
+    };
+  } catch (error) {
+    console.error('Error in handleBadgesCommand:', error);
+    return {
+      text: t(language, 'error.badges'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleCalendarCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const monthInput = messageText.split(' ').slice(1).join(' ').trim();
+    let monthKey = getLocalDateKey(new Date().toISOString(), userData.timezone).substring(0, 7);
+    
+    if (monthInput) {
+      const parsed = parseMonthKey(monthInput);
+      if (!parsed) {
+        return {
+          text: t(language, 'calendar.invalidMonth', { input: monthInput }),
+          replyToMessageId: messageId
+        };
+      }
+      monthKey = formatMonthKey(parsed.year, parsed.month);
+    }
+    
+    await loadCalendarHistory(user.id, userData, monthKey, env);
+    return buildCalendarResult(userData, monthKey, messageId, language);
+  } catch (error) {
+    console.error('Error in handleCalendarCommand:', error);
+    return {
+      text: t(language, 'error.calendar'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleChartCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const kind = messageText.split(' ').slice(1).join(' ').trim().toLowerCase() || 'week';
+    if (kind !== 'week' && kind !== 'month' && kind !== 'year') {
+      return {
+        text: t(language, 'chart.invalidPeriod', { input: kind }),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const now = new Date();
+    const period = getStatisticsPeriod(kind, now, userData.timezone, userData.weekStart);
+    
+    // The rolling average looks a week back, and fasts ending shortly after the period still count toward it
+    const day = 1000 * 60 * 60 * 24;
+    await loadHistoryForPeriods(user.id, userData, [{
+      start: new Date(period.start.getTime() - 7 * day),
+      end: new Date(period.end.getTime() + 3 * day)
+    }], env);
+    const data = getFastingChartData(userData, period, now);
+    const title = formatPeriodTitle(period, userData.timezone, userData.weekStart, now, language);
+    
+    if (data.dailyHours.every(hours => hours === 0)) {
+      return {
+        text: t(language, 'chart.empty', { title }),
+        replyToMessageId: messageId
+      };
+    }
+
+    return {
+      text: formatChartCaption(title, data, language),
+      replyToMessageId: messageId,
+      photo: await renderFastingChart(data)
+    };
+  } catch (error) {
+    console.error('Error in handleChartCommand:', error);
+    return {
+      text: t(language, 'error.chart'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+// Fasts that end early next month can still cover the last days of the shown month
+export async function loadCalendarHistory(userId: number, userData: UserFastingData, monthKey: string, env: Env): Promise<void> {
+  const [year, month] = monthKey.split('-').map(Number) as [number, number];
+  const period = getStatisticsPeriod('month', zonedTimeToInstant(year, month, 15, 12, 0, userData.timezone), userData.timezone);
+  await loadHistoryForPeriods(userId, userData, [period, shiftStatisticsPeriod(period, 1, userData.timezone)], env);
+}
+
+export function buildCalendarResult(userData: UserFastingData, monthKey: string, messageId: number, language: Language): CommandResult {
+  const now = new Date();
+  const intervals: FastingInterval[] = [...userData.history];
+  if (userData.currentFast) {
+    intervals.push({ startedAt: userData.currentFast.startedAt, endedAt: now.toISOString() });
+  }
+  
+  const durations = getDailyFastingDurations(intervals, monthKey, userData.timezone);
+  const fastingDays = [...durations.values()].filter(duration => duration > 0).length;
+  const totalHours = Math.round([...durations.values()].reduce((sum, duration) => sum + duration, 0) / (1000 * 60 * 60) * 10) / 10;
+  const grid = formatCalendarHeatmap(monthKey, durations, userData.timezone, userData.weekStart, now, language);
+  
+  // Sent with HTML parse mode so the grid keeps its alignment; everything outside the tags is escaped
+  const text = `📆 ${escapeHtml(formatMonthTitle(monthKey, language))}\n\n` +
+               `<pre>${escapeHtml(grid)}</pre>\n` +
+               `${escapeHtml(formatHeatmapLegend(language))}\n\n` +
+               escapeHtml(t(language, 'calendar.summary', { days: fastingDays, hours: formatNumber(totalHours, language) }));
+  
+  const currentMonth = getLocalDateKey(now.toISOString(), userData.timezone).substring(0, 7);
+  const navigationRow = [{ text: t(language, 'button.previous'), callback_data: `cal_${shiftMonthKey(monthKey, -1)}` }];
+  if (monthKey < currentMonth) {
+    navigationRow.push({ text: t(language, 'button.next'), callback_data: `cal_${shiftMonthKey(monthKey, 1)}` });
+  }
+  
+  return {
+    text,
+    replyToMessageId: messageId,
+    replyMarkup: createInlineKeyboard([navigationRow]),
+    parseMode: 'HTML'
+  };
+}
+
+// Period statistics only need the shards of the shown period and of the one before it, unless
+// short fasts are left out of the statistics. Returns the data the statistics should be built from.
+export async function loadPeriodStatisticsHistory(userId: number, userData: UserFastingData, period: StatisticsPeriod, env: Env): Promise<UserFastingData> {
+  const limits = getFastingLimits(env, userData);
+  if (limits.minFastDuration > 0) {
+    await loadFullHistory(userId, userData, env);
+  } else {
+    await loadHistoryForPeriods(userId, userData, [period, shiftStatisticsPeriod(period, -1, userData.timezone, userData.weekStart)], env);
+  }
+  return getCountedFastingData(userData, limits);
+}
+
+export function buildPeriodStatisticsResult(
+  userData: UserFastingData,
+  period: StatisticsPeriod,
+  messageId: number,
+  language: Language,
+  emptyText?: string,
+  extraText: string = ''
+): CommandResult {
+  const stats = getPeriodStatistics(userData.history, period, userData.timezone);
+  const title = formatPeriodTitle(period, userData.timezone, userData.weekStart, new Date(), language);
+  const text = stats.totalFasts === 0
+    ? emptyText ?? t(language, 'stats.periodEmpty', { title })
+    : formatPeriodStatistics(title, stats, getPeriodComparison(userData, period), language);
+  
+  // Determine appropriate button based on current state
+  const buttonText = t(language, userData.currentFast ? 'button.endFast' : 'button.startFast');
+  const buttonData = userData.currentFast ? "end_fast" : "start_fast";
+  
+  return {
+    text: text + extraText,
+    replyToMessageId: messageId,
+    replyMarkup: createInlineKeyboard([
+      [{ text: buttonText, callback_data: buttonData }],
+      createPeriodNavigationRow(userData, period, language)
+    ])
+  };
+}
+
+function createPeriodNavigationRow(userData: UserFastingData, period: StatisticsPeriod, language: Language): Array<{ text: string; callback_data: string }> {
+  const previous = shiftStatisticsPeriod(period, -1, userData.timezone, userData.weekStart);
+  const next = shiftStatisticsPeriod(period, 1, userData.timezone, userData.weekStart);
+  const row = [{ text: t(language, 'button.previous'), callback_data: `stats_${encodeStatisticsPeriod(previous)}` }];
+  if (next.start.getTime() <= Date.now()) {
+    row.push({ text: t(language, 'button.next'), callback_data: `stats_${encodeStatisticsPeriod(next)}` });
+  }
+  return row;
+}
+
+function formatWeekStart(weekStart: WeekStart, language: Language): string {
+  return t(language, weekStart === 'monday' ? 'weekStart.monday' : 'weekStart.sunday');
+}
+
+function formatGoalMarker(fast: FastEntry): string {
+  if (!fast.goal) {
+    return '';
+  }
+  return isGoalMet(fast) ? ' ✅' : ' ❌';
+}
+
+function parseFastArguments(messageText?: string): { goal?: FastingGoal; timeInput: string } {
+  const args = (messageText || '').split(' ').slice(1).filter(arg => arg.length > 0);
+  
+  for (let i = 0; i < args.length; i++) {
+    const goal = parseGoal(args[i] || '');
+    if (goal) {
+      const timeInput = [...args.slice(0, i), ...args.slice(i + 1)].join(' ');
+      return { goal, timeInput };
+    }
+  }
+  
+  return { timeInput: args.join(' ') };
+}
+
+export async function routeCommand(
+  command: string,
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult | null> {
+  // Aliases such as /f and /e resolve to the command they stand for
+  switch (findCommand(command)?.name) {
+    case 'start':
+      return await handleStartCommand(chatId, user, messageId, env);
+    case 'status':
+      return await handleStatusCommand(chatId, user, messageId, env);
+    case 'fast':
+      return await handleFastCommand(chatId, user, messageId, env, messageText);
+    case 'end':
+      return await handleEndCommand(chatId, user, messageId, env, messageText);
+    case 'cancel':
+      return await handleCancelCommand(chatId, user, messageId, env);
+    case 'stats':
+      return await handleStatsCommand(chatId, user, messageId, env, messageText);
+    case 'timezone':
+      return await handleTimezoneCommand(chatId, user, messageId, messageText, env);
+    case 'week':
+      return await handleWeekCommand(chatId, user, messageId, env);
+    case 'month':
+      return await handleMonthCommand(chatId, user, messageId, env);
+    case 'year':
+      return await handleYearCommand(chatId, user, messageId, env);
+    case 'lastweek':
+      return await handleLastPeriodCommand(chatId, user, messageId, 'week', env);
+    case 'lastmonth':
+      return await handleLastPeriodCommand(chatId, user, messageId, 'month', env);
+    case 'history':
+      return await handleHistoryCommand(chatId, user, messageId, env, messageText);
+    case 'undo':
+      return await handleUndoCommand(chatId, user, messageId, env);
+    case 'edit':
+      return await handleEditCommand(chatId, user, messageId, messageText, env);
+    case 'log':
+      return await handleLogCommand(chatId, user, messageId, messageText, env);
+    case 'streak':
+      return await handleStreakCommand(chatId, user, messageId, env);
+    case 'weekstart':
+      return await handleWeekStartCommand(chatId, user, messageId, messageText, env);
+    case 'goal':
+      return await handleGoalCommand(chatId, user, messageId, messageText, env);
+    case 'limits':
+      return await handleLimitsCommand(chatId, user, messageId, messageText, env);
+    case 'language':
+      return await handleLanguageCommand(chatId, user, messageId, messageText, env);
+    case 'note':
+      return await handleNoteCommand(chatId, user, messageId, messageText, env);
+    case 'calendar':
+      return await handleCalendarCommand(chatId, user, messageId, messageText, env);
+    case 'badges':
+      return await handleBadgesCommand(chatId, user, messageId, env);
+    case 'chart':
+      return await handleChartCommand(chatId, user, messageId, messageText, env);
+    case 'weight':
+      return await handleWeightCommand(chatId, user, messageId, messageText, env);
+    case 'help':
+      return await handleHelpCommand(chatId, user, messageId, env);
+    default:
+      // Unknown command - ignore silently
+      return null;
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0] || '';
+}
+
+export async function handleCancelCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    if (!userData.currentFast) {
+      return {
+        text: t(language, 'fast.notFasting'),
+        replyToMessageId: messageId,
+        replyMarkup: createFastStateKeyboard(false, language)
+      };
+    }
+
+    // Ask for confirmation before canceling
+    const duration = getCurrentFastDuration(userData.currentFast);
+    const durationText = formatDuration(duration);
+    const startTime = formatTimeInTimezone(userData.currentFast.startedAt, userData.timezone);
+
+    return {
+      text: t(language, 'fast.cancelPrompt', { duration: durationText, time: startTime }),
+      replyToMessageId: messageId,
+      replyMarkup: createInlineKeyboard([[
+        { text: t(language, 'button.confirmCancel'), callback_data: "cancel_fast_yes" },
+        { text: t(language, 'button.keepFasting'), callback_data: "cancel_fast_no" }
+      ]])
+    };
+  } catch (error) {
+    console.error('Error in handleCancelCommand:', error);
+    return {
+      text: t(language, 'error.generic'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+
+export async function handleUndoCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    await loadRecentHistory(user.id, userData, RECENT_FAST_COUNT, env);
+    const recentFasts = getRecentFasts(userData.history, RECENT_FAST_COUNT);
+    
+    if (recentFasts.length === 0) {
+      return {
+        text: t(language, 'undo.none'),
+        replyToMessageId: messageId,
+        replyMarkup: createFastStateKeyboard(false, language)
+      };
+    }
+    
+    const picker = buildRecentFastPicker(userData, 'undo_select_', language);
+    
+    return {
+      text: t(language, 'undo.select', { list: picker.listText }),
+      replyToMessageId: messageId,
+      replyMarkup: createInlineKeyboard([
+        ...picker.buttonRows,
+        [{ text: t(language, 'button.cancel'), callback_data: "undo_cancel" }]
+      ])
+    };
+  } catch (error) {
+    console.error('Error in handleUndoCommand:', error);
+    return {
+      text: t(language, 'error.history'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleEditCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    await loadRecentHistory(user.id, userData, RECENT_FAST_COUNT, env);
+    const recentFasts = getRecentFasts(userData.history, RECENT_FAST_COUNT);
+    
+    if (recentFasts.length === 0) {
+      return {
+        text: t(language, 'edit.none'),
+        replyToMessageId: messageId,
+        replyMarkup: createFastStateKeyboard(false, language)
+      };
+    }
+    
+    const args = messageText.split(' ').slice(1).filter(arg => arg.length > 0);
+    if (args.length === 0) {
+      const picker = buildRecentFastPicker(userData, 'edit_select_', language);
+      return {
+        text: t(language, 'edit.select', { list: picker.listText }),
+        replyToMessageId: messageId,
+        replyMarkup: createInlineKeyboard([
+          ...picker.buttonRows,
+          [{ text: t(language, 'button.cancel'), callback_data: "edit_cancel" }]
+        ])
+      };
+    }
+    
+    const position = parseInt(args[0] || '', 10);
+    const field = (args[1] || '').toLowerCase();
+    const timeInput = args.slice(2).join(' ');
+    
+    if (isNaN(position) || !['start', 'end'].includes(field) || !timeInput) {
+      return {
+        text: t(language, 'edit.usage'),
+        replyToMessageId: messageId
+      };
+    }
+    
+    if (position < 1 || position > recentFasts.length) {
+      return {
+        text: t(language, 'edit.invalidNumber', { position, count: recentFasts.length }),
+        replyToMessageId: messageId
+      };
+    }
+    
+    // Positions count from the most recent fast
+    const fast = recentFasts[position - 1]!;
+    const historyIndex = getHistoryTotals(userData).count - position;
+    const isStart = field === 'start';
+    
+    // Relative inputs shift the existing value, bare clock times keep its date, day words count from today
+    const parseResult = parseTimeAdjustment(timeInput, new Date(isStart ? fast.startedAt : fast.endedAt), userData.timezone, new Date(), language);
+    if (parseResult.error || !parseResult.adjustment) {
+      return {
+        text: `❌ ${parseResult.error || t(language, 'error.invalidTime')}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    const newStart = isStart ? parseResult.adjustment.value : new Date(fast.startedAt);
+    const newEnd = isStart ? new Date(fast.endedAt) : parseResult.adjustment.value;
+    
+    // Overlaps and lengths are checked where the change is applied, against the history as it is then
+    const result = await updateFastTimes(user.id, getFastReference(historyIndex, fast), newStart, newEnd, env, `message:${chatId}:${messageId}`, language);
+    if (!result.success || !result.fastEntry || !result.previousFast) {
+      return {
+        text: result.error ? `❌ ${result.error}` : t(language, 'edit.failed'),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const goalText = result.fastEntry.goal ? `\n${formatGoalOutcome(result.fastEntry, language)}` : '';
+    const noticeText = parseResult.adjustment.notice ? `\n🕑 ${parseResult.adjustment.notice}` : '';
+    
+    return {
+      text: t(language, 'edit.updated', {
+        start: formatDateInTimezone(result.fastEntry.startedAt, userData.timezone, language),
+        end: formatDateInTimezone(result.fastEntry.endedAt, userData.timezone, language),
+        duration: formatDuration(result.fastEntry.duration),
+        previous: formatDuration(result.previousFast.duration)
+      }) + goalText + noticeText,
+      replyToMessageId: messageId
+    };
+  } catch (error) {
+    console.error('Error in handleEditCommand:', error);
+    return {
+      text: t(language, 'error.edit'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+export async function handleLogCommand(
+  chatId: number,
+  user: User,
+  messageId: number,
+  messageText: string,
+  env: Env
+): Promise<CommandResult> {
+  const language = await getUserLanguage(user, env);
+  try {
+    const authenticated = await isAuthenticated(chatId, env);
+    if (!authenticated) {
+      return {
+        text: t(language, 'auth.required'),
+        replyToMessageId: messageId
+      };
+    }
+
+    const rangeInput = messageText.split(' ').slice(1).join(' ').trim();
+    if (!rangeInput) {
+      return {
+        text: t(language, 'log.usage'),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const userData = await getUserFastingData(user.id, env, 'none');
+    const parseResult = parseTimeRange(rangeInput, new Date(), userData.timezone, language);
+    if (parseResult.error || !parseResult.range) {
+      return {
+        text: `❌ ${parseResult.error || t(language, 'log.invalidRange')}`,
+        replyToMessageId: messageId
+      };
+    }
+    
+    const { start, end } = parseResult.range;
+    const result = await logFast(user.id, user, start, end, env, `message:${chatId}:${messageId}`, language);
+    if (!result.success || !result.fastEntry) {
+      return {
+        text: result.error ? `❌ ${result.error}` : t(language, 'log.failed'),
+        replyToMessageId: messageId
+      };
+    }
+    
+    const startText = formatDateInTimezone(result.fastEntry.startedAt, userData.timezone, language);
+    const endText = formatDateInTimezone(result.fastEntry.endedAt, userData.timezone, language);
+    const goalText = result.fastEntry.goal ? `\n${formatGoalOutcome(result.fastEntry, language)}` : '';
+    const noticeText = (parseResult.notices ?? []).map(notice => `\n🕑 ${notice}`).join('');
+    
+    return {
+      text: t(language, 'log.logged', { duration: formatDuration(result.fastEntry.duration), start: startText, end: endText }) + goalText + noticeText,
+      replyToMessageId: messageId
+    };
+  } catch (error) {
+    console.error('Error in handleLogCommand:', error);
+    return {
+      text: t(language, 'error.log'),
+      replyToMessageId: messageId
+    };
+  }
+}
+
+// The undo and edit pickers list this many fasts, so only the months holding them are loaded
+const RECENT_FAST_COUNT = 10;
+
+function buildRecentFastPicker(userData: UserFastingData, callbackPrefix: string, language: Language): { listText: string; buttonRows: Array<Array<{ text: string; callback_data: string }>> } {
+  const recentFasts = getRecentFasts(userData.history, RECENT_FAST_COUNT);
+  const totalCount = getHistoryTotals(userData).count;
+  const callbackData: string[] = [];
+  let listText = '';
+  
+  recentFasts.forEach((fast, position) => {
+    // Recent fasts are listed newest first, so map back to the position in history
+    const historyIndex = totalCount - 1 - position;
+    const duration = formatDuration(fast.duration);
+    const relativeTime = formatRelativeTime(fast.endedAt, userData.timezone, language);
+    
+    listText += `${t(language, 'history.pickerItem', { number: getNumberEmoji(position + 1), duration, relative: relativeTime })}\n`;
+    callbackData.push(`${callbackPrefix}${encodeFastReference(historyIndex, fast)}`);
+  });
+  
+  return { listText: listText.trim(), buttonRows: createNumberedButtonRows(callbackData) };
+}
\ No newline at end of file
@@ -1,35 +1,445 @@
-import { Env, User, UserFastingData, CurrentFast, FastEntry } from './types';
+import { Env, User, UserFastingData, CurrentFast, FastEntry, FastingGoal, FastRatings, WeekStart, EarnedAchievement, FastingLimits, Language, HistoryShardSummary, WeightUnit } from './types';
+import { formatGoalLabel, getGoalProgress, isGoalMet } from './goals';
+import { t, getLocale, formatNumber, resolveLanguage, DEFAULT_LANGUAGE } from './i18n';
+import { migrateRecord, SCHEMA_VERSIONS } from './migrations';
+import { applyLogWeight, applySetWeightUnit, LogWeightResult, WeightUnitResult } from './weight';
 
 const DEFAULT_TIMEZONE = 'Europe/Paris';
 
-export async function getUserFastingData(userId: number, env: Env): Promise<UserFastingData> {
+type StoredUserFastingData = Omit<UserFastingData, 'history'> & { history?: FastEntry[] };
+
+// Serialized content of every shard loaded into (or written from) a UserFastingData object,
+// so saving only rewrites the months that actually changed
+const loadedShards = new WeakMap<UserFastingData, Map<string, string>>();
+
+function getHistoryShardKey(userId: number, month: string): string {
+  return `user:${userId}:fasts:${month}`;
+}
+
+export function getHistoryShardMonth(endedAt: string): string {
+  return new Date(endedAt).toISOString().substring(0, 7);
+}
+
+// Loads the profile without the history shards; load the months that matter with loadHistoryForPeriods,
+// loadRecentHistory or loadFastByReference, and pass 'all' only when every fast is needed.
+// Older records are upgraded in memory only: reads happen outside the user's Durable Object, so the
+// upgrade is written by the next operation that saves the record (or by migrateUserFastingData).
+export async function getUserFastingData(userId: number, env: Env, shards: 'all' | 'none' = 'none'): Promise<UserFastingData> {
   const key = `user:${userId}`;
   const data = await env.FASTS.get(key);
   
   if (!data) {
-    return {
+    const userData: UserFastingData = {
       timezone: DEFAULT_TIMEZONE,
       history: []
     };
+    loadedShards.set(userData, new Map());
+    return userData;
+  }
+  
+  const { record: stored, migrated } = migrateRecord<StoredUserFastingData>('userFasting', JSON.parse(data));
+  if (stored.history) {
+    return getLegacyFastingData(stored);
+  }
+  
+  const userData: UserFastingData = { ...stored, history: [] };
+  loadedShards.set(userData, new Map());
+  if (migrated) {
+    // Summaries written before version 3 lack the longest fast, which only their shards can tell
+    const incomplete = Object.entries(stored.historyShards ?? {})
+      .filter(([, summary]) => summary.longestDuration === undefined)
+      .map(([month]) => month);
+    await loadHistoryShards(userId, userData, incomplete, env);
+  }
+  if (shards === 'all' && stored.historyShards) {
+    await loadHistoryShards(userId, userData, Object.keys(stored.historyShards), env);
   }
   
-  return JSON.parse(data);
+  return userData;
+}
+
+// Adds the shards covering the given periods (by end time) to an already loaded user
+export async function loadHistoryForPeriods(userId: number, userData: UserFastingData, periods: CalendarPeriod[], env: Env): Promise<void> {
+  const months = new Set<string>();
+  for (const period of periods) {
+    const last = getHistoryShardMonth(new Date(period.end.getTime() - 1).toISOString());
+    for (let month = getHistoryShardMonth(period.start.toISOString()); month <= last; month = shiftShardMonth(month, 1)) {
+      months.add(month);
+    }
+  }
+  await loadHistoryShards(userId, userData, [...months], env);
+}
+
+// Loads months newest first until at least `count` fasts are in memory or the history runs out
+export async function loadRecentHistory(userId: number, userData: UserFastingData, count: number, env: Env): Promise<void> {
+  for (const month of Object.keys(userData.historyShards ?? {}).sort().reverse()) {
+    if (userData.history.length >= count) {
+      return;
+    }
+    await loadHistoryShards(userId, userData, [month], env);
+  }
+}
+
+// Position of the first loaded fast in the full history, while the loaded months are the newest ones
+export function getHistoryOffset(userData: UserFastingData): number {
+  return getHistoryTotals(userData).count - userData.history.length;
+}
+
+// References hold the place in the full history, so only the months from the referenced fast onwards are loaded
+export async function loadFastByReference(userId: number, userData: UserFastingData, reference: FastReference, env: Env): Promise<FastEntry | null> {
+  await loadRecentHistory(userId, userData, getHistoryTotals(userData).count - reference.index, env);
+  return findFastByReference(userData, reference);
+}
+
+// Shard summaries count every fast, so statistics that leave short fasts out need the whole history
+export async function loadFullHistory(userId: number, userData: UserFastingData, env: Env): Promise<void> {
+  await loadHistoryShards(userId, userData, Object.keys(userData.historyShards ?? {}), env);
 }
 
 export async function saveUserFastingData(userId: number, data: UserFastingData, env: Env): Promise<void> {
   const key = `user:${userId}`;
-  await env.FASTS.put(key, JSON.stringify(data));
+  const historyShards = { ...data.historyShards };
+  let snapshots = loadedShards.get(data);
+  
+  if (!snapshots) {
+    // Built outside getUserFastingData: its history replaces whatever is stored
+    const existing = await env.FASTS.get(key);
+    const existingShards = existing ? (JSON.parse(existing) as StoredUserFastingData).historyShards ?? {} : {};
+    Object.assign(historyShards, existingShards);
+    snapshots = new Map(Object.keys(existingShards).map(month => [month, '']));
+  }
+  
+  const byMonth = new Map<string, FastEntry[]>();
+  for (const fast of data.history) {
+    const month = getHistoryShardMonth(fast.endedAt);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), fast]);
+  }
+  
+  for (const month of new Set([...snapshots.keys(), ...byMonth.keys()])) {
+    let fasts = byMonth.get(month) ?? [];
+    
+    // A fast landed in a stored month that was never loaded (e.g. a backfilled fast): merge, don't overwrite
+    if (!snapshots.has(month) && historyShards[month]) {
+      const stored: FastEntry[] = JSON.parse(await env.FASTS.get(getHistoryShardKey(userId, month)) ?? '[]');
+      const added = new Set(fasts.map(fast => fast.startedAt));
+      const existing = stored.filter(fast => !added.has(fast.startedAt));
+      fasts = sortByStart([...existing, ...fasts]);
+      data.history = sortByStart([...data.history, ...existing]);
+    }
+    
+    const serialized = JSON.stringify(fasts);
+    if (serialized === snapshots.get(month)) {
+      continue;
+    }
+    
+    if (fasts.length === 0) {
+      await env.FASTS.delete(getHistoryShardKey(userId, month));
+      delete historyShards[month];
+    } else {
+      await env.FASTS.put(getHistoryShardKey(userId, month), serialized);
+      historyShards[month] = summarizeShard(fasts);
+    }
+    snapshots.set(month, serialized);
+  }
+  
+  // Every stored month is in memory when the loop leaves no shard unloaded
+  recordLongestStreaks(data, Object.keys(historyShards).every(month => snapshots.has(month)));
+  data.historyShards = historyShards;
+  data.schemaVersion = SCHEMA_VERSIONS.userFasting;
+  loadedShards.set(data, snapshots);
+  
+  const { history: _history, ...profile } = data;
+  await env.FASTS.put(key, JSON.stringify(profile));
+}
+
+// Records written before sharding keep the whole history in `user:<id>`; the schema migration leaves it
+// inline, and as no month counts as loaded the first save moves all of it into monthly shards
+function getLegacyFastingData(stored: StoredUserFastingData): UserFastingData {
+  const userData: UserFastingData = { ...stored, history: sortByStart(stored.history ?? []) };
+  loadedShards.set(userData, new Map());
+  return userData;
+}
+
+async function loadHistoryShards(userId: number, userData: UserFastingData, months: string[], env: Env): Promise<void> {
+  const snapshots = loadedShards.get(userData) ?? new Map<string, string>();
+  const pending = months.filter(month => !snapshots.has(month));
+  
+  const loaded = await Promise.all(pending.map(async month => {
+    if (!userData.historyShards?.[month]) {
+      return { month, serialized: '[]' };
+    }
+    return { month, serialized: await env.FASTS.get(getHistoryShardKey(userId, month)) ?? '[]' };
+  }));
+  
+  for (const { month, serialized } of loaded) {
+    const fasts = JSON.parse(serialized) as FastEntry[];
+    snapshots.set(month, serialized);
+    userData.history.push(...fasts);
+    
+    // Summaries written before schema version 3 lack the longest fast
+    const summary = userData.historyShards?.[month];
+    if (summary && summary.longestDuration === undefined) {
+      summary.longestDuration = fasts.reduce((longest, fast) => Math.max(longest, fast.duration), 0);
+    }
+  }
+  userData.history = sortByStart(userData.history);
+  loadedShards.set(userData, snapshots);
+}
+
+function summarizeShard(fasts: FastEntry[], stored?: HistoryShardSummary): HistoryShardSummary {
+  return fasts.reduce((summary, fast) => ({
+    count: summary.count + 1,
+    totalDuration: summary.totalDuration + fast.duration,
+    longestDuration: Math.max(summary.longestDuration, fast.duration),
+    firstEndedAt: summary.firstEndedAt && summary.firstEndedAt < fast.endedAt ? summary.firstEndedAt : fast.endedAt
+  }), stored ?? { count: 0, totalDuration: 0, longestDuration: 0, firstEndedAt: '' });
+}
+
+// Summaries of the whole history: loaded months are recomputed from memory so fasts added or removed
+// since loading count, and fasts added to months that were never loaded are merged into their summary
+function getHistorySummaries(userData: UserFastingData): HistoryShardSummary[] {
+  if (!userData.historyShards) {
+    return userData.history.map(fast => summarizeShard([fast]));
+  }
+  const snapshots = loadedShards.get(userData);
+  if (!snapshots) {
+    return Object.values(userData.historyShards);
+  }
+  
+  const byMonth = new Map<string, FastEntry[]>();
+  for (const fast of userData.history) {
+    const month = getHistoryShardMonth(fast.endedAt);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), fast]);
+  }
+  
+  const summaries: HistoryShardSummary[] = [];
+  for (const month of new Set([...Object.keys(userData.historyShards), ...byMonth.keys()])) {
+    const fasts = byMonth.get(month) ?? [];
+    const stored = snapshots.has(month) ? undefined : userData.historyShards[month];
+    if (stored || fasts.length > 0) {
+      summaries.push(summarizeShard(fasts, stored));
+    }
+  }
+  return summaries;
+}
+
+export interface HistoryTotals {
+  count: number;
+  totalDuration: number; // milliseconds
+  longestDuration: number; // milliseconds
 }
 
-export async function startFast(userId: number, user: User, env: Env, customStartTime?: Date): Promise<{ success: boolean; startTime?: string; userData: UserFastingData; error?: string }> {
-  const userData = await getUserFastingData(userId, env);
+// All-time figures without loading the history shards
+export function getHistoryTotals(userData: UserFastingData): HistoryTotals {
+  return getHistorySummaries(userData).reduce((totals, summary) => ({
+    count: totals.count + summary.count,
+    totalDuration: totals.totalDuration + summary.totalDuration,
+    longestDuration: Math.max(totals.longestDuration, summary.longestDuration)
+  }), { count: 0, totalDuration: 0, longestDuration: 0 });
+}
+
+function shiftShardMonth(month: string, months: number): string {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  return new Date(Date.UTC(year, monthNumber - 1 + months, 1)).toISOString().substring(0, 7);
+}
+
+function sortByStart(history: FastEntry[]): FastEntry[] {
+  return [...history].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+export interface StartFastResult { success: boolean; startTime?: string; userData: UserFastingData; error?: string }
+// fastIndex is the position of the ended fast in the full history, for references to it; userData only holds the recent months
+export interface EndFastResult { success: boolean; duration?: number; fastEntry?: FastEntry; fastIndex?: number; newAchievements?: Achievement[]; personalRecord?: boolean; userData: UserFastingData; error?: string }
+export interface CancelFastResult { success: boolean; userData: UserFastingData; error?: string }
+export interface CurrentFastGoalResult { success: boolean; userData: UserFastingData; error?: string }
+export interface SettingsResult { success: boolean; userData: UserFastingData }
+export interface LogFastResult { success: boolean; fastEntry?: FastEntry; userData: UserFastingData; error?: string }
+export interface DeleteFastResult { success: boolean; deletedFast?: FastEntry; userData: UserFastingData; error?: string }
+export interface UpdateFastTimesResult { success: boolean; previousFast?: FastEntry; fastEntry?: FastEntry; userData: UserFastingData; error?: string }
+export interface FastNoteResult { success: boolean; target?: 'current' | 'last'; userData: UserFastingData; error?: string }
+export interface FastRatingsResult { success: boolean; fastEntry?: FastEntry; userData: UserFastingData; error?: string }
+
+// Every change to a user's fasting record or weight log is one of these, so that all of them are serialised per user.
+// Times are ISO strings because operations are sent to the Durable Object as JSON; the language is that of the error messages.
+export type FastingOperation =
+  | { type: 'start'; userId: number; user: User; language: Language; startTime?: string; goal?: FastingGoal }
+  | { type: 'end'; userId: number; user: User; language: Language; endTime?: string }
+  | { type: 'cancel'; userId: number; language: Language }
+  | { type: 'goal'; userId: number; language: Language; goal: FastingGoal }
+  | { type: 'log'; userId: number; user: User; language: Language; startTime: string; endTime: string }
+  | { type: 'delete'; userId: number; language: Language; reference: FastReference }
+  | { type: 'edit'; userId: number; language: Language; reference: FastReference; startTime: string; endTime: string }
+  | { type: 'note'; userId: number; language: Language; note: string | null }
+  | { type: 'rate'; userId: number; language: Language; reference: FastReference; ratings: FastRatings }
+  | { type: 'timezone'; userId: number; timezone: string }
+  | { type: 'weekStart'; userId: number; weekStart: WeekStart }
+  | { type: 'language'; userId: number; language: Language }
+  | { type: 'defaultGoal'; userId: number; goal: FastingGoal | null }
+  | { type: 'limits'; userId: number; limits: Partial<FastingLimits> | null }
+  | { type: 'migrate'; userId: number }
+  | { type: 'weight'; userId: number; language: Language; weightKg: number; recordedAt: string }
+  | { type: 'weightUnit'; userId: number; unit: WeightUnit };
+
+export type FastingOperationResult =
+  | StartFastResult
+  | EndFastResult
+  | CancelFastResult
+  | CurrentFastGoalResult
+  | SettingsResult
+  | LogFastResult
+  | DeleteFastResult
+  | UpdateFastTimesResult
+  | FastNoteResult
+  | FastRatingsResult
+  | LogWeightResult
+  | WeightUnitResult;
+
+// Telegram redelivers an update within minutes if the webhook did not answer in time
+export const IDEMPOTENCY_TTL_MS = 10 * 60 * 1000;
+
+// The idempotency key identifies the Telegram message or callback query that triggered the change,
+// so a redelivered update returns the first result instead of being applied twice
+export async function startFast(userId: number, user: User, env: Env, customStartTime?: Date, goal?: FastingGoal, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<StartFastResult> {
+  const operation: FastingOperation = { type: 'start', userId, user, language };
+  if (customStartTime) {
+    operation.startTime = customStartTime.toISOString();
+  }
+  if (goal) {
+    operation.goal = goal;
+  }
+  return await runFastingOperation(operation, env, idempotencyKey) as StartFastResult;
+}
+
+export async function endFast(userId: number, user: User, env: Env, customEndTime?: Date, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<EndFastResult> {
+  const operation: FastingOperation = { type: 'end', userId, user, language };
+  if (customEndTime) {
+    operation.endTime = customEndTime.toISOString();
+  }
+  return await runFastingOperation(operation, env, idempotencyKey) as EndFastResult;
+}
+
+export async function cancelFast(userId: number, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<CancelFastResult> {
+  return await runFastingOperation({ type: 'cancel', userId, language }, env, idempotencyKey) as CancelFastResult;
+}
+
+// Runs inside the user's Durable Object (or the local queue below), one operation at a time
+export async function applyFastingOperation(operation: FastingOperation, env: Env): Promise<FastingOperationResult> {
+  switch (operation.type) {
+    case 'start':
+      return applyStartFast(operation.userId, operation.user, env, operation.language, operation.startTime ? new Date(operation.startTime) : undefined, operation.goal);
+    case 'end':
+      return applyEndFast(operation.userId, operation.user, env, operation.language, operation.endTime ? new Date(operation.endTime) : undefined);
+    case 'cancel':
+      return applyCancelFast(operation.userId, env, operation.language);
+    case 'goal':
+      return applySetCurrentFastGoal(operation.userId, operation.goal, env, operation.language);
+    case 'log':
+      return applyLogFast(operation.userId, operation.user, new Date(operation.startTime), new Date(operation.endTime), env, operation.language);
+    case 'delete':
+      return applyDeleteFast(operation.userId, operation.reference, env, operation.language);
+    case 'edit':
+      return applyUpdateFastTimes(operation.userId, operation.reference, new Date(operation.startTime), new Date(operation.endTime), env, operation.language);
+    case 'note':
+      return applySetFastNote(operation.userId, operation.note, env, operation.language);
+    case 'rate':
+      return applyUpdateFastRatings(operation.userId, operation.reference, operation.ratings, env, operation.language);
+    case 'timezone':
+      return updateSettings(operation.userId, env, userData => { userData.timezone = operation.timezone; });
+    case 'weekStart':
+      return updateSettings(operation.userId, env, userData => { userData.weekStart = operation.weekStart; });
+    case 'language':
+      return updateSettings(operation.userId, env, userData => { userData.language = operation.language; });
+    case 'defaultGoal':
+      return updateSettings(operation.userId, env, userData => {
+        if (operation.goal) {
+          userData.defaultGoal = operation.goal;
+        } else {
+          delete userData.defaultGoal;
+        }
+      });
+    case 'limits':
+      return updateSettings(operation.userId, env, userData => {
+        if (operation.limits && Object.keys(operation.limits).length > 0) {
+          userData.limits = { ...userData.limits, ...operation.limits };
+        } else {
+          delete userData.limits;
+        }
+      });
+    case 'migrate':
+      // Reading upgrades the record in memory; saving it writes the upgrade
+      return updateSettings(operation.userId, env, () => {});
+    case 'weight':
+      return applyLogWeight(operation.userId, operation.weightKg, env, new Date(operation.recordedAt), operation.language);
+    case 'weightUnit':
+      return applySetWeightUnit(operation.userId, operation.unit, env);
+  }
+}
+
+const localOperationQueues = new Map<number, Promise<unknown>>();
+// Keyed by the FASTS namespace because a remembered result describes a change to that store
+const localOperationResults = new WeakMap<KVNamespace, Map<string, { result: FastingOperationResult; storedAt: number }>>();
+
+// KV is eventually consistent, so read-modify-write of a user's record must not interleave.
+// With the USER_FASTING binding the user's Durable Object serialises operations across isolates;
+// without it they are at least serialised within this isolate.
+export async function runFastingOperation(operation: FastingOperation, env: Env, idempotencyKey?: string): Promise<FastingOperationResult> {
+  if (env.USER_FASTING) {
+    const stub = env.USER_FASTING.get(env.USER_FASTING.idFromName(`user:${operation.userId}`));
+    const response = await stub.fetch('https://user-fasting/operations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operation, idempotencyKey })
+    });
+    if (!response.ok) {
+      throw new Error(`Fasting operation failed with status ${response.status}`);
+    }
+    return await response.json() as FastingOperationResult;
+  }
+  
+  const previous = localOperationQueues.get(operation.userId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => applyLocalOperation(operation, env, idempotencyKey));
+  localOperationQueues.set(operation.userId, next);
+  try {
+    return await next;
+  } finally {
+    if (localOperationQueues.get(operation.userId) === next) {
+      localOperationQueues.delete(operation.userId);
+    }
+  }
+}
+
+// Remembers results by idempotency key for as long as the Durable Object does
+async function applyLocalOperation(operation: FastingOperation, env: Env, idempotencyKey?: string): Promise<FastingOperationResult> {
+  const results = localOperationResults.get(env.FASTS) ?? new Map<string, { result: FastingOperationResult; storedAt: number }>();
+  localOperationResults.set(env.FASTS, results);
+  for (const [key, entry] of results) {
+    if (Date.now() - entry.storedAt >= IDEMPOTENCY_TTL_MS) {
+      results.delete(key);
+    }
+  }
+
+  const resultKey = idempotencyKey ? `user:${operation.userId}:${idempotencyKey}` : null;
+  const previous = resultKey ? results.get(resultKey) : undefined;
+  if (previous) {
+    return previous.result;
+  }
+
+  const result = await applyFastingOperation(operation, env);
+  if (resultKey) {
+    results.set(resultKey, { result, storedAt: Date.now() });
+  }
+  return result;
+}
+
+async function applyStartFast(userId: number, user: User, env: Env, language: Language, customStartTime?: Date, goal?: FastingGoal): Promise<StartFastResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
   
   // Check if user already has an active fast
   if (userData.currentFast) {
     return { 
       success: false, 
       userData, 
-      error: "You already have an active fast. Please end your current fast before starting a new one." 
+      error: t(language, 'fast.endCurrentFirst')
     };
   }
   
@@ -39,16 +449,22 @@ export async function startFast(userId: number, user: User, env: Env, customStar
     startedBy: user
   };
   
+  // A per-fast goal overrides the user's default protocol
+  const fastGoal = goal || userData.defaultGoal;
+  if (fastGoal) {
+    userData.currentFast.goal = fastGoal;
+  }
+  
   await saveUserFastingData(userId, userData, env);
   
   return { success: true, startTime, userData };
 }
 
-export async function endFast(userId: number, user: User, env: Env, customEndTime?: Date): Promise<{ success: boolean; duration?: number; fastEntry?: FastEntry; userData: UserFastingData; error?: string }> {
-  const userData = await getUserFastingData(userId, env);
+async function applyEndFast(userId: number, user: User, env: Env, language: Language, customEndTime?: Date): Promise<EndFastResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
   
   if (!userData.currentFast) {
-    return { success: false, userData, error: "You are not currently fasting" };
+    return { success: false, userData, error: t(language, 'fast.notFasting') };
   }
   
   const endTime = (customEndTime || new Date()).toISOString();
@@ -60,7 +476,16 @@ export async function endFast(userId: number, user: User, env: Env, customEndTim
     return { 
       success: false, 
       userData, 
-      error: "End time cannot be before or equal to start time" 
+      error: t(language, 'fast.endBeforeStart')
+    };
+  }
+  
+  const lengthError = getMaxFastDurationError(duration, getFastingLimits(env, userData), language);
+  if (lengthError) {
+    return {
+      success: false,
+      userData,
+      error: t(language, 'fast.tooLongToEnd', { error: lengthError })
     };
   }
   
@@ -70,19 +495,255 @@ export async function endFast(userId: number, user: User, env: Env, customEndTim
     duration,
     endedBy: user
   };
+  if (userData.currentFast.goal) {
+    fastEntry.goal = userData.currentFast.goal;
+  }
+  if (userData.currentFast.note) {
+    fastEntry.note = userData.currentFast.note;
+  }
+  
+  const personalRecord = isPersonalRecord(userData, fastEntry);
+  
+  // The reply counts this week's fasts and the goal-week badge needs the weeks leading up to this one;
+  // the other badges and records come from the shard summaries
+  const endWeek = getWeekPeriod(new Date(endTime), userData.timezone, userData.weekStart);
+  await loadHistoryForPeriods(userId, userData, [{ start: new Date(endWeek.start.getTime() - 4 * 7 * DAY_MS), end: new Date() }], env);
   
   // Add to history and clear current fast
   userData.history.push(fastEntry);
   delete userData.currentFast;
+  await loadStreakHistory(userId, userData, env);
+  const newAchievements = evaluateAchievements(userData);
+  
+  await saveUserFastingData(userId, userData, env);
+  
+  // Nothing in the history starts after the fast that was running, so it is the last one
+  const fastIndex = getHistoryTotals(userData).count - 1;
+  return { success: true, duration, fastEntry, fastIndex, newAchievements, personalRecord, userData };
+}
+
+export interface TimelineOptions {
+  excludeIndex?: number; // the fast being edited
+  currentFast?: { startedAt: string };
+  now?: Date;
+  limits?: FastingLimits;
+}
+
+// Checks a completed fast against the rest of the history. /log and /edit run it inside the user's
+// Durable Object, on the history loaded there, so two overlapping changes cannot both pass it
+export function validateFastTimeline(
+  history: FastEntry[],
+  startedAt: Date,
+  endedAt: Date,
+  timezone: string,
+  options: TimelineOptions = {},
+  language: Language = DEFAULT_LANGUAGE
+): { valid: boolean; error?: string } {
+  const now = options.now || new Date();
+  
+  if (endedAt <= startedAt) {
+    return { valid: false, error: t(language, 'time.mustEndAfterStart') };
+  }
+  
+  const lengthError = getMaxFastDurationError(endedAt.getTime() - startedAt.getTime(), options.limits ?? DEFAULT_FASTING_LIMITS, language);
+  if (lengthError) {
+    return { valid: false, error: lengthError };
+  }
+  
+  if (endedAt > now) {
+    return { valid: false, error: t(language, 'time.endInFuture') };
+  }
+  
+  if (options.currentFast && endedAt > new Date(options.currentFast.startedAt)) {
+    return {
+      valid: false,
+      error: t(language, 'time.overlapsCurrent', { time: formatDateInTimezone(options.currentFast.startedAt, timezone, language) })
+    };
+  }
+  
+  const overlapping = history.find((fast, index) =>
+    index !== options.excludeIndex &&
+    new Date(fast.startedAt) < endedAt &&
+    new Date(fast.endedAt) > startedAt
+  );
+  if (overlapping) {
+    return {
+      valid: false,
+      error: t(language, 'time.overlaps', { start: formatDateInTimezone(overlapping.startedAt, timezone, language), end: formatDateInTimezone(overlapping.endedAt, timezone, language) })
+    };
+  }
+  
+  return { valid: true };
+}
+
+export async function logFast(userId: number, user: User, startTime: Date, endTime: Date, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<LogFastResult> {
+  const operation: FastingOperation = { type: 'log', userId, user, language, startTime: startTime.toISOString(), endTime: endTime.toISOString() };
+  return await runFastingOperation(operation, env, idempotencyKey) as LogFastResult;
+}
+
+async function applyLogFast(userId: number, user: User, startTime: Date, endTime: Date, env: Env, language: Language): Promise<LogFastResult> {
+  const userData = await getUserFastingData(userId, env, 'all');
+  
+  const validation = validateFastTimeline(userData.history, startTime, endTime, userData.timezone, getTimelineOptions(env, userData), language);
+  if (!validation.valid) {
+    return { success: false, userData, error: validation.error! };
+  }
+  
+  const fastEntry: FastEntry = {
+    startedAt: startTime.toISOString(),
+    endedAt: endTime.toISOString(),
+    duration: endTime.getTime() - startTime.getTime(),
+    endedBy: user
+  };
+  if (userData.defaultGoal) {
+    fastEntry.goal = userData.defaultGoal;
+  }
+  
+  // Keep history in chronological order even for backfilled fasts
+  const insertAt = userData.history.findIndex(fast => new Date(fast.startedAt) > startTime);
+  if (insertAt === -1) {
+    userData.history.push(fastEntry);
+  } else {
+    userData.history.splice(insertAt, 0, fastEntry);
+  }
+  
+  await saveUserFastingData(userId, userData, env);
+  
+  return { success: true, fastEntry, userData };
+}
+
+function getTimelineOptions(env: Env, userData: UserFastingData, excludeIndex?: number): TimelineOptions {
+  const options: TimelineOptions = { limits: getFastingLimits(env, userData) };
+  if (excludeIndex !== undefined) {
+    options.excludeIndex = excludeIndex;
+  }
+  if (userData.currentFast) {
+    options.currentFast = userData.currentFast;
+  }
+  return options;
+}
+
+export async function setUserTimezone(userId: number, timezone: string, env: Env, idempotencyKey?: string): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'timezone', userId, timezone }, env, idempotencyKey) as SettingsResult;
+}
+
+export async function setUserWeekStart(userId: number, weekStart: WeekStart, env: Env, idempotencyKey?: string): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'weekStart', userId, weekStart }, env, idempotencyKey) as SettingsResult;
+}
+
+export async function setUserLanguage(userId: number, language: Language, env: Env, idempotencyKey?: string): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'language', userId, language }, env, idempotencyKey) as SettingsResult;
+}
+
+// Resolved before anything else in a handler so that even its error replies are localized
+export async function getUserLanguage(user: User, env: Env): Promise<Language> {
+  try {
+    const userData = await getUserFastingData(user.id, env, 'none');
+    return resolveLanguage(user, userData.language);
+  } catch (error) {
+    console.error('Error loading language preference:', error);
+    return resolveLanguage(user);
+  }
+}
+
+// Writes the schema upgrade of an older record, as the next change to it would
+export async function migrateUserFastingData(userId: number, env: Env): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'migrate', userId }, env) as SettingsResult;
+}
+
+export async function setUserDefaultGoal(userId: number, goal: FastingGoal | null, env: Env, idempotencyKey?: string): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'defaultGoal', userId, goal }, env, idempotencyKey) as SettingsResult;
+}
+
+async function updateSettings(userId: number, env: Env, update: (userData: UserFastingData) => void): Promise<SettingsResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
+  update(userData);
   
   await saveUserFastingData(userId, userData, env);
   
-  return { success: true, duration, fastEntry, userData };
+  return { success: true, userData };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_FASTING_LIMITS: FastingLimits = {
+  maxBackdate: 7 * DAY_MS,
+  maxFastDuration: 14 * DAY_MS,
+  minFastDuration: 0
+};
+
+// Deployment limits from wrangler vars, then the user's own overrides
+export function getFastingLimits(env: Env, userData?: UserFastingData): FastingLimits {
+  const deployment: FastingLimits = {
+    maxBackdate: parseLimitVariable(env.MAX_BACKDATE_DAYS, DAY_MS) ?? DEFAULT_FASTING_LIMITS.maxBackdate,
+    maxFastDuration: parseLimitVariable(env.MAX_FAST_HOURS, 60 * 60 * 1000) ?? DEFAULT_FASTING_LIMITS.maxFastDuration,
+    minFastDuration: parseLimitVariable(env.MIN_FAST_HOURS, 60 * 60 * 1000) ?? DEFAULT_FASTING_LIMITS.minFastDuration
+  };
+  return { ...deployment, ...userData?.limits };
+}
+
+function parseLimitVariable(value: string | undefined, unitMs: number): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    console.warn(`Ignoring invalid fasting limit: ${value}`);
+    return null;
+  }
+  return amount * unitMs;
+}
+
+// Accepts "12h", "3d", "90m" or "0"
+export function parseLimitDuration(input: string): number | null {
+  const trimmed = input.trim().toLowerCase();
+  if (trimmed === '0') {
+    return 0;
+  }
+  const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*([mhd])$/);
+  if (!match || !match[1] || !match[2]) {
+    return null;
+  }
+  const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: DAY_MS }[match[2] as 'm' | 'h' | 'd'];
+  return Math.round(parseFloat(match[1]) * unitMs);
+}
+
+export function formatLimitDuration(durationMs: number, language: Language = DEFAULT_LANGUAGE): string {
+  return durationMs > 0 && durationMs % DAY_MS === 0 ? formatDays(durationMs / DAY_MS, language) : formatDuration(durationMs);
 }
 
-export async function setUserTimezone(userId: number, timezone: string, env: Env): Promise<{ success: boolean; userData: UserFastingData }> {
-  const userData = await getUserFastingData(userId, env);
-  userData.timezone = timezone;
+export function getMaxFastDurationError(durationMs: number, limits: FastingLimits, language: Language = DEFAULT_LANGUAGE): string | null {
+  if (durationMs <= limits.maxFastDuration) {
+    return null;
+  }
+  return t(language, 'limits.tooLong', { max: formatLimitDuration(limits.maxFastDuration, language), duration: formatDuration(durationMs) });
+}
+
+// Fasts below the minimum stay in history but are left out of statistics. Without the shard summaries
+// all-time averages are computed from the (fully loaded) history instead.
+export function getCountedFastingData(userData: UserFastingData, limits: FastingLimits): UserFastingData {
+  if (limits.minFastDuration <= 0) {
+    return userData;
+  }
+  const { historyShards: _historyShards, ...profile } = userData;
+  return { ...profile, history: userData.history.filter(fast => fast.duration >= limits.minFastDuration) };
+}
+
+// The given limits are merged into the user's overrides; null clears them all
+export async function setUserFastingLimits(userId: number, limits: Partial<FastingLimits> | null, env: Env, idempotencyKey?: string): Promise<SettingsResult> {
+  return await runFastingOperation({ type: 'limits', userId, limits }, env, idempotencyKey) as SettingsResult;
+}
+
+export async function setCurrentFastGoal(userId: number, goal: FastingGoal, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<CurrentFastGoalResult> {
+  return await runFastingOperation({ type: 'goal', userId, language, goal }, env, idempotencyKey) as CurrentFastGoalResult;
+}
+
+async function applySetCurrentFastGoal(userId: number, goal: FastingGoal, env: Env, language: Language): Promise<CurrentFastGoalResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
+  if (!userData.currentFast) {
+    return { success: false, userData, error: t(language, 'fast.notFasting') };
+  }
+  userData.currentFast.goal = goal;
   
   await saveUserFastingData(userId, userData, env);
   
@@ -118,10 +779,10 @@ export function formatTimeInTimezone(isoString: string, timezone: string): strin
   }
 }
 
-export function formatDateInTimezone(isoString: string, timezone: string): string {
+export function formatDateInTimezone(isoString: string, timezone: string, language: Language = DEFAULT_LANGUAGE): string {
   try {
     const date = new Date(isoString);
-    return new Intl.DateTimeFormat('en-GB', {
+    return new Intl.DateTimeFormat(getLocale(language), {
       timeZone: timezone,
       month: 'short',
       day: 'numeric',
@@ -132,7 +793,7 @@ export function formatDateInTimezone(isoString: string, timezone: string): strin
   } catch (error) {
     // Fallback to UTC if timezone is invalid
     const date = new Date(isoString);
-    const month = date.toLocaleString('en-GB', { month: 'short' });
+    const month = date.toLocaleString(getLocale(language), { month: 'short' });
     const day = date.getUTCDate();
     const hours = date.getUTCHours().toString().padStart(2, '0');
     const minutes = date.getUTCMinutes().toString().padStart(2, '0');
@@ -140,139 +801,1139 @@ export function formatDateInTimezone(isoString: string, timezone: string): strin
   }
 }
 
-export function formatRelativeTime(isoString: string, _timezone: string): string {
+export function formatRelativeTime(isoString: string, _timezone: string, language: Language = DEFAULT_LANGUAGE): string {
   try {
     const date = new Date(isoString);
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
     const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
     
-    if (diffDays === 0) {
-      return 'today';
+    if (isNaN(diffDays)) {
+      return t(language, 'relative.unknown');
+    } else if (diffDays === 0) {
+      return t(language, 'relative.today');
     } else if (diffDays === 1) {
-      return 'yesterday';
+      return t(language, 'relative.yesterday');
     } else if (diffDays < 7) {
-      return `${diffDays} days ago`;
+      return t(language, 'relative.daysAgo', { count: diffDays });
     } else {
-      const weeks = Math.floor(diffDays / 7);
-      return weeks === 1 ? '1 week ago' : `${weeks} weeks ago`;
+      return t(language, 'relative.weeksAgo', { count: Math.floor(diffDays / 7) });
     }
   } catch (error) {
-    return 'unknown';
+    return t(language, 'relative.unknown');
   }
 }
 
-export function getCurrentFastDuration(currentFast: CurrentFast): number {
-  const now = new Date().getTime();
-  const start = new Date(currentFast.startedAt).getTime();
-  return now - start;
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+export interface CalendarPeriod {
+  start: Date; // inclusive
+  end: Date; // exclusive
 }
 
-export function getFastsThisWeek(history: FastEntry[], _timezone: string): number {
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function getLocalDateTime(date: Date, timezone: string): LocalDateTime {
   try {
-    const now = new Date();
-    
-    // Get start of week (Monday) in user's timezone
-    const startOfWeek = new Date(now);
-    const dayOfWeek = startOfWeek.getDay();
-    // Calculate days back to Monday (week start)
-    // Sunday = 0, Monday = 1, Tuesday = 2, etc.
-    // For Sunday: go back 6 days, for other days: go back (dayOfWeek - 1) days
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    startOfWeek.setDate(startOfWeek.getDate() - daysToMonday);
-    startOfWeek.setHours(0, 0, 0, 0);
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(p => p.type === type)?.value);
     
-    return history.filter(fast => {
-      const fastDate = new Date(fast.endedAt);
-      return fastDate >= startOfWeek;
-    }).length;
+    return {
+      year: part('year'),
+      month: part('month'),
+      day: part('day'),
+      hour: part('hour'),
+      minute: part('minute'),
+      second: part('second'),
+      weekday: WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')?.value ?? '')
+    };
   } catch (error) {
-    return 0;
+    // Fallback to UTC if timezone is invalid
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      weekday: date.getUTCDay()
+    };
   }
 }
 
-export function getLastFast(history: FastEntry[]): FastEntry | null {
-  if (history.length === 0) return null;
-  return history[history.length - 1] ?? null;
+// Offset of the timezone from UTC at the given instant, in milliseconds (e.g. +2h for Paris in summer)
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const local = getLocalDateTime(date, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
 }
 
-export function getRecentFasts(history: FastEntry[], limit: number = 5): FastEntry[] {
-  return history.slice(-limit).reverse(); // Get last N fasts, most recent first
+// Converts a wall-clock time in the timezone to an instant. Ambiguous times (DST fall-back)
+// resolve to the earlier instant; times skipped by DST spring-forward move past the gap.
+export function zonedTimeToInstant(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const twelveHours = 12 * 60 * 60 * 1000;
+  const offsetBefore = getTimezoneOffset(new Date(wallClock - twelveHours), timezone);
+  const offsetAfter = getTimezoneOffset(new Date(wallClock + twelveHours), timezone);
+  
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter].sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    if (candidate + getTimezoneOffset(new Date(candidate), timezone) === wallClock) {
+      return new Date(candidate);
+    }
+  }
+  
+  return new Date(wallClock - offsetBefore);
 }
 
-export async function cancelFast(userId: number, env: Env): Promise<{ success: boolean; userData: UserFastingData; error?: string }> {
-  const userData = await getUserFastingData(userId, env);
-  if (!userData.currentFast) {
-    return { success: false, userData, error: "You are not currently fasting" };
-  }
-  delete userData.currentFast;
-  await saveUserFastingData(userId, userData, env);
-  return { success: true, userData };
+export function getWeekPeriod(date: Date, timezone: string, weekStart: WeekStart = 'monday'): CalendarPeriod {
+  const local = getLocalDateTime(date, timezone);
+  const daysSinceStart = weekStart === 'monday' ? (local.weekday + 6) % 7 : local.weekday;
+  const firstDay = local.day - daysSinceStart;
+  
+  return {
+    start: localMidnight(local.year, local.month, firstDay, timezone),
+    end: localMidnight(local.year, local.month, firstDay + 7, timezone)
+  };
 }
 
-export interface PeriodStatistics {
-  totalFasts: number;
-  totalHours: number;
-  averageDuration: number; // in milliseconds
-  longestFast: number; // in milliseconds
+export function getMonthPeriod(date: Date, timezone: string): CalendarPeriod {
+  const local = getLocalDateTime(date, timezone);
+  return {
+    start: localMidnight(local.year, local.month, 1, timezone),
+    end: localMidnight(local.year, local.month + 1, 1, timezone)
+  };
 }
 
-export function getWeeklyStatistics(history: FastEntry[], _timezone: string): PeriodStatistics {
-  try {
-    // Align week boundary logic with getFastsThisWeek: start of week = Monday 00:00 (local time)
-    const now = new Date();
-    const startOfWeek = new Date(now);
-    const dayOfWeek = startOfWeek.getDay();
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    startOfWeek.setDate(startOfWeek.getDate() - daysToMonday);
-    startOfWeek.setHours(0, 0, 0, 0);
-
-    const weekFasts = history.filter(fast => new Date(fast.endedAt) >= startOfWeek);
-    return calculatePeriodStatistics(weekFasts);
-  } catch (error) {
-    return { totalFasts: 0, totalHours: 0, averageDuration: 0, longestFast: 0 };
-  }
+export function isWithinPeriod(isoString: string, period: CalendarPeriod): boolean {
+  const time = new Date(isoString).getTime();
+  return time >= period.start.getTime() && time < period.end.getTime();
 }
 
-export function getMonthlyStatistics(history: FastEntry[], timezone: string): PeriodStatistics {
-  try {
-    // Get current time in user's timezone
-    const now = new Date();
-    const nowInUserTz = new Date(now.toLocaleString("en-US", { timeZone: timezone }));
-    
-    // Get start of month in user's timezone
-    const startOfMonth = new Date(nowInUserTz.getFullYear(), nowInUserTz.getMonth(), 1);
-    startOfMonth.setHours(0, 0, 0, 0);
-    
-    // Convert back to UTC for comparison with stored timestamps
-    const startOfMonthUTC = new Date(startOfMonth.toLocaleString("en-US", { timeZone: "UTC" }));
-    
-    // Filter fasts for this month (compare with UTC timestamps)
-    const monthFasts = history.filter(fast => {
-      const fastDate = new Date(fast.endedAt);
-      return fastDate >= startOfMonthUTC;
-    });
+// Day and month values may overflow (e.g. day 0 or month 13); Date.UTC normalizes them
+function localMidnight(year: number, month: number, day: number, timezone: string): Date {
+  const normalized = new Date(Date.UTC(year, month - 1, day));
+  return zonedTimeToInstant(normalized.getUTCFullYear(), normalized.getUTCMonth() + 1, normalized.getUTCDate(), 0, 0, timezone);
+}
+
+export function getCurrentFastDuration(currentFast: CurrentFast): number {
+  const now = new Date().getTime();
+  const start = new Date(currentFast.startedAt).getTime();
+  return now - start;
+}
+
+export function getFastsThisWeek(history: FastEntry[], timezone: string, weekStart: WeekStart = 'monday', now: Date = new Date()): number {
+  const week = getWeekPeriod(now, timezone, weekStart);
+  return history.filter(fast => isWithinPeriod(fast.endedAt, week)).length;
+}
+
+export function formatGoalProgress(durationMs: number, goal: FastingGoal, language: Language = DEFAULT_LANGUAGE): string {
+  const progress = getGoalProgress(durationMs, goal);
+  const label = formatGoalLabel(goal);
+  
+  if (progress.met) {
+    return t(language, 'goal.reached', { goal: label, percent: progress.percent });
+  }
+  return t(language, 'goal.progress', { goal: label, percent: progress.percent, remaining: formatDuration(progress.remaining) });
+}
+
+export function formatGoalTarget(startedAt: string, goal: FastingGoal, timezone: string, language: Language = DEFAULT_LANGUAGE): string {
+  const targetTime = new Date(new Date(startedAt).getTime() + goal.targetDuration).toISOString();
+  return t(language, 'goal.target', { goal: formatGoalLabel(goal), time: formatDateInTimezone(targetTime, timezone, language) });
+}
+
+export function formatGoalOutcome(fast: FastEntry, language: Language = DEFAULT_LANGUAGE): string {
+  if (!fast.goal) {
+    return '';
+  }
+  
+  const progress = getGoalProgress(fast.duration, fast.goal);
+  const label = formatGoalLabel(fast.goal);
+  
+  if (progress.met) {
+    return t(language, 'goal.met', { goal: label, percent: progress.percent });
+  }
+  return t(language, 'goal.missed', { goal: label, percent: progress.percent, remaining: formatDuration(progress.remaining) });
+}
+
+export type MilestonePhase = 'glycogen' | 'fatBurning' | 'ketosis' | 'autophagy' | 'deepAutophagy' | 'immune';
+
+// Phase names are in the message catalog under phase.<phase>
+export interface FastingMilestone {
+  hours: number;
+  emoji: string;
+  phase: MilestonePhase;
+}
+
+export interface FastingPhase {
+  current: FastingMilestone | null; // last milestone passed, null before the first one
+  next: FastingMilestone | null; // null once every milestone has been passed
+  timeToNext: number; // in milliseconds, 0 when there is no next milestone
+}
+
+export const FASTING_MILESTONES: FastingMilestone[] = [
+  { hours: 12, emoji: '🔋', phase: 'glycogen' },
+  { hours: 16, emoji: '🔥', phase: 'fatBurning' },
+  { hours: 18, emoji: '⚡', phase: 'ketosis' },
+  { hours: 24, emoji: '♻️', phase: 'autophagy' },
+  { hours: 48, emoji: '🧬', phase: 'deepAutophagy' },
+  { hours: 72, emoji: '🛡️', phase: 'immune' }
+];
+
+export function getFastingPhase(durationMs: number, milestones: FastingMilestone[] = FASTING_MILESTONES): FastingPhase {
+  const sorted = [...milestones].sort((a, b) => a.hours - b.hours);
+  const hourMs = 1000 * 60 * 60;
+  
+  let current: FastingMilestone | null = null;
+  for (const milestone of sorted) {
+    if (durationMs < milestone.hours * hourMs) {
+      return { current, next: milestone, timeToNext: milestone.hours * hourMs - durationMs };
+    }
+    current = milestone;
+  }
+  
+  return { current, next: null, timeToNext: 0 };
+}
+
+export function formatFastingPhase(startedAt: string, durationMs: number, timezone: string, language: Language = DEFAULT_LANGUAGE, milestones: FastingMilestone[] = FASTING_MILESTONES): string {
+  const phase = getFastingPhase(durationMs, milestones);
+  const currentText = phase.current
+    ? t(language, 'phase.current', { emoji: phase.current.emoji, phase: t(language, `phase.${phase.current.phase}`), hours: phase.current.hours })
+    : t(language, 'phase.early');
+  
+  if (!phase.next) {
+    return currentText;
+  }
+  
+  const eta = new Date(new Date(startedAt).getTime() + phase.next.hours * 1000 * 60 * 60).toISOString();
+  return `${currentText}\n` + t(language, 'phase.next', {
+    phase: t(language, `phase.${phase.next.phase}`),
+    hours: phase.next.hours,
+    duration: formatDuration(phase.timeToNext),
+    time: formatTimeInTimezone(eta, timezone)
+  });
+}
+
+export function formatMilestoneReached(durationMs: number, language: Language = DEFAULT_LANGUAGE, milestones: FastingMilestone[] = FASTING_MILESTONES): string {
+  const phase = getFastingPhase(durationMs, milestones);
+  
+  if (!phase.current) {
+    return phase.next
+      ? t(language, 'phase.short', { duration: formatDuration(phase.timeToNext), phase: t(language, `phase.${phase.next.phase}`), hours: phase.next.hours })
+      : '';
+  }
+  return t(language, 'phase.reached', { emoji: phase.current.emoji, phase: t(language, `phase.${phase.current.phase}`), hours: phase.current.hours });
+}
+
+export function getLastFast(history: FastEntry[]): FastEntry | null {
+  if (history.length === 0) return null;
+  return history[history.length - 1] ?? null;
+}
+
+export function getRecentFasts(history: FastEntry[], limit: number = 5): FastEntry[] {
+  return history.slice(-limit).reverse(); // Get last N fasts, most recent first
+}
+
+export interface HistoryFilter {
+  minDuration?: number; // in milliseconds, exclusive
+  maxDuration?: number; // in milliseconds, exclusive
+  month?: string; // YYYY-MM in the user's timezone
+  tag?: string; // lowercase, without '#'
+}
+
+// Keeps the encoded filter well inside Telegram's 64-byte callback_data limit
+const MAX_FILTER_BYTES = 48;
+
+export function parseHistoryFilter(input: string, language: Language = DEFAULT_LANGUAGE): { filter?: HistoryFilter; error?: string } {
+  const filter: HistoryFilter = {};
+  const tokens = input.trim().split(/\s+/).filter(token => token.length > 0);
+  
+  for (const token of tokens) {
+    const durationMatch = token.match(/^([<>])(\d{1,3})(h|m)?$/i);
+    const monthMatch = token.match(/^(\d{4})-(\d{2})$/);
+    const tagMatch = token.match(/^tag:#?([\p{L}\p{N}_-]+)$/iu);
     
-    return calculatePeriodStatistics(monthFasts);
+    if (durationMatch?.[1] && durationMatch[2]) {
+      const unitMs = durationMatch[3]?.toLowerCase() === 'm' ? 60 * 1000 : 60 * 60 * 1000;
+      const value = parseInt(durationMatch[2], 10) * unitMs;
+      if (durationMatch[1] === '>') {
+        filter.minDuration = value;
+      } else {
+        filter.maxDuration = value;
+      }
+    } else if (monthMatch?.[1] && monthMatch[2] && Number(monthMatch[2]) >= 1 && Number(monthMatch[2]) <= 12) {
+      filter.month = token;
+    } else if (tagMatch?.[1]) {
+      filter.tag = tagMatch[1].toLowerCase();
+    } else {
+      return { error: t(language, 'history.unknownFilter', { token }) };
+    }
+  }
+  
+  if (new TextEncoder().encode(formatHistoryFilter(filter)).length > MAX_FILTER_BYTES) {
+    return { error: t(language, 'history.filterTooLong') };
+  }
+  
+  return { filter };
+}
+
+export function formatHistoryFilter(filter: HistoryFilter): string {
+  const parts: string[] = [];
+  if (filter.minDuration !== undefined) {
+    parts.push(`>${formatFilterDuration(filter.minDuration)}`);
+  }
+  if (filter.maxDuration !== undefined) {
+    parts.push(`<${formatFilterDuration(filter.maxDuration)}`);
+  }
+  if (filter.month) {
+    parts.push(filter.month);
+  }
+  if (filter.tag) {
+    parts.push(`tag:${filter.tag}`);
+  }
+  return parts.join(' ');
+}
+
+export function getFastTags(fast: FastEntry): string[] {
+  const matches = (fast.note || '').matchAll(/#([\p{L}\p{N}_-]+)/gu);
+  return [...new Set([...matches].map(match => (match[1] || '').toLowerCase()))];
+}
+
+export function filterHistory(history: FastEntry[], filter: HistoryFilter, timezone: string): FastEntry[] {
+  return history.filter(fast => {
+    if (filter.minDuration !== undefined && fast.duration <= filter.minDuration) {
+      return false;
+    }
+    if (filter.maxDuration !== undefined && fast.duration >= filter.maxDuration) {
+      return false;
+    }
+    if (filter.month && !getLocalDateKey(fast.endedAt, timezone).startsWith(`${filter.month}-`)) {
+      return false;
+    }
+    if (filter.tag && !getFastTags(fast).includes(filter.tag)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+function formatFilterDuration(durationMs: number): string {
+  const minutes = Math.round(durationMs / (60 * 1000));
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+async function applyCancelFast(userId: number, env: Env, language: Language): Promise<CancelFastResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
+  if (!userData.currentFast) {
+    return { success: false, userData, error: t(language, 'fast.notFasting') };
+  }
+  delete userData.currentFast;
+  await saveUserFastingData(userId, userData, env);
+  return { success: true, userData };
+}
+
+export interface FastReference {
+  index: number; // position in history
+  startedAtSeconds: number; // guards against the history having changed since the entry was selected
+}
+
+export function getFastReference(index: number, fast: FastEntry): FastReference {
+  return { index, startedAtSeconds: Math.floor(new Date(fast.startedAt).getTime() / 1000) };
+}
+
+export function encodeFastReference(index: number, fast: FastEntry): string {
+  const reference = getFastReference(index, fast);
+  return `${reference.index}_${reference.startedAtSeconds}`;
+}
+
+export function decodeFastReference(encoded: string): FastReference | null {
+  const match = encoded.match(/^(\d+)_(\d+)$/);
+  if (!match || !match[1] || !match[2]) {
+    return null;
+  }
+  return { index: parseInt(match[1], 10), startedAtSeconds: parseInt(match[2], 10) };
+}
+
+export function findFastByReference(userData: UserFastingData, reference: FastReference): FastEntry | null {
+  const fast = userData.history[reference.index - getHistoryOffset(userData)];
+  if (!fast || getFastReference(reference.index, fast).startedAtSeconds !== reference.startedAtSeconds) {
+    return null;
+  }
+  return fast;
+}
+
+export async function deleteFastFromHistory(userId: number, reference: FastReference, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<DeleteFastResult> {
+  return await runFastingOperation({ type: 'delete', userId, language, reference }, env, idempotencyKey) as DeleteFastResult;
+}
+
+async function applyDeleteFast(userId: number, reference: FastReference, env: Env, language: Language): Promise<DeleteFastResult> {
+  // The longest streaks can only be worked out again with every fast in memory
+  const userData = await getUserFastingData(userId, env, 'all');
+  const fast = findFastByReference(userData, reference);
+  if (!fast) {
+    return { success: false, userData, error: t(language, 'history.fastGone') };
+  }
+  
+  userData.history = userData.history.filter((_, index) => index !== reference.index);
+  await saveUserFastingData(userId, userData, env);
+  
+  return { success: true, deletedFast: fast, userData };
+}
+
+export async function updateFastTimes(userId: number, reference: FastReference, startedAt: Date, endedAt: Date, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<UpdateFastTimesResult> {
+  const operation: FastingOperation = { type: 'edit', userId, language, reference, startTime: startedAt.toISOString(), endTime: endedAt.toISOString() };
+  return await runFastingOperation(operation, env, idempotencyKey) as UpdateFastTimesResult;
+}
+
+async function applyUpdateFastTimes(userId: number, reference: FastReference, startedAt: Date, endedAt: Date, env: Env, language: Language): Promise<UpdateFastTimesResult> {
+  const userData = await getUserFastingData(userId, env, 'all');
+  const previousFast = findFastByReference(userData, reference);
+  if (!previousFast) {
+    return { success: false, userData, error: t(language, 'history.fastGone') };
+  }
+  
+  const validation = validateFastTimeline(userData.history, startedAt, endedAt, userData.timezone, getTimelineOptions(env, userData, reference.index), language);
+  if (!validation.valid) {
+    return { success: false, userData, error: validation.error! };
+  }
+  
+  const fastEntry: FastEntry = {
+    ...previousFast,
+    startedAt: startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    duration: endedAt.getTime() - startedAt.getTime()
+  };
+  userData.history[reference.index] = fastEntry;
+  
+  await saveUserFastingData(userId, userData, env);
+  
+  return { success: true, previousFast, fastEntry, userData };
+}
+
+export const MAX_NOTE_LENGTH = 280;
+
+// Attaches a note to the running fast, or to the most recent one when not fasting
+export async function setFastNote(userId: number, note: string | null, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<FastNoteResult> {
+  return await runFastingOperation({ type: 'note', userId, language, note }, env, idempotencyKey) as FastNoteResult;
+}
+
+async function applySetFastNote(userId: number, note: string | null, env: Env, language: Language): Promise<FastNoteResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
+  if (!userData.currentFast) {
+    await loadRecentHistory(userId, userData, 1, env);
+  }
+  const target = userData.currentFast ?? getLastFast(userData.history);
+  
+  if (!target) {
+    return { success: false, userData, error: t(language, 'note.noFasts') };
+  }
+  if (note !== null && note.length > MAX_NOTE_LENGTH) {
+    return { success: false, userData, error: t(language, 'note.tooLong', { max: MAX_NOTE_LENGTH }) };
+  }
+  
+  if (note === null) {
+    delete target.note;
+  } else {
+    target.note = note;
+  }
+  
+  await saveUserFastingData(userId, userData, env);
+  
+  return { success: true, target: userData.currentFast ? 'current' : 'last', userData };
+}
+
+export type RatingCategory = keyof FastRatings;
+
+// Labels and questions are in the message catalog under rating.<key>.label and rating.<key>.question
+export const RATING_CATEGORIES: Array<{ key: RatingCategory; emoji: string }> = [
+  { key: 'hunger', emoji: '😋' },
+  { key: 'energy', emoji: '⚡' },
+  { key: 'mood', emoji: '🙂' }
+];
+
+export async function updateFastRatings(userId: number, reference: FastReference, ratings: FastRatings, env: Env, idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<FastRatingsResult> {
+  return await runFastingOperation({ type: 'rate', userId, language, reference, ratings }, env, idempotencyKey) as FastRatingsResult;
+}
+
+async function applyUpdateFastRatings(userId: number, reference: FastReference, ratings: FastRatings, env: Env, language: Language): Promise<FastRatingsResult> {
+  const userData = await getUserFastingData(userId, env, 'none');
+  const fastEntry = await loadFastByReference(userId, userData, reference, env);
+  
+  if (!fastEntry) {
+    return { success: false, userData, error: t(language, 'history.fastGone') };
+  }
+  
+  fastEntry.ratings = { ...fastEntry.ratings, ...ratings };
+  await saveUserFastingData(userId, userData, env);
+  
+  return { success: true, fastEntry, userData };
+}
+
+export function formatFastRatings(ratings: FastRatings, language: Language = DEFAULT_LANGUAGE): string {
+  return RATING_CATEGORIES
+    .filter(category => ratings[category.key] !== undefined)
+    .map(category => `${category.emoji} ${t(language, `rating.${category.key}.label`)} ${ratings[category.key]}/5`)
+    .join(' • ');
+}
+
+export interface StreakStatistics {
+  currentStreak: number; // consecutive days with a completed fast
+  longestStreak: number;
+  currentGoalStreak: number; // consecutive days with a fast that met its goal
+  longestGoalStreak: number;
+}
+
+export function getLocalDateKey(isoString: string, timezone: string): string {
+  const date = new Date(isoString);
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(date);
   } catch (error) {
-    return { totalFasts: 0, totalHours: 0, averageDuration: 0, longestFast: 0 };
+    // Fallback to UTC if timezone is invalid
+    return date.toISOString().substring(0, 10);
+  }
+}
+
+export function calculateStreaks(history: FastEntry[], timezone: string, now: Date = new Date()): StreakStatistics {
+  // A fast counts towards the local calendar day on which it ended
+  const fastDays = history.map(fast => getLocalDateKey(fast.endedAt, timezone));
+  const goalDays = history.filter(isGoalMet).map(fast => getLocalDateKey(fast.endedAt, timezone));
+  const today = getLocalDateKey(now.toISOString(), timezone);
+  
+  const fastRuns = findDayStreaks(fastDays, today);
+  const goalRuns = findDayStreaks(goalDays, today);
+  
+  return {
+    currentStreak: fastRuns.current,
+    longestStreak: fastRuns.longest,
+    currentGoalStreak: goalRuns.current,
+    longestGoalStreak: goalRuns.longest
+  };
+}
+
+// The current streak ends at the first day without a fast, so months are loaded newest first
+// until everything from the day before the streak onwards is in memory
+async function loadCurrentStreakHistory(userId: number, userData: UserFastingData, env: Env, now: Date = new Date()): Promise<void> {
+  const months = Object.keys(userData.historyShards ?? {}).sort().reverse();
+  const today = getLocalDateKey(now.toISOString(), userData.timezone);
+  
+  for (let i = 0; i < months.length; i++) {
+    await loadHistoryShards(userId, userData, [months[i]!], env);
+    const older = months[i + 1];
+    if (!older) {
+      return;
+    }
+    
+    // Shards are UTC months, so a fast ending on the local day before the streak may sit a day further back
+    const { currentStreak } = calculateStreaks(userData.history, userData.timezone, now);
+    if (`${shiftShardMonth(older, 1)}-01` <= addDaysToDateKey(today, -currentStreak - 2)) {
+      return;
+    }
+  }
+}
+
+// Enough history for getStreakStatistics: records saved before the longest streaks were kept need all of it once
+export async function loadStreakHistory(userId: number, userData: UserFastingData, env: Env, now: Date = new Date()): Promise<void> {
+  if (userData.longestStreak === undefined) {
+    await loadFullHistory(userId, userData, env);
+  } else {
+    await loadCurrentStreakHistory(userId, userData, env, now);
+  }
+}
+
+function findDayStreaks(dateKeys: string[], today: string): { current: number; longest: number } {
+  const dayNumbers = [...new Set(dateKeys)]
+    .map(key => Math.round(Date.parse(`${key}T00:00:00Z`) / (1000 * 60 * 60 * 24)))
+    .sort((a, b) => a - b);
+  const todayNumber = Math.round(Date.parse(`${today}T00:00:00Z`) / (1000 * 60 * 60 * 24));
+  
+  let longest = 0;
+  let run = 0;
+  let previous: number | undefined;
+  for (const day of dayNumbers) {
+    run = previous !== undefined && day === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
   }
+  
+  // The current streak is still alive if the last fast ended today or yesterday
+  const current = previous !== undefined && todayNumber - previous <= 1 ? run : 0;
+  
+  return { current, longest };
+}
+
+// The longest streaks are recomputed when the whole history is in memory. Otherwise a run found in the
+// loaded months is a real run, so they can only grow; a record that never had them waits for a full load
+function recordLongestStreaks(userData: UserFastingData, complete: boolean): void {
+  const { longestStreak, longestGoalStreak } = calculateStreaks(userData.history, userData.timezone);
+  if (complete) {
+    userData.longestStreak = longestStreak;
+    userData.longestGoalStreak = longestGoalStreak;
+  } else if (userData.longestStreak !== undefined) {
+    userData.longestStreak = Math.max(userData.longestStreak, longestStreak);
+    userData.longestGoalStreak = Math.max(userData.longestGoalStreak ?? 0, longestGoalStreak);
+  }
+}
+
+// Current streaks from the loaded history (see loadCurrentStreakHistory), longest ones from the profile
+export function getStreakStatistics(userData: UserFastingData, now: Date = new Date()): StreakStatistics {
+  const streaks = calculateStreaks(userData.history, userData.timezone, now);
+  return {
+    ...streaks,
+    longestStreak: Math.max(streaks.longestStreak, userData.longestStreak ?? 0),
+    longestGoalStreak: Math.max(streaks.longestGoalStreak, userData.longestGoalStreak ?? 0)
+  };
+}
+
+export function formatStreakSummary(streaks: StreakStatistics, language: Language = DEFAULT_LANGUAGE): string {
+  return t(language, 'streak.short', {
+    days: formatDays(streaks.currentStreak, language),
+    longest: formatDays(streaks.longestStreak, language)
+  });
+}
+
+export function formatDays(days: number, language: Language = DEFAULT_LANGUAGE): string {
+  return t(language, 'format.days', { count: days });
+}
+
+export interface EatingWindow {
+  startedAt: string; // end of the previous fast
+  endedAt: string; // start of the next fast
+  duration: number; // in milliseconds
+}
+
+export interface EatingWindowStatistics {
+  totalWindows: number;
+  averageDuration: number; // in milliseconds
+  shortestWindow: number; // in milliseconds
+  longestWindow: number; // in milliseconds
+}
+
+// Gaps longer than this mean the user stopped tracking rather than ate for days
+const MAX_EATING_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+export function getEatingWindows(history: FastEntry[]): EatingWindow[] {
+  const sorted = [...history].sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  const windows: EatingWindow[] = [];
+  
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1]!;
+    const next = sorted[i]!;
+    const duration = new Date(next.startedAt).getTime() - new Date(previous.endedAt).getTime();
+    
+    if (duration > 0 && duration <= MAX_EATING_WINDOW_MS) {
+      windows.push({ startedAt: previous.endedAt, endedAt: next.startedAt, duration });
+    }
+  }
+  
+  return windows;
+}
+
+export function calculateEatingWindowStatistics(windows: EatingWindow[]): EatingWindowStatistics {
+  if (windows.length === 0) {
+    return { totalWindows: 0, averageDuration: 0, shortestWindow: 0, longestWindow: 0 };
+  }
+  
+  const durations = windows.map(window => window.duration);
+  const totalDuration = durations.reduce((sum, duration) => sum + duration, 0);
+  
+  return {
+    totalWindows: windows.length,
+    averageDuration: totalDuration / windows.length,
+    shortestWindow: Math.min(...durations),
+    longestWindow: Math.max(...durations)
+  };
+}
+
+export function getCurrentEatingWindowDuration(history: FastEntry[], now: Date = new Date()): number | null {
+  const lastFast = getLastFast(history);
+  if (!lastFast) {
+    return null;
+  }
+  return Math.max(0, now.getTime() - new Date(lastFast.endedAt).getTime());
+}
+
+export function formatEatingWindowSummary(stats: EatingWindowStatistics, language: Language = DEFAULT_LANGUAGE): string {
+  return t(language, 'eating.summary', {
+    average: formatDuration(stats.averageDuration),
+    shortest: formatDuration(stats.shortestWindow),
+    longest: formatDuration(stats.longestWindow)
+  });
+}
+
+export type AchievementId =
+  | 'first_fast' | 'first_24h' | 'first_48h'
+  | 'fasts_10' | 'fasts_50' | 'fasts_100'
+  | 'hours_100' | 'hours_500' | 'hours_1000'
+  | 'goal_weeks_4';
+
+// Titles and descriptions are in the message catalog under achievement.<id>.title and achievement.<id>.description
+export interface Achievement {
+  id: AchievementId;
+  emoji: string;
+}
+
+interface AchievementProgress extends HistoryTotals {
+  goalWeekRun: number; // longest run of goal weeks in the loaded history
+}
+
+interface AchievementDefinition extends Achievement {
+  isEarned: (progress: AchievementProgress) => boolean;
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first_fast', emoji: '🐣', isEarned: progress => progress.count >= 1 },
+  { id: 'first_24h', emoji: '⏳', isEarned: progress => progress.longestDuration >= 24 * HOUR_MS },
+  { id: 'first_48h', emoji: '🧬', isEarned: progress => progress.longestDuration >= 48 * HOUR_MS },
+  { id: 'fasts_10', emoji: '🔟', isEarned: progress => progress.count >= 10 },
+  { id: 'fasts_50', emoji: '🎖️', isEarned: progress => progress.count >= 50 },
+  { id: 'fasts_100', emoji: '💯', isEarned: progress => progress.count >= 100 },
+  { id: 'hours_100', emoji: '⏱️', isEarned: progress => progress.totalDuration >= 100 * HOUR_MS },
+  { id: 'hours_500', emoji: '🔥', isEarned: progress => progress.totalDuration >= 500 * HOUR_MS },
+  { id: 'hours_1000', emoji: '🏔️', isEarned: progress => progress.totalDuration >= 1000 * HOUR_MS },
+  { id: 'goal_weeks_4', emoji: '📅', isEarned: progress => progress.goalWeekRun >= 4 }
+];
+
+// Records newly earned badges on the user data; each badge is only ever awarded once. Totals come from
+// the shard summaries; goal weeks are counted in the loaded history, which must cover the recent weeks.
+export function evaluateAchievements(userData: UserFastingData, now: Date = new Date()): Achievement[] {
+  const earnedIds = new Set((userData.achievements ?? []).map(achievement => achievement.id));
+  const progress: AchievementProgress = {
+    ...getHistoryTotals(userData),
+    goalWeekRun: getLongestGoalWeekRun(userData.history, userData.timezone, userData.weekStart)
+  };
+  const newlyEarned = ACHIEVEMENTS.filter(achievement => !earnedIds.has(achievement.id) && achievement.isEarned(progress));
+  
+  if (newlyEarned.length > 0) {
+    userData.achievements = [
+      ...(userData.achievements ?? []),
+      ...newlyEarned.map((achievement): EarnedAchievement => ({ id: achievement.id, earnedAt: now.toISOString() }))
+    ];
+  }
+  
+  return newlyEarned.map(({ id, emoji }) => ({ id, emoji }));
+}
+
+// A fast not yet in the history is a personal record when it beats every earlier fast; the very first fast doesn't count
+export function isPersonalRecord(userData: UserFastingData, fast: FastEntry): boolean {
+  const totals = getHistoryTotals(userData);
+  return totals.count > 0 && fast.duration > totals.longestDuration;
+}
+
+export function formatNewAchievements(achievements: Achievement[], personalRecord: boolean, durationMs: number, language: Language = DEFAULT_LANGUAGE): string {
+  const lines = achievements.map(achievement =>
+    t(language, 'badge.unlocked', { emoji: achievement.emoji, title: t(language, `achievement.${achievement.id}.title`) })
+  );
+  if (personalRecord) {
+    lines.unshift(t(language, 'badge.personalRecord', { duration: formatDuration(durationMs) }));
+  }
+  return lines.join('\n');
+}
+
+export function formatBadgeList(userData: UserFastingData, language: Language = DEFAULT_LANGUAGE): string {
+  const earned = new Map((userData.achievements ?? []).map(achievement => [achievement.id, achievement.earnedAt]));
+  const unlocked = ACHIEVEMENTS.filter(achievement => earned.has(achievement.id));
+  const locked = ACHIEVEMENTS.filter(achievement => !earned.has(achievement.id));
+  
+  const totals = getHistoryTotals(userData);
+  let text = t(language, 'badge.title', { earned: unlocked.length, total: ACHIEVEMENTS.length });
+  if (totals.count > 0) {
+    text += '\n' + t(language, 'badge.longest', { duration: formatDuration(totals.longestDuration) });
+  }
+  
+  if (unlocked.length > 0) {
+    text += '\n\n' + unlocked
+      .map(achievement => t(language, 'badge.earned', {
+        emoji: achievement.emoji,
+        title: t(language, `achievement.${achievement.id}.title`),
+        date: formatDateKey(getLocalDateKey(earned.get(achievement.id)!, userData.timezone), language)
+      }))
+      .join('\n');
+  } else {
+    text += '\n\n' + t(language, 'badge.none');
+  }
+  
+  if (locked.length > 0) {
+    text += `\n\n${t(language, 'badge.locked')}\n` + locked
+      .map(achievement => t(language, 'badge.lockedItem', {
+        emoji: achievement.emoji,
+        title: t(language, `achievement.${achievement.id}.title`),
+        description: t(language, `achievement.${achievement.id}.description`)
+      }))
+      .join('\n');
+  }
+  
+  return text;
+}
+
+// A goal week has at least one fast with a goal, and every fast with a goal met it
+function getLongestGoalWeekRun(history: FastEntry[], timezone: string, weekStart: WeekStart = 'monday'): number {
+  const weeks = new Map<string, boolean>();
+  for (const fast of history) {
+    if (!fast.goal) continue;
+    const weekKey = getLocalDateKey(getWeekPeriod(new Date(fast.endedAt), timezone, weekStart).start.toISOString(), timezone);
+    weeks.set(weekKey, (weeks.get(weekKey) ?? true) && isGoalMet(fast));
+  }
+  
+  const goalWeeks = [...weeks.entries()].filter(([, met]) => met).map(([weekKey]) => weekKey).sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | undefined;
+  for (const weekKey of goalWeeks) {
+    run = previous !== undefined && getDateKeyDifference(previous, weekKey) === 7 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = weekKey;
+  }
+  
+  return longest;
+}
+
+export interface PeriodStatistics {
+  totalFasts: number;
+  totalHours: number;
+  averageDuration: number; // in milliseconds
+  medianDuration: number; // in milliseconds
+  longestFast: number; // in milliseconds
+  fastingDays: number; // distinct local days on which a fast ended
+  fastsWithGoal: number;
+  goalsMet: number;
+  goalAdherence: number; // percentage of fasts with a goal that met it
+  eatingWindows: EatingWindowStatistics;
+}
+
+export type StatisticsPeriodKind = 'week' | 'month' | 'year' | 'range';
+
+export interface StatisticsPeriod extends CalendarPeriod {
+  kind: StatisticsPeriodKind;
+  from: string; // first local day, YYYY-MM-DD
+  to: string; // last local day (inclusive), YYYY-MM-DD
+}
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function getStatisticsPeriod(kind: Exclude<StatisticsPeriodKind, 'range'>, date: Date, timezone: string, weekStart: WeekStart = 'monday'): StatisticsPeriod {
+  let period: CalendarPeriod;
+  if (kind === 'week') {
+    period = getWeekPeriod(date, timezone, weekStart);
+  } else if (kind === 'month') {
+    period = getMonthPeriod(date, timezone);
+  } else {
+    const local = getLocalDateTime(date, timezone);
+    period = {
+      start: localMidnight(local.year, 1, 1, timezone),
+      end: localMidnight(local.year + 1, 1, 1, timezone)
+    };
+  }
+  
+  return {
+    ...period,
+    kind,
+    from: getLocalDateKey(period.start.toISOString(), timezone),
+    to: getLocalDateKey(new Date(period.end.getTime() - 1).toISOString(), timezone)
+  };
+}
+
+export function getRangeStatisticsPeriod(from: string, to: string, timezone: string): StatisticsPeriod {
+  const [fromYear, fromMonth, fromDay] = parseDateKey(from);
+  const [toYear, toMonth, toDay] = parseDateKey(to);
+  
+  return {
+    kind: 'range',
+    start: localMidnight(fromYear, fromMonth, fromDay, timezone),
+    end: localMidnight(toYear, toMonth, toDay + 1, timezone),
+    from,
+    to
+  };
+}
+
+// Steps to the adjacent period of the same kind; ranges move by their own length
+export function shiftStatisticsPeriod(period: StatisticsPeriod, direction: -1 | 1, timezone: string, weekStart: WeekStart = 'monday'): StatisticsPeriod {
+  if (period.kind === 'range') {
+    const length = getDateKeyDifference(period.from, period.to) + 1;
+    return getRangeStatisticsPeriod(
+      addDaysToDateKey(period.from, direction * length),
+      addDaysToDateKey(period.to, direction * length),
+      timezone
+    );
+  }
+  
+  const reference = direction === -1 ? new Date(period.start.getTime() - 1) : period.end;
+  return getStatisticsPeriod(period.kind, reference, timezone, weekStart);
+}
+
+export function parseDateRange(input: string, language: Language = DEFAULT_LANGUAGE): { from?: string; to?: string; error?: string } {
+  const match = input.trim().match(/^(\S+)\s*\.\.\s*(\S+)$/);
+  if (!match?.[1] || !match[2]) {
+    return { error: t(language, 'stats.invalidRange', { input }) };
+  }
+  
+  const [, from, to] = match;
+  for (const dateKey of [from, to]) {
+    if (!isValidDateKey(dateKey)) {
+      return { error: t(language, 'stats.invalidDate', { date: dateKey }) };
+    }
+  }
+  if (from > to) {
+    return { error: t(language, 'stats.rangeReversed', { from, to }) };
+  }
+  
+  return { from, to };
+}
+
+export function getPeriodStatistics(history: FastEntry[], period: CalendarPeriod, timezone: string): PeriodStatistics {
+  return calculatePeriodStatistics(history.filter(fast => isWithinPeriod(fast.endedAt, period)), timezone);
+}
+
+export function getWeeklyStatistics(history: FastEntry[], timezone: string, weekStart: WeekStart = 'monday', now: Date = new Date()): PeriodStatistics {
+  return getPeriodStatistics(history, getWeekPeriod(now, timezone, weekStart), timezone);
+}
+
+export function getMonthlyStatistics(history: FastEntry[], timezone: string, now: Date = new Date()): PeriodStatistics {
+  return getPeriodStatistics(history, getMonthPeriod(now, timezone), timezone);
+}
+
+export function encodeStatisticsPeriod(period: StatisticsPeriod): string {
+  return period.kind === 'range' ? `range_${period.from}_${period.to}` : `${period.kind}_${period.from}`;
+}
+
+export function decodeStatisticsPeriod(encoded: string, timezone: string, weekStart: WeekStart = 'monday'): StatisticsPeriod | null {
+  const rangeMatch = encoded.match(/^range_(\d{4}-\d{2}-\d{2})_(\d{4}-\d{2}-\d{2})$/);
+  if (rangeMatch?.[1] && rangeMatch[2]) {
+    const { from, to, error } = parseDateRange(`${rangeMatch[1]}..${rangeMatch[2]}`);
+    return error || !from || !to ? null : getRangeStatisticsPeriod(from, to, timezone);
+  }
+  
+  const match = encoded.match(/^(week|month|year)_(\d{4}-\d{2}-\d{2})$/);
+  if (!match?.[1] || !match[2] || !isValidDateKey(match[2])) {
+    return null;
+  }
+  
+  // Noon avoids landing on the neighbouring day around DST changes
+  const [year, month, day] = parseDateKey(match[2]);
+  const reference = zonedTimeToInstant(year, month, day, 12, 0, timezone);
+  return getStatisticsPeriod(match[1] as Exclude<StatisticsPeriodKind, 'range'>, reference, timezone, weekStart);
+}
+
+export function formatPeriodTitle(period: StatisticsPeriod, timezone: string, weekStart: WeekStart = 'monday', now: Date = new Date(), language: Language = DEFAULT_LANGUAGE): string {
+  const isCurrent = isWithinPeriod(now.toISOString(), period);
+  const isPrevious = !isCurrent && period.kind !== 'range' &&
+    isWithinPeriod(now.toISOString(), shiftStatisticsPeriod(period, 1, timezone, weekStart));
+  
+  switch (period.kind) {
+    case 'week':
+      if (isCurrent) return t(language, 'stats.title.thisWeek');
+      if (isPrevious) return t(language, 'stats.title.lastWeek');
+      return t(language, 'stats.title.week', { from: formatDateKey(period.from, language), to: formatDateKey(period.to, language) });
+    case 'month':
+      if (isCurrent) return t(language, 'stats.title.thisMonth');
+      if (isPrevious) return t(language, 'stats.title.lastMonth');
+      return t(language, 'stats.title.month', { month: formatMonthKey(period.from, language) });
+    case 'year':
+      return t(language, 'stats.title.year', { year: period.from.substring(0, 4) });
+    case 'range':
+      return t(language, 'stats.title.range', { from: formatDateKey(period.from, language), to: formatDateKey(period.to, language) });
+  }
+}
+
+export function formatPeriodStatistics(title: string, stats: PeriodStatistics, comparison: PeriodComparison | null = null, language: Language = DEFAULT_LANGUAGE): string {
+  const goalText = stats.fastsWithGoal > 0
+    ? '\n' + t(language, 'stats.goalsMet', { met: stats.goalsMet, total: stats.fastsWithGoal, percent: stats.goalAdherence })
+    : '';
+  const eatingText = stats.eatingWindows.totalWindows > 0 ? `\n${formatEatingWindowSummary(stats.eatingWindows, language)}` : '';
+  const compare = (key: keyof PeriodAverages, kind: 'count' | 'hours' | 'duration') =>
+    comparison ? ` ${formatComparison(stats[key], comparison.previous[key], comparison.allTimeAverage[key], kind, comparison.label, 'compare.average', language)}` : '';
+  const longestComparison = comparison
+    ? ` ${formatComparison(stats.longestFast, comparison.previous.longestFast, comparison.longestEver, 'duration', comparison.label, 'compare.best', language)}`
+    : '';
+  
+  return `${title}\n\n` +
+         t(language, 'stats.totalFasts', { value: stats.totalFasts }) + `${compare('totalFasts', 'count')}\n` +
+         t(language, 'stats.fastingDays', { value: stats.fastingDays }) + '\n' +
+         t(language, 'stats.totalHours', { value: formatNumber(stats.totalHours, language) }) + `${compare('totalHours', 'hours')}\n` +
+         t(language, 'stats.averageDuration', { value: formatDuration(stats.averageDuration) }) + `${compare('averageDuration', 'duration')}\n` +
+         t(language, 'stats.medianDuration', { value: formatDuration(stats.medianDuration) }) + '\n' +
+         t(language, 'stats.longestFast', { value: formatDuration(stats.longestFast) }) + longestComparison +
+         goalText +
+         eatingText;
 }
 
-function calculatePeriodStatistics(fasts: FastEntry[]): PeriodStatistics {
+export type PeriodAverages = Pick<PeriodStatistics, 'totalFasts' | 'totalHours' | 'averageDuration'>;
+
+export interface PeriodComparison {
+  label: `compare.${'last' | 'previous'}.${Exclude<StatisticsPeriodKind, 'range'>}`; // catalog key, e.g. "last week"
+  previous: PeriodStatistics;
+  allTimeAverage: PeriodAverages;
+  longestEver: number; // milliseconds; a period's longest fast is measured against the all-time longest
+}
+
+// Compares a week, month or year with the one before it and with the user's average period
+// since their first fast. Custom ranges have no natural "average period", so they get none.
+// Only the shown and previous periods need to be loaded; all-time figures come from the shard summaries.
+export function getPeriodComparison(userData: UserFastingData, period: StatisticsPeriod, now: Date = new Date()): PeriodComparison | null {
+  if (period.kind === 'range') {
+    return null;
+  }
+  
+  const previous = getPeriodStatistics(userData.history, shiftStatisticsPeriod(period, -1, userData.timezone, userData.weekStart), userData.timezone);
+  const label = `compare.${isWithinPeriod(now.toISOString(), period) ? 'last' : 'previous'}.${period.kind}` as const;
+  
+  return {
+    label,
+    previous,
+    allTimeAverage: getAllTimePeriodAverages(userData, period.kind, now),
+    longestEver: getHistoryTotals(userData).longestDuration
+  };
+}
+
+function getAllTimePeriodAverages(userData: UserFastingData, kind: Exclude<StatisticsPeriodKind, 'range'>, now: Date): PeriodAverages {
+  const shards = getHistorySummaries(userData);
+  const fastCount = shards.reduce((sum, shard) => sum + shard.count, 0);
+  if (fastCount === 0) {
+    return { totalFasts: 0, totalHours: 0, averageDuration: 0 };
+  }
+  
+  // Every period from the first fast up to the current one counts, including empty ones
+  const firstEndedAt = shards.reduce((first, shard) => shard.firstEndedAt < first ? shard.firstEndedAt : first, shards[0]!.firstEndedAt);
+  let periodCount = 0;
+  let current = getStatisticsPeriod(kind, new Date(firstEndedAt), userData.timezone, userData.weekStart);
+  while (current.start <= now) {
+    periodCount++;
+    current = shiftStatisticsPeriod(current, 1, userData.timezone, userData.weekStart);
+  }
+  periodCount = Math.max(periodCount, 1);
+  
+  const totalDuration = shards.reduce((sum, shard) => sum + shard.totalDuration, 0);
+  return {
+    totalFasts: fastCount / periodCount,
+    totalHours: totalDuration / (1000 * 60 * 60) / periodCount,
+    averageDuration: totalDuration / fastCount
+  };
+}
+
+function formatComparison(
+  value: number,
+  previous: number,
+  reference: number,
+  kind: 'count' | 'hours' | 'duration',
+  label: PeriodComparison['label'],
+  referenceLabel: 'compare.average' | 'compare.best',
+  language: Language
+): string {
+  return t(language, 'stats.comparison', {
+    previous: formatDelta(value - previous, kind, language),
+    label: t(language, label),
+    reference: formatDelta(value - reference, kind, language),
+    referenceLabel: t(language, referenceLabel)
+  });
+}
+
+// "▲ +2", "▼ −1.5h", "▲ +1h 30m" or "=" when there is no meaningful difference
+function formatDelta(delta: number, kind: 'count' | 'hours' | 'duration', language: Language): string {
+  const magnitude = Math.abs(delta);
+  const isEqual = kind === 'duration' ? magnitude < 1000 * 60 : Math.round(magnitude * 10) === 0;
+  if (isEqual) {
+    return '=';
+  }
+  
+  const rounded = formatNumber(Math.round(magnitude * 10) / 10, language);
+  const formatted = kind === 'duration' ? formatDuration(magnitude) : kind === 'hours' ? `${rounded}h` : rounded;
+  return delta > 0 ? `▲ +${formatted}` : `▼ −${formatted}`;
+}
+
+function calculatePeriodStatistics(fasts: FastEntry[], timezone: string): PeriodStatistics {
   if (fasts.length === 0) {
-    return { totalFasts: 0, totalHours: 0, averageDuration: 0, longestFast: 0 };
+    return {
+      totalFasts: 0,
+      totalHours: 0,
+      averageDuration: 0,
+      medianDuration: 0,
+      longestFast: 0,
+      fastingDays: 0,
+      fastsWithGoal: 0,
+      goalsMet: 0,
+      goalAdherence: 0,
+      eatingWindows: calculateEatingWindowStatistics([])
+    };
   }
   
   const totalDuration = fasts.reduce((sum, fast) => sum + fast.duration, 0);
   const longestFast = fasts.reduce((max, fast) => Math.max(max, fast.duration), 0);
   const averageDuration = totalDuration / fasts.length;
   const totalHours = Math.round(totalDuration / (1000 * 60 * 60) * 10) / 10; // Round to 1 decimal
+  const fastsWithGoal = fasts.filter(fast => fast.goal).length;
+  const goalsMet = fasts.filter(isGoalMet).length;
   
   return {
     totalFasts: fasts.length,
     totalHours,
     averageDuration,
-    longestFast
+    medianDuration: getMedian(fasts.map(fast => fast.duration)),
+    longestFast,
+    fastingDays: new Set(fasts.map(fast => getLocalDateKey(fast.endedAt, timezone))).size,
+    fastsWithGoal,
+    goalsMet,
+    goalAdherence: fastsWithGoal > 0 ? Math.round(goalsMet / fastsWithGoal * 100) : 0,
+    eatingWindows: calculateEatingWindowStatistics(getEatingWindows(fasts))
   };
-}
\ No newline at end of file
+}
+
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 1) {
+    return sorted[middle] ?? 0;
+  }
+  return ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+function parseDateKey(dateKey: string): [number, number, number] {
+  const match = dateKey.match(DATE_KEY_PATTERN);
+  return [Number(match?.[1]), Number(match?.[2]), Number(match?.[3])];
+}
+
+export function isValidDateKey(dateKey: string): boolean {
+  if (!DATE_KEY_PATTERN.test(dateKey)) {
+    return false;
+  }
+  const [year, month, day] = parseDateKey(dateKey);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().substring(0, 10);
+}
+
+export function getDateKeyDifference(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+}
+
+function formatDateKey(dateKey: string, language: Language): string {
+  return new Intl.DateTimeFormat(getLocale(language), { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' })
+    .format(new Date(`${dateKey}T00:00:00Z`));
+}
+
+function formatMonthKey(dateKey: string, language: Language): string {
+  return new Intl.DateTimeFormat(getLocale(language), { timeZone: 'UTC', month: 'long', year: 'numeric' })
+    .format(new Date(`${dateKey}T00:00:00Z`));
+}
@@ -0,0 +1,84 @@
+import { FastingGoal, FastEntry } from './types';
+
+export interface FastingProtocol {
+  id: string;
+  label: string;
+  targetHours: number;
+}
+
+export interface GoalProgress {
+  percent: number;
+  remaining: number; // in milliseconds, 0 once the goal is reached
+  met: boolean;
+}
+
+export const FASTING_PROTOCOLS: FastingProtocol[] = [
+  { id: '16:8', label: '16:8', targetHours: 16 },
+  { id: '18:6', label: '18:6', targetHours: 18 },
+  { id: '20:4', label: '20:4', targetHours: 20 },
+  { id: 'omad', label: 'OMAD', targetHours: 23 },
+  { id: '36h', label: '36h', targetHours: 36 }
+];
+
+const MAX_CUSTOM_GOAL_HOURS = 168;
+
+export function parseGoal(input: string): FastingGoal | null {
+  const normalized = input.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const protocol = FASTING_PROTOCOLS.find(p => p.id === normalized);
+  if (protocol) {
+    return {
+      protocol: protocol.id,
+      targetDuration: protocol.targetHours * 60 * 60 * 1000
+    };
+  }
+
+  // Custom targets are plain hour counts without a sign (e.g. "18h"); signed values are time adjustments
+  const customMatch = normalized.match(/^(\d{1,3})h$/);
+  if (customMatch && customMatch[1]) {
+    const hours = parseInt(customMatch[1], 10);
+    if (hours < 1 || hours > MAX_CUSTOM_GOAL_HOURS) {
+      return null;
+    }
+    return {
+      protocol: `${hours}h`,
+      targetDuration: hours * 60 * 60 * 1000
+    };
+  }
+
+  return null;
+}
+
+export function formatGoalLabel(goal: FastingGoal): string {
+  const protocol = FASTING_PROTOCOLS.find(p => p.id === goal.protocol);
+  const hours = Math.round(goal.targetDuration / (1000 * 60 * 60) * 10) / 10;
+
+  if (!protocol) {
+    return `${hours}h`;
+  }
+
+  return protocol.label === `${hours}h` ? protocol.label : `${protocol.label} (${hours}h)`;
+}
+
+export function getGoalProgress(durationMs: number, goal: FastingGoal): GoalProgress {
+  if (goal.targetDuration <= 0) {
+    return { percent: 100, remaining: 0, met: true };
+  }
+
+  return {
+    percent: Math.floor(durationMs / goal.targetDuration * 100),
+    remaining: Math.max(0, goal.targetDuration - durationMs),
+    met: durationMs >= goal.targetDuration
+  };
+}
+
+export function isGoalMet(fast: FastEntry): boolean {
+  return !!fast.goal && fast.duration >= fast.goal.targetDuration;
+}
+
+export function getProtocolList(): string {
+  return FASTING_PROTOCOLS.map(p => p.id).join(', ');
+}
@@ -0,0 +1,128 @@
+import { WeekStart, Language } from './types';
+import { zonedTimeToInstant, getLocalDateKey } from './fasting';
+import { t, getLocale, DEFAULT_LANGUAGE } from './i18n';
+
+export interface FastingInterval {
+  startedAt: string; // ISO 8601
+  endedAt: string; // ISO 8601
+}
+
+// Upper bounds in hours for each heatmap level; the last level has no upper bound.
+// The empty level has no label of its own: it is calendar.levelNone in the message catalog.
+const HEATMAP_LEVELS: Array<{ maxHours: number; symbol: string; label: string | null }> = [
+  { maxHours: 0, symbol: '·', label: null },
+  { maxHours: 12, symbol: '░', label: '<12h' },
+  { maxHours: 16, symbol: '▒', label: '12–16h' },
+  { maxHours: 20, symbol: '▓', label: '16–20h' },
+  { maxHours: Infinity, symbol: '█', label: '20h+' }
+];
+
+export function parseMonthKey(input: string): { year: number; month: number } | null {
+  const match = input.trim().match(/^(\d{4})-(\d{2})$/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { year, month } : null;
+}
+
+export function formatMonthKey(year: number, month: number): string {
+  const normalized = new Date(Date.UTC(year, month - 1, 1));
+  return normalized.toISOString().substring(0, 7);
+}
+
+export function shiftMonthKey(monthKey: string, months: number): string {
+  const parsed = parseMonthKey(monthKey);
+  return parsed ? formatMonthKey(parsed.year, parsed.month + months) : monthKey;
+}
+
+// Splits each interval across the local days it covers and sums fasting time per day of the month
+export function getDailyFastingDurations(intervals: FastingInterval[], monthKey: string, timezone: string): Map<number, number> {
+  const durations = new Map<number, number>();
+  const parsed = parseMonthKey(monthKey);
+  if (!parsed) {
+    return durations;
+  }
+  
+  const daysInMonth = new Date(Date.UTC(parsed.year, parsed.month, 0)).getUTCDate();
+  getFastingDurationsByDay(intervals, `${monthKey}-01`, daysInMonth, timezone).forEach((duration, index) => {
+    if (duration > 0) {
+      durations.set(index + 1, duration);
+    }
+  });
+  
+  return durations;
+}
+
+// Fasting time per local day for `dayCount` consecutive days starting at `fromDateKey` (YYYY-MM-DD)
+export function getFastingDurationsByDay(intervals: FastingInterval[], fromDateKey: string, dayCount: number, timezone: string): number[] {
+  const [year, month, day] = fromDateKey.split('-').map(Number) as [number, number, number];
+  const dayStarts: number[] = [];
+  for (let offset = 0; offset <= dayCount; offset++) {
+    const normalized = new Date(Date.UTC(year, month - 1, day + offset));
+    dayStarts.push(zonedTimeToInstant(normalized.getUTCFullYear(), normalized.getUTCMonth() + 1, normalized.getUTCDate(), 0, 0, timezone).getTime());
+  }
+  
+  const durations: number[] = new Array(dayCount).fill(0);
+  for (const interval of intervals) {
+    const start = new Date(interval.startedAt).getTime();
+    const end = new Date(interval.endedAt).getTime();
+    
+    for (let index = 0; index < dayCount; index++) {
+      const overlap = Math.min(end, dayStarts[index + 1]!) - Math.max(start, dayStarts[index]!);
+      if (overlap > 0) {
+        durations[index] = (durations[index] ?? 0) + overlap;
+      }
+    }
+  }
+  
+  return durations;
+}
+
+export function getHeatmapSymbol(durationMs: number): string {
+  const hours = durationMs / (1000 * 60 * 60);
+  if (hours <= 0) {
+    return HEATMAP_LEVELS[0]!.symbol;
+  }
+  return (HEATMAP_LEVELS.find(level => level.maxHours > 0 && hours < level.maxHours) ?? HEATMAP_LEVELS[HEATMAP_LEVELS.length - 1]!).symbol;
+}
+
+export function formatCalendarHeatmap(monthKey: string, durations: Map<number, number>, timezone: string, weekStart: WeekStart = 'monday', now: Date = new Date(), language: Language = DEFAULT_LANGUAGE): string {
+  const parsed = parseMonthKey(monthKey);
+  if (!parsed) {
+    return '';
+  }
+  
+  const daysInMonth = new Date(Date.UTC(parsed.year, parsed.month, 0)).getUTCDate();
+  const firstWeekday = new Date(Date.UTC(parsed.year, parsed.month - 1, 1)).getUTCDay();
+  const firstColumn = weekStart === 'monday' ? (firstWeekday + 6) % 7 : firstWeekday;
+  const weekdayOrder = weekStart === 'monday' ? [1, 2, 3, 4, 5, 6, 0] : [0, 1, 2, 3, 4, 5, 6];
+  const today = getLocalDateKey(now.toISOString(), timezone);
+  
+  // Each cell is three characters wide: day number plus heatmap symbol
+  const cells: string[] = Array.from({ length: firstColumn }, () => '   ');
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey = `${monthKey}-${String(day).padStart(2, '0')}`;
+    const symbol = dateKey > today ? ' ' : getHeatmapSymbol(durations.get(day) ?? 0);
+    cells.push(`${String(day).padStart(2, ' ')}${symbol}`);
+  }
+  
+  // Two-letter weekday names starting on Sunday, so each lines up with its three-character column
+  const weekdayLabels = t(language, 'calendar.weekdays').split(' ');
+  const lines = [weekdayOrder.map(weekday => `${weekdayLabels[weekday]} `).join(' ').trimEnd()];
+  for (let i = 0; i < cells.length; i += 7) {
+    lines.push(cells.slice(i, i + 7).join(' ').trimEnd());
+  }
+  
+  return lines.join('\n');
+}
+
+export function formatHeatmapLegend(language: Language = DEFAULT_LANGUAGE): string {
+  return HEATMAP_LEVELS.map(level => `${level.symbol} ${level.label ?? t(language, 'calendar.levelNone')}`).join('  ');
+}
+
+export function formatMonthTitle(monthKey: string, language: Language = DEFAULT_LANGUAGE): string {
+  return new Intl.DateTimeFormat(getLocale(language), { timeZone: 'UTC', month: 'long', year: 'numeric' })
+    .format(new Date(`${monthKey}-01T00:00:00Z`));
+}
@@ -0,0 +1,795 @@
+import type { Language, User } from './types';
+
+// User-facing messages live in one catalog per language. Templates use {name} placeholders;
+// a template given as plural forms is picked with the language's plural rules for `count`.
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: Record<Language, { name: string; locale: string }> = {
+  en: { name: 'English', locale: 'en-GB' },
+  pl: { name: 'Polski', locale: 'pl-PL' }
+};
+
+type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+type MessageTemplate = string | PluralForms;
+export type MessageParams = Record<string, string | number>;
+
+const EN = {
+  // Authentication
+  'auth.required': "Please authenticate by sending your API key first.",
+  'auth.requiredCallback': "Please authenticate first by sending your API key.",
+  'auth.prompt': "Please authenticate by sending your API key, or use /start for help.",
+  'auth.invalidKey': "Invalid API key. Please check and try again.",
+  'auth.expiredKey': "Your API key has expired. Please contact the bot owner for a new key.",
+  'auth.success': "Authentication successful! ✅\nAuthenticated as: {name}\nExpires: {expiry}",
+  'auth.unavailable': "Service temporarily unavailable. Please try again.",
+  'auth.rateLimited': "Too many failed attempts. Please try again after {time}.",
+  'auth.messageReceived': "Message received. Use /fast, /end, /stats, or /timezone commands to track your fasting.",
+  'start.welcomeBack': "Welcome back! ✅\nAuthenticated as: {name}\nExpires: {expiry}",
+  'start.welcome': "Welcome to ZenFast! 🚀\nPlease authenticate by sending your API key.",
+  'status.authenticated': "Authentication Status: ✅ Authenticated\n\nKey Name: {name}\nExpires: {expiry}\nAuthenticated by: {by}\nAuthenticated on: {on}",
+  'status.notAuthenticated': "Authentication Status: ❌ Not authenticated\n\nPlease use /start to begin authentication.",
+
+  // Buttons
+  'button.startFast': "🚀 Start Fast",
+  'button.endFast': "🛑 End Fast",
+  'button.cancelFast': "🗑️ Cancel Fast",
+  'button.adjustTime': "🕑 Adjust time",
+  'button.rateFast': "📝 Rate this fast",
+  'button.cancel': "❌ Cancel",
+  'button.confirmCancel': "✅ Yes, cancel",
+  'button.keepFasting': "↩️ No, keep fasting",
+  'button.confirmDelete': "✅ Yes, delete",
+  'button.keepFast': "❌ No, keep it",
+  'button.skip': "⏭ Skip",
+  'button.previous': "◀️ Previous",
+  'button.next': "Next ▶️",
+  'button.customTime': "✏️ Custom",
+  'button.cancelAdjust': "✖️ Cancel",
+  'button.back': "↩️ Back",
+  'button.confirmStart': "✅ Start at {time}",
+  'button.confirmEnd': "✅ End at {time}",
+
+  // Errors
+  'error.generic': "An error occurred while processing your request. Please try again.",
+  'error.short': "An error occurred. Please try again.",
+  'error.startFast': "An error occurred while starting your fast. Please try again.",
+  'error.endFast': "An error occurred while ending your fast. Please try again.",
+  'error.cancelFast': "An error occurred while canceling your fast. Please try again.",
+  'error.deleteFast': "An error occurred while deleting the fast. Please try again.",
+  'error.adjustTime': "An error occurred while adjusting the time. Please try again.",
+  'error.stats': "An error occurred while retrieving your stats. Please try again.",
+  'error.weeklyStats': "An error occurred while retrieving your weekly stats. Please try again.",
+  'error.monthlyStats': "An error occurred while retrieving your monthly stats. Please try again.",
+  'error.yearlyStats': "An error occurred while retrieving your yearly stats. Please try again.",
+  'error.history': "An error occurred while retrieving your history. Please try again.",
+  'error.streaks': "An error occurred while retrieving your streaks. Please try again.",
+  'error.badges': "An error occurred while retrieving your badges. Please try again.",
+  'error.calendar': "An error occurred while building your calendar. Please try again.",
+  'error.chart': "An error occurred while drawing your chart. Please try again.",
+  'error.timezone': "An error occurred while updating your timezone. Please try again.",
+  'error.weekStart': "An error occurred while updating your week start. Please try again.",
+  'error.goal': "An error occurred while updating your goal. Please try again.",
+  'error.limits': "An error occurred while updating your limits. Please try again.",
+  'error.language': "An error occurred while updating your language. Please try again.",
+  'error.note': "An error occurred while saving your note. Please try again.",
+  'error.weight': "An error occurred while processing your weight. Please try again.",
+  'error.edit': "An error occurred while editing your fast. Please try again.",
+  'error.log': "An error occurred while logging your fast. Please try again.",
+  'error.invalidTime': "Invalid time",
+
+  // Starting, ending and canceling fasts
+  'fast.started': "✅ Fast started at {time}",
+  'fast.startFailed': "Failed to start fast. Please try again.",
+  'fast.alreadyFasting': "You've been fasting for {duration} (started at {time}). Please end your current fast (or cancel it) before starting a new one.",
+  'fast.alreadyActive': "You already have an active fast.",
+  'fast.goalSwitched': "🎯 Goal for your current fast set to {goal}\n{progress}",
+  'fast.adjusted': " (adjusted from your input)",
+  'fast.ended': "✅ Great job! You fasted for {duration}",
+  'fast.endFailed': "Failed to end fast. Please try again.",
+  'fast.weekCount': " (Your {ordinal} fast this week)",
+  'fast.notFasting': "You're not currently fasting.",
+  'fast.notFastingWithLast': "You're not currently fasting. Your last fast was {duration} ({relative})\n🍽 You've been eating for {eating}",
+  'fast.notFastingNoHistory': "You're not currently fasting and have no fasting history.",
+  'fast.noneToEnd': "No active fast to end.",
+  'fast.noneToCancel': "No active fast to cancel.",
+  'fast.none': "No active fast.",
+  'fast.cancelPrompt': "❓ Cancel current fast?\nYou've been fasting for {duration} (started at {time}).\nThis will discard the fast. Are you sure?",
+  'fast.canceled': "❎ Fast canceled. You can start a new fast anytime.",
+  'fast.cancelAborted': "👍 Cancellation aborted. Keep going! You've been fasting for {duration} (started at {time}).",
+  'fast.endCurrentFirst': "You already have an active fast. Please end your current fast before starting a new one.",
+  'fast.endBeforeStart': "End time cannot be before or equal to start time",
+  'fast.tooLongToEnd': "{error}. End it at an earlier time (e.g. /end yesterday 20:00) or cancel it with /cancel",
+
+  // Adjusting start and end times
+  'adjust.previewStart': "🕑 Start your fast at {time} ({elapsed})",
+  'adjust.previewEnd': "🕑 End your fast at {time} ({elapsed})",
+  'adjust.now': "now",
+  'adjust.ago': "{duration} ago",
+  'adjust.lasted': "⏱️ Your fast will have lasted {duration}",
+  'adjust.hint': "Move the time back with the buttons below, then confirm.",
+  'adjust.custom': "✏️ Send the time you want, e.g. {command} 20:30, {command} -45m or {command} yesterday 21:00",
+  'adjust.canceled': "👌 Time adjustment canceled.",
+
+  // Time input
+  'time.help': "Use formats like: -2h, -1h30m, 2h ago, 14:00, 8pm, yesterday 21:00, last night 20:30, mon 19:00",
+  'time.notUnderstood': "Invalid time format: {input}. Did not understand {tokens}. {help}",
+  'time.extra': "Invalid time format: {input}. Expected a single time but found extra {tokens}. {help}",
+  'time.rangeHelp': "Use formats like: yesterday 20:00 today 12:00, last night 21:00 8am, 2026-10-18 20:00..2026-10-19 12:00 or 2026-10-18T20:00..2026-10-19T12:00",
+  'time.rangeMissing': "Missing time range. {help}",
+  'time.rangeNotUnderstood': "Could not understand {tokens} in time range. {help}",
+  'time.rangeIncomplete': "Expected a start and an end time. {help}",
+  'time.invalidHour': "Invalid hour: {hours}. Must be 0-23",
+  'time.invalidHour12': "Invalid hour: {hours}. Must be 1-12 with am/pm",
+  'time.invalidMinutes': "Invalid minutes: {minutes}. Must be 0-59",
+  'time.invalidDateTime': "Invalid date: {input}. Use formats like 2026-10-18T20:00",
+  'time.invalidDate': "Invalid date: {input}. Use formats like 2026-10-18",
+  'time.plusWithAgo': "Invalid time format: {input}. \"+\" moves forward in time and cannot be combined with \"ago\"",
+  'time.invalidAmount': "Invalid time amount: {input}",
+  'time.needsClock': "Invalid time format: {input}. \"{token}\" needs a time, e.g. {example}",
+  'time.agoWithoutAmount': "Invalid time format: {input}. \"{token}\" must follow an amount of time, e.g. 2h ago",
+  'time.skipped': "{requested} was skipped when clocks went forward; using {used}",
+  'time.repeated': "{requested} happened twice when clocks went back; using the first one",
+  'time.startInFuture': "Cannot start a fast in the future",
+  'time.endInFuture': "Cannot end a fast in the future",
+  'time.startAfterCurrent': "Cannot start a fast at {time} - you already have a fast that started at {existing}",
+  'time.endBeforeStart': "Cannot end a fast before it started. Fast started at {start}, trying to end at {end}",
+  'time.startTooEarly': "Cannot start a fast more than {limit} ago",
+  'time.endTooEarly': "Cannot end a fast more than {limit} ago",
+  'time.mustEndAfterStart': "A fast must end after it started",
+  'time.overlapsCurrent': "Overlaps with your current fast that started at {time}",
+  'time.overlaps': "Overlaps with your fast from {start} to {end}",
+
+  // Statistics
+  'stats.noHistory': "📊 No fasting history yet. Start your first fast to see stats here!",
+  'stats.recent': "📊 Your recent fasts:",
+  'stats.weekEmpty': "📅 This Week's Fasting Summary\n\nNo fasts completed this week yet. Start your first fast to see your weekly progress!",
+  'stats.monthEmpty': "📊 This Month's Fasting Summary\n\nNo fasts completed this month yet. Start your first fast to see your monthly progress!",
+  'stats.periodEmpty': "{title}\n\nNo fasts completed in this period.",
+  'streak.none': "🔥 No streaks yet. Complete your first fast to start one!",
+  'streak.summary': "🔥 Your Fasting Streaks\n\n📆 Current streak: {current}\n🏆 Longest streak: {longest}",
+  'streak.goal': "🎯 Current goal streak: {current}\n🥇 Longest goal streak: {longest}",
+  'calendar.invalidMonth': "❌ Invalid month: {input}. Use /calendar YYYY-MM",
+  'calendar.summary': "Fasting days: {days} • Total: {hours}h",
+  'chart.invalidPeriod': "❌ Unknown chart period: {input}. Use /chart week, /chart month or /chart year",
+  'chart.empty': "{title}\n\nNo fasting recorded in this period yet.",
+  'stats.invalidRange': "Invalid date range: {input}. Use YYYY-MM-DD..YYYY-MM-DD",
+  'stats.invalidDate': "Invalid date: {date}. Use YYYY-MM-DD",
+  'stats.rangeReversed': "The range must start before it ends: {from}..{to}",
+  'stats.title.thisWeek': "📅 This Week's Fasting Summary",
+  'stats.title.lastWeek': "📅 Last Week's Fasting Summary",
+  'stats.title.week': "📅 Fasting Summary: {from} – {to}",
+  'stats.title.thisMonth': "📊 This Month's Fasting Summary",
+  'stats.title.lastMonth': "📊 Last Month's Fasting Summary",
+  'stats.title.month': "📊 {month} Fasting Summary",
+  'stats.title.year': "📆 {year} Fasting Summary",
+  'stats.title.range': "📈 Fasting Summary: {from} – {to}",
+  'stats.totalFasts': "📈 Total fasts: {value}",
+  'stats.fastingDays': "📆 Fasting days: {value}",
+  'stats.totalHours': "⏰ Total hours: {value}h",
+  'stats.averageDuration': "📊 Average duration: {value}",
+  'stats.medianDuration': "⚖️ Median duration: {value}",
+  'stats.longestFast': "🏆 Longest fast: {value}",
+  'stats.goalsMet': "🎯 Goals met: {met}/{total} ({percent}%)",
+  'stats.comparison': "({previous} vs {label} • {reference} vs {referenceLabel})",
+  'compare.last.week': "last week",
+  'compare.previous.week': "previous week",
+  'compare.last.month': "last month",
+  'compare.previous.month': "previous month",
+  'compare.last.year': "last year",
+  'compare.previous.year': "previous year",
+  'compare.average': "avg",
+  'compare.best': "best",
+  'eating.summary': "🍽 Eating window: avg {average} • shortest {shortest} • longest {longest}",
+  'streak.short': "🔥 Streak: {days} (longest: {longest})",
+  'calendar.weekdays': "Su Mo Tu We Th Fr Sa",
+  'calendar.levelNone': "none",
+  'chart.legend': "🟦 Fasting hours per day\n🟧 7-day average",
+  'chart.legendGoal': "🟦 Fasting hours per day (🟩 goal met)\n🟧 7-day average\n🟥 Goal: {goal}",
+  'chart.totals': "⏰ Total: {total} • 📊 Daily average: {average}",
+
+  // History, undo, edit and log
+  'history.none': "📜 No fasting history yet. Start your first fast to build your history!",
+  'history.noMatch': "📜 No fasts match: {filter}",
+  'history.matching': "📜 Fasts matching {filter}:",
+  'history.recent': "📜 Your fasting history (last 10):",
+  'history.title': "📜 Your fasting history:",
+  'history.page': { one: "📄 Page {page}/{pages} • {count} fast", other: "📄 Page {page}/{pages} • {count} fasts" },
+  'history.fastGone': "That fast is no longer in your history.",
+  'history.pickerItem': "{number} {duration} - ended {relative}",
+  'history.unknownFilter': "Unknown filter: {token}. Try >20h, <16h, 2026-09 or tag:water",
+  'history.filterTooLong': "Filter is too long. Try a shorter tag",
+  'undo.none': "📋 No fasting history to undo.",
+  'undo.select': "📋 Select a fast to undo:\n\n{list}",
+  'undo.confirm': "⚠️ Confirm deletion of fast:\n\n• Duration: {duration}\n• Started: {start}\n• Ended: {end} ({relative})\n{currentFastNote}\nThis action cannot be undone. Delete this fast?",
+  'undo.currentFastNote': "\nℹ️ Your current fast is not affected.\n",
+  'undo.deleted': {
+    one: "✅ Fast deleted from history.\nYou now have {count} fast in your history ({week} this week).",
+    other: "✅ Fast deleted from history.\nYou now have {count} fasts in your history ({week} this week)."
+  },
+  'undo.canceled': "↩️ Deletion cancelled. Your history remains unchanged.",
+  'edit.none': "✏️ No fasting history to edit.",
+  'edit.select': "✏️ Select a fast to edit:\n\n{list}\n\nOr send: /edit <number> start|end <time>",
+  'edit.usage': "Usage: /edit <number> start|end <time>\n\nExamples: /edit 1 start 20:30, /edit 2 end -45m",
+  'edit.invalidNumber': "❌ Invalid fast number: {position}. Choose between 1 and {count}",
+  'edit.failed': "Failed to update fast. Please try again.",
+  'edit.updated': "✅ Fast updated:\n• Started: {start}\n• Ended: {end}\n• Duration: {duration} (was {previous})",
+  'edit.selected': "✏️ Editing fast #{position}:\n\n• Started: {start}\n• Ended: {end}\n• Duration: {duration}\n\nSend /edit {position} start <time> or /edit {position} end <time>\n-30m or +1h shifts the current value, 21:00 sets the time on the same day.",
+  'edit.canceled': "↩️ Edit cancelled. Your history remains unchanged.",
+  'log.usage': "Usage: /log <start> <end>\n\nExamples:\n/log yesterday 20:00 today 12:00\n/log 2026-10-18T20:00..2026-10-19T12:00",
+  'log.invalidRange': "Invalid time range",
+  'log.failed': "Failed to log fast. Please try again.",
+  'log.logged': "✅ Logged a fast of {duration} ({start} → {end})",
+
+  // Ratings
+  'rate.skipped': "👌 No problem, rating skipped.",
+  'rate.saved': "✅ Thanks! Your ratings for this {duration} fast are saved.",
+  'rate.prompt': "📝 Rate your {duration} fast ({step}/{total})\n\n{emoji} {label}: {question}",
+  'rating.hunger.label': "Hunger",
+  'rating.hunger.question': "How hungry did you feel? (1 = not at all, 5 = starving)",
+  'rating.energy.label': "Energy",
+  'rating.energy.question': "How was your energy? (1 = drained, 5 = great)",
+  'rating.mood.label': "Mood",
+  'rating.mood.question': "How was your mood? (1 = low, 5 = excellent)",
+
+  // Goals, phases and badges
+  'goal.progress': "🎯 Goal {goal}: {percent}% — {remaining} to go",
+  'goal.reached': "🎯 Goal {goal} reached ({percent}%) 🎉",
+  'goal.target': "🎯 Goal: {goal} — until {time}",
+  'goal.met': "🎯 Goal {goal} met ({percent}%) ✅",
+  'goal.missed': "🎯 Goal {goal} missed — {percent}%, {remaining} short",
+  'phase.current': "{emoji} Phase: {phase} ({hours}h+)",
+  'phase.early': "🌱 Phase: Early fast",
+  'phase.next': "⏭ Next: {phase} at {hours}h — in {duration} ({time})",
+  'phase.reached': "{emoji} Milestone reached: {phase} ({hours}h)",
+  'phase.short': "🌱 {duration} short of {phase} ({hours}h)",
+  'phase.glycogen': "Glycogen depletion",
+  'phase.fatBurning': "Fat burning",
+  'phase.ketosis': "Ketosis",
+  'phase.autophagy': "Autophagy",
+  'phase.deepAutophagy': "Deep autophagy",
+  'phase.immune': "Immune regeneration",
+  'badge.unlocked': "🏅 Badge unlocked: {emoji} {title}",
+  'badge.personalRecord': "🏆 New personal record: {duration} is your longest fast ever!",
+  'badge.title': "🏅 Your badges ({earned}/{total})",
+  'badge.longest': "🏆 Longest fast: {duration}",
+  'badge.earned': "{emoji} {title} — {date}",
+  'badge.none': "No badges yet — end a fast to earn your first one.",
+  'badge.locked': "🔒 Still to earn:",
+  'badge.lockedItem': "{emoji} {title} — {description}",
+  'achievement.first_fast.title': "First fast",
+  'achievement.first_fast.description': "Complete your first fast",
+  'achievement.first_24h.title': "First 24h fast",
+  'achievement.first_24h.description': "Complete a fast of 24 hours or more",
+  'achievement.first_48h.title': "First 48h fast",
+  'achievement.first_48h.description': "Complete a fast of 48 hours or more",
+  'achievement.fasts_10.title': "10 fasts",
+  'achievement.fasts_10.description': "Complete 10 fasts",
+  'achievement.fasts_50.title': "50 fasts",
+  'achievement.fasts_50.description': "Complete 50 fasts",
+  'achievement.fasts_100.title': "100 fasts",
+  'achievement.fasts_100.description': "Complete 100 fasts",
+  'achievement.hours_100.title': "100 hours fasted",
+  'achievement.hours_100.description': "Fast for 100 hours in total",
+  'achievement.hours_500.title': "500 hours fasted",
+  'achievement.hours_500.description': "Fast for 500 hours in total",
+  'achievement.hours_1000.title': "1000 hours fasted",
+  'achievement.hours_1000.description': "Fast for 1000 hours in total",
+  'achievement.goal_weeks_4.title': "4 goal weeks in a row",
+  'achievement.goal_weeks_4.description': "Meet your goal in every fast for 4 weeks in a row",
+
+  // Settings
+  'timezone.current': "Your current timezone is: {timezone}\n\nTo change it, use: /timezone America/New_York",
+  'timezone.invalid': "Invalid timezone: {timezone}\n\nPlease use a valid IANA timezone like: America/New_York, Europe/London, Asia/Tokyo",
+  'timezone.failed': "Failed to update timezone. Please try again.",
+  'timezone.updated': "✅ Timezone updated to: {timezone}",
+  'weekStart.current': "📅 Your week starts on: {day}\n\nTo change it, use: /weekstart monday or /weekstart sunday",
+  'weekStart.invalid': "Invalid week start: {input}\n\nUse: /weekstart monday or /weekstart sunday",
+  'weekStart.updated': "✅ Week start updated to: {day}",
+  'weekStart.monday': "Monday",
+  'weekStart.sunday': "Sunday",
+  'goal.current': "🎯 Your default goal is: {goal}\n\nTo change it, use: /goal 16:8\nAvailable protocols: {protocols}, or any number of hours like 18h\nTo clear it, use: /goal off",
+  'goal.none': "none",
+  'goal.cleared': "✅ Default goal cleared",
+  'goal.invalid': "Invalid goal: {input}\n\nAvailable protocols: {protocols}, or any number of hours like 18h",
+  'goal.failed': "Failed to update goal. Please try again.",
+  'goal.updated': "✅ Default goal updated to: {goal}",
+  'limits.title': "⚖️ Your fasting limits",
+  'limits.maxBackdate': "Backdating window",
+  'limits.maxFastDuration': "Longest fast",
+  'limits.minFastDuration': "Shortest fast counted in stats",
+  'limits.none': "none",
+  'limits.personal': "personal",
+  'limits.default': "default",
+  'limits.line': "{label}: {value} ({source})",
+  'limits.usage': "To change them, use: /limits backdate 3d, /limits max 72h or /limits min 12h\nDurations can be given in minutes (90m), hours (12h) or days (3d)\nTo go back to the defaults, use: /limits reset",
+  'limits.reset': "✅ Fasting limits reset to the defaults",
+  'limits.invalidCommand': "Invalid limits command: {input}\n\n{usage}",
+  'limits.invalidDuration': "Invalid duration: {input}\n\nUse minutes (90m), hours (12h) or days (3d)",
+  'limits.invalidMinDuration': "Invalid duration: {input}\n\nUse minutes (90m), hours (12h) or days (3d), or 0 to count every fast",
+  'limits.minAboveMax': "❌ The shortest counted fast ({min}) must be shorter than the longest fast ({max})",
+  'limits.updated': "✅ {label} updated to: {value}",
+  'limits.tooLong': "A fast cannot last longer than {max} (this one would last {duration})",
+  'language.current': "🌐 Your language is: {language}\n\nTo change it, use: /language <code>\nAvailable languages: {languages}",
+  'language.invalid': "Unknown language: {input}\n\nAvailable languages: {languages}",
+  'language.updated': "✅ Language updated to: {language}",
+
+  // Notes and weight
+  'note.onCurrent': "📝 Note on your current fast: {note}",
+  'note.onLast': "📝 Note on your last fast: {note}",
+  'note.usage': "To add a note, use: /note <text>\nIt is attached to your current fast, or to your last fast when you're not fasting.\nTo remove it, use: /note clear",
+  'note.savedCurrent': "✅ Note saved on your current fast",
+  'note.savedLast': "✅ Note saved on your last fast",
+  'note.removedCurrent': "✅ Note removed from your current fast",
+  'note.removedLast': "✅ Note removed from your last fast",
+  'note.noFasts': "You have no fasts to add a note to yet",
+  'note.tooLong': "Notes are limited to {max} characters",
+  'weight.summary': "⚖️ Your Weight\n\n{summary}\n\nTo log your weight, use: /weight 81.4\nTo switch units, use: /weight unit lb",
+  'weight.invalidUnit': "Invalid unit. Use: /weight unit kg or /weight unit lb",
+  'weight.unitUpdated': "✅ Weight unit updated to: {unit}",
+  'weight.invalid': "❌ Invalid weight: {input}\n\nUse a number like /weight 81.4 or /weight 179.5lb",
+  'weight.failed': "Failed to log weight. Please try again.",
+  'weight.logged': "✅ Logged {weight}\n\n{summary}",
+  'weight.outOfRange': "Weight must be between {min} and {max}",
+  'weight.none': "⚖️ No weight logged yet.",
+  'weight.last': "📍 Last: {weight} ({date})",
+  'weight.average7': "📉 7-day average: {weight}",
+  'weight.average30': "📊 30-day average: {weight}",
+  'weight.sinceMonthStart': "📅 Since start of month: {change}",
+  'weight.monthLine': "⚖️ Weight: {weight} ({change} this month)",
+
+  // Command menu and /help
+  'help.title': "📖 Available commands:",
+  'command.fast': "Start a fast, e.g. /f or /f -30m 16:8",
+  'command.end': "End your fast, e.g. /e or /e 12:30",
+  'command.cancel': "Discard your current fast",
+  'command.stats': "Recent fasts or a date range",
+  'command.week': "This week's summary",
+  'command.month': "This month's summary",
+  'command.year': "This year's summary",
+  'command.lastweek': "Last week's summary",
+  'command.lastmonth': "Last month's summary",
+  'command.history': "Browse and filter your fasts",
+  'command.calendar': "Month heatmap of fasting hours",
+  'command.chart': "Chart of daily fasting hours",
+  'command.streak': "Your fasting streaks",
+  'command.badges': "Earned and upcoming badges",
+  'command.note': "Add a note to a fast",
+  'command.weight': "Log or show your weight",
+  'command.undo': "Delete a recent fast",
+  'command.edit': "Correct a recent fast",
+  'command.log': "Record a past fast",
+  'command.goal': "Set your default goal",
+  'command.limits': "Backdating and fast length limits",
+  'command.timezone': "Set your timezone",
+  'command.weekstart': "Choose the first day of the week",
+  'command.language': "Choose the bot language",
+  'command.start': "Authenticate this chat",
+  'command.status': "Show the authentication status",
+  'command.help': "List all commands",
+
+  // Shared formatting
+  'format.days': { one: "{count} day", other: "{count} days" },
+  'format.ordinal': { one: "{count}st", two: "{count}nd", few: "{count}rd", other: "{count}th" },
+  'relative.today': "today",
+  'relative.yesterday': "yesterday",
+  'relative.daysAgo': { one: "{count} day ago", other: "{count} days ago" },
+  'relative.weeksAgo': { one: "{count} week ago", other: "{count} weeks ago" },
+  'relative.unknown': "unknown"
+} satisfies Record<string, MessageTemplate>;
+
+export type MessageKey = keyof typeof EN;
+
+const PL: Record<MessageKey, MessageTemplate> = {
+  'auth.required': "Najpierw uwierzytelnij się, wysyłając swój klucz API.",
+  'auth.requiredCallback': "Najpierw uwierzytelnij się, wysyłając swój klucz API.",
+  'auth.prompt': "Uwierzytelnij się, wysyłając swój klucz API, lub użyj /start, aby uzyskać pomoc.",
+  'auth.invalidKey': "Nieprawidłowy klucz API. Sprawdź go i spróbuj ponownie.",
+  'auth.expiredKey': "Twój klucz API wygasł. Poproś właściciela bota o nowy klucz.",
+  'auth.success': "Uwierzytelnianie zakończone sukcesem! ✅\nZalogowano jako: {name}\nWygasa: {expiry}",
+  'auth.unavailable': "Usługa jest chwilowo niedostępna. Spróbuj ponownie.",
+  'auth.rateLimited': "Zbyt wiele nieudanych prób. Spróbuj ponownie po {time}.",
+  'auth.messageReceived': "Wiadomość otrzymana. Używaj poleceń /fast, /end, /stats lub /timezone, aby śledzić swoje posty.",
+  'start.welcomeBack': "Witaj ponownie! ✅\nZalogowano jako: {name}\nWygasa: {expiry}",
+  'start.welcome': "Witaj w ZenFast! 🚀\nUwierzytelnij się, wysyłając swój klucz API.",
+  'status.authenticated': "Status uwierzytelnienia: ✅ Uwierzytelniono\n\nNazwa klucza: {name}\nWygasa: {expiry}\nUwierzytelniono przez: {by}\nData uwierzytelnienia: {on}",
+  'status.notAuthenticated': "Status uwierzytelnienia: ❌ Brak uwierzytelnienia\n\nUżyj /start, aby rozpocząć uwierzytelnianie.",
+
+  'button.startFast': "🚀 Zacznij post",
+  'button.endFast': "🛑 Zakończ post",
+  'button.cancelFast': "🗑️ Anuluj post",
+  'button.adjustTime': "🕑 Zmień godzinę",
+  'button.rateFast': "📝 Oceń ten post",
+  'button.cancel': "❌ Anuluj",
+  'button.confirmCancel': "✅ Tak, anuluj",
+  'button.keepFasting': "↩️ Nie, poszczę dalej",
+  'button.confirmDelete': "✅ Tak, usuń",
+  'button.keepFast': "❌ Nie, zostaw",
+  'button.skip': "⏭ Pomiń",
+  'button.previous': "◀️ Wstecz",
+  'button.next': "Dalej ▶️",
+  'button.customTime': "✏️ Inna godzina",
+  'button.cancelAdjust': "✖️ Anuluj",
+  'button.back': "↩️ Wróć",
+  'button.confirmStart': "✅ Zacznij o {time}",
+  'button.confirmEnd': "✅ Zakończ o {time}",
+
+  'error.generic': "Wystąpił błąd podczas przetwarzania żądania. Spróbuj ponownie.",
+  'error.short': "Wystąpił błąd. Spróbuj ponownie.",
+  'error.startFast': "Wystąpił błąd podczas rozpoczynania postu. Spróbuj ponownie.",
+  'error.endFast': "Wystąpił błąd podczas kończenia postu. Spróbuj ponownie.",
+  'error.cancelFast': "Wystąpił błąd podczas anulowania postu. Spróbuj ponownie.",
+  'error.deleteFast': "Wystąpił błąd podczas usuwania postu. Spróbuj ponownie.",
+  'error.adjustTime': "Wystąpił błąd podczas zmiany godziny. Spróbuj ponownie.",
+  'error.stats': "Wystąpił błąd podczas pobierania statystyk. Spróbuj ponownie.",
+  'error.weeklyStats': "Wystąpił błąd podczas pobierania statystyk tygodniowych. Spróbuj ponownie.",
+  'error.monthlyStats': "Wystąpił błąd podczas pobierania statystyk miesięcznych. Spróbuj ponownie.",
+  'error.yearlyStats': "Wystąpił błąd podczas pobierania statystyk rocznych. Spróbuj ponownie.",
+  'error.history': "Wystąpił błąd podczas pobierania historii. Spróbuj ponownie.",
+  'error.streaks': "Wystąpił błąd podczas pobierania serii. Spróbuj ponownie.",
+  'error.badges': "Wystąpił błąd podczas pobierania odznak. Spróbuj ponownie.",
+  'error.calendar': "Wystąpił błąd podczas tworzenia kalendarza. Spróbuj ponownie.",
+  'error.chart': "Wystąpił błąd podczas rysowania wykresu. Spróbuj ponownie.",
+  'error.timezone': "Wystąpił błąd podczas zmiany strefy czasowej. Spróbuj ponownie.",
+  'error.weekStart': "Wystąpił błąd podczas zmiany początku tygodnia. Spróbuj ponownie.",
+  'error.goal': "Wystąpił błąd podczas zmiany celu. Spróbuj ponownie.",
+  'error.limits': "Wystąpił błąd podczas zmiany limitów. Spróbuj ponownie.",
+  'error.language': "Wystąpił błąd podczas zmiany języka. Spróbuj ponownie.",
+  'error.note': "Wystąpił błąd podczas zapisywania notatki. Spróbuj ponownie.",
+  'error.weight': "Wystąpił błąd podczas zapisywania wagi. Spróbuj ponownie.",
+  'error.edit': "Wystąpił błąd podczas edycji postu. Spróbuj ponownie.",
+  'error.log': "Wystąpił błąd podczas zapisywania postu. Spróbuj ponownie.",
+  'error.invalidTime': "Nieprawidłowa godzina",
+
+  'fast.started': "✅ Post rozpoczęty o {time}",
+  'fast.startFailed': "Nie udało się rozpocząć postu. Spróbuj ponownie.",
+  'fast.alreadyFasting': "Pościsz już {duration} (od {time}). Zakończ (lub anuluj) obecny post, zanim zaczniesz nowy.",
+  'fast.alreadyActive': "Masz już aktywny post.",
+  'fast.goalSwitched': "🎯 Cel obecnego postu ustawiony na {goal}\n{progress}",
+  'fast.adjusted': " (według podanej godziny)",
+  'fast.ended': "✅ Świetna robota! Twój post trwał {duration}",
+  'fast.endFailed': "Nie udało się zakończyć postu. Spróbuj ponownie.",
+  'fast.weekCount': " ({ordinal} post w tym tygodniu)",
+  'fast.notFasting': "Obecnie nie pościsz.",
+  'fast.notFastingWithLast': "Obecnie nie pościsz. Twój ostatni post trwał {duration} ({relative})\n🍽 Jesz od {eating}",
+  'fast.notFastingNoHistory': "Obecnie nie pościsz i nie masz jeszcze historii postów.",
+  'fast.noneToEnd': "Brak aktywnego postu do zakończenia.",
+  'fast.noneToCancel': "Brak aktywnego postu do anulowania.",
+  'fast.none': "Brak aktywnego postu.",
+  'fast.cancelPrompt': "❓ Anulować obecny post?\nPościsz już {duration} (od {time}).\nPost zostanie odrzucony. Czy na pewno?",
+  'fast.canceled': "❎ Post anulowany. Nowy post możesz zacząć w każdej chwili.",
+  'fast.cancelAborted': "👍 Anulowanie przerwane. Tak trzymaj! Pościsz już {duration} (od {time}).",
+  'fast.endCurrentFirst': "Masz już aktywny post. Zakończ obecny post, zanim zaczniesz nowy.",
+  'fast.endBeforeStart': "Koniec nie może być wcześniej niż początek ani w tej samej chwili",
+  'fast.tooLongToEnd': "{error}. Zakończ go wcześniej (np. /end yesterday 20:00) lub anuluj poleceniem /cancel",
+
+  'adjust.previewStart': "🕑 Rozpocznij post o {time} ({elapsed})",
+  'adjust.previewEnd': "🕑 Zakończ post o {time} ({elapsed})",
+  'adjust.now': "teraz",
+  'adjust.ago': "{duration} temu",
+  'adjust.lasted': "⏱️ Post będzie trwał {duration}",
+  'adjust.hint': "Cofnij godzinę przyciskami poniżej, a potem potwierdź.",
+  'adjust.custom': "✏️ Wyślij wybraną godzinę, np. {command} 20:30, {command} -45m lub {command} yesterday 21:00",
+  'adjust.canceled': "👌 Zmiana godziny anulowana.",
+
+  'time.help': "Użyj formatu: -2h, -1h30m, 2h ago, 14:00, 8pm, yesterday 21:00, last night 20:30, mon 19:00",
+  'time.notUnderstood': "Nieprawidłowy format czasu: {input}. Nie rozpoznano: {tokens}. {help}",
+  'time.extra': "Nieprawidłowy format czasu: {input}. Oczekiwano jednej godziny, a znaleziono dodatkowo {tokens}. {help}",
+  'time.rangeHelp': "Użyj formatu: yesterday 20:00 today 12:00, last night 21:00 8am, 2026-10-18 20:00..2026-10-19 12:00 lub 2026-10-18T20:00..2026-10-19T12:00",
+  'time.rangeMissing': "Brak zakresu czasu. {help}",
+  'time.rangeNotUnderstood': "Nie rozpoznano {tokens} w zakresie czasu. {help}",
+  'time.rangeIncomplete': "Oczekiwano godziny początku i końca. {help}",
+  'time.invalidHour': "Nieprawidłowa godzina: {hours}. Dozwolone 0-23",
+  'time.invalidHour12': "Nieprawidłowa godzina: {hours}. Z am/pm dozwolone 1-12",
+  'time.invalidMinutes': "Nieprawidłowe minuty: {minutes}. Dozwolone 0-59",
+  'time.invalidDateTime': "Nieprawidłowa data: {input}. Użyj formatu 2026-10-18T20:00",
+  'time.invalidDate': "Nieprawidłowa data: {input}. Użyj formatu 2026-10-18",
+  'time.plusWithAgo': "Nieprawidłowy format czasu: {input}. \"+\" przesuwa czas do przodu i nie łączy się z \"ago\"",
+  'time.invalidAmount': "Nieprawidłowa ilość czasu: {input}",
+  'time.needsClock': "Nieprawidłowy format czasu: {input}. Po \"{token}\" podaj godzinę, np. {example}",
+  'time.agoWithoutAmount': "Nieprawidłowy format czasu: {input}. \"{token}\" musi następować po ilości czasu, np. 2h ago",
+  'time.skipped': "{requested} nie wystąpiła przy zmianie czasu na letni; użyto {used}",
+  'time.repeated': "{requested} wystąpiła dwa razy przy zmianie czasu na zimowy; użyto pierwszej",
+  'time.startInFuture': "Nie można zacząć postu w przyszłości",
+  'time.endInFuture': "Nie można zakończyć postu w przyszłości",
+  'time.startAfterCurrent': "Nie można zacząć postu o {time} - masz już post rozpoczęty o {existing}",
+  'time.endBeforeStart': "Nie można zakończyć postu przed jego początkiem. Post zaczął się o {start}, próba zakończenia o {end}",
+  'time.startTooEarly': "Nie można zacząć postu wcześniej niż {limit} temu",
+  'time.endTooEarly': "Nie można zakończyć postu wcześniej niż {limit} temu",
+  'time.mustEndAfterStart': "Post musi się zakończyć po swoim początku",
+  'time.overlapsCurrent': "Nakłada się na obecny post rozpoczęty {time}",
+  'time.overlaps': "Nakłada się na post od {start} do {end}",
+
+  'stats.noHistory': "📊 Nie masz jeszcze historii postów. Zacznij pierwszy post, aby zobaczyć tu statystyki!",
+  'stats.recent': "📊 Twoje ostatnie posty:",
+  'stats.weekEmpty': "📅 Podsumowanie tygodnia\n\nW tym tygodniu nie ukończono jeszcze żadnego postu. Zacznij pierwszy post, aby śledzić postępy tygodnia!",
+  'stats.monthEmpty': "📊 Podsumowanie miesiąca\n\nW tym miesiącu nie ukończono jeszcze żadnego postu. Zacznij pierwszy post, aby śledzić postępy miesiąca!",
+  'stats.periodEmpty': "{title}\n\nW tym okresie nie ukończono żadnego postu.",
+  'streak.none': "🔥 Nie masz jeszcze serii. Ukończ pierwszy post, aby ją rozpocząć!",
+  'streak.summary': "🔥 Twoje serie postów\n\n📆 Obecna seria: {current}\n🏆 Najdłuższa seria: {longest}",
+  'streak.goal': "🎯 Obecna seria z osiągniętym celem: {current}\n🥇 Najdłuższa seria z osiągniętym celem: {longest}",
+  'calendar.invalidMonth': "❌ Nieprawidłowy miesiąc: {input}. Użyj /calendar RRRR-MM",
+  'calendar.summary': "Dni postu: {days} • Łącznie: {hours} h",
+  'chart.invalidPeriod': "❌ Nieznany okres wykresu: {input}. Użyj /chart week, /chart month lub /chart year",
+  'chart.empty': "{title}\n\nW tym okresie nie zapisano jeszcze żadnego postu.",
+  'stats.invalidRange': "Nieprawidłowy zakres dat: {input}. Użyj formatu RRRR-MM-DD..RRRR-MM-DD",
+  'stats.invalidDate': "Nieprawidłowa data: {date}. Użyj formatu RRRR-MM-DD",
+  'stats.rangeReversed': "Zakres musi się zaczynać przed swoim końcem: {from}..{to}",
+  'stats.title.thisWeek': "📅 Podsumowanie postów w tym tygodniu",
+  'stats.title.lastWeek': "📅 Podsumowanie postów w poprzednim tygodniu",
+  'stats.title.week': "📅 Podsumowanie postów: {from} – {to}",
+  'stats.title.thisMonth': "📊 Podsumowanie postów w tym miesiącu",
+  'stats.title.lastMonth': "📊 Podsumowanie postów w poprzednim miesiącu",
+  'stats.title.month': "📊 Podsumowanie postów: {month}",
+  'stats.title.year': "📆 Podsumowanie postów: {year}",
+  'stats.title.range': "📈 Podsumowanie postów: {from} – {to}",
+  'stats.totalFasts': "📈 Liczba postów: {value}",
+  'stats.fastingDays': "📆 Dni postu: {value}",
+  'stats.totalHours': "⏰ Łącznie godzin: {value} h",
+  'stats.averageDuration': "📊 Średnia długość: {value}",
+  'stats.medianDuration': "⚖️ Mediana długości: {value}",
+  'stats.longestFast': "🏆 Najdłuższy post: {value}",
+  'stats.goalsMet': "🎯 Osiągnięte cele: {met}/{total} ({percent}%)",
+  'stats.comparison': "({previous} vs {label} • {reference} vs {referenceLabel})",
+  'compare.last.week': "poprzedni tydzień",
+  'compare.previous.week': "wcześniejszy tydzień",
+  'compare.last.month': "poprzedni miesiąc",
+  'compare.previous.month': "wcześniejszy miesiąc",
+  'compare.last.year': "poprzedni rok",
+  'compare.previous.year': "wcześniejszy rok",
+  'compare.average': "średnia",
+  'compare.best': "rekord",
+  'eating.summary': "🍽 Okno żywieniowe: średnio {average} • najkrótsze {shortest} • najdłuższe {longest}",
+  'streak.short': "🔥 Seria: {days} (najdłuższa: {longest})",
+  'calendar.weekdays': "Nd Pn Wt Śr Cz Pt So",
+  'calendar.levelNone': "brak",
+  'chart.legend': "🟦 Godziny postu dziennie\n🟧 Średnia 7-dniowa",
+  'chart.legendGoal': "🟦 Godziny postu dziennie (🟩 cel osiągnięty)\n🟧 Średnia 7-dniowa\n🟥 Cel: {goal}",
+  'chart.totals': "⏰ Łącznie: {total} • 📊 Średnio dziennie: {average}",
+
+  'history.none': "📜 Nie masz jeszcze historii postów. Zacznij pierwszy post, aby ją zbudować!",
+  'history.noMatch': "📜 Żaden post nie pasuje do: {filter}",
+  'history.matching': "📜 Posty pasujące do {filter}:",
+  'history.recent': "📜 Twoja historia postów (ostatnie 10):",
+  'history.title': "📜 Twoja historia postów:",
+  'history.page': {
+    one: "📄 Strona {page}/{pages} • {count} post",
+    few: "📄 Strona {page}/{pages} • {count} posty",
+    many: "📄 Strona {page}/{pages} • {count} postów",
+    other: "📄 Strona {page}/{pages} • {count} postu"
+  },
+  'history.fastGone': "Tego postu nie ma już w Twojej historii.",
+  'history.pickerItem': "{number} {duration} - zakończony {relative}",
+  'history.unknownFilter': "Nieznany filtr: {token}. Spróbuj >20h, <16h, 2026-09 lub tag:water",
+  'history.filterTooLong': "Filtr jest za długi. Spróbuj krótszego tagu",
+  'undo.none': "📋 Brak historii postów do cofnięcia.",
+  'undo.select': "📋 Wybierz post do usunięcia:\n\n{list}",
+  'undo.confirm': "⚠️ Potwierdź usunięcie postu:\n\n• Czas trwania: {duration}\n• Początek: {start}\n• Koniec: {end} ({relative})\n{currentFastNote}\nTej operacji nie można cofnąć. Usunąć ten post?",
+  'undo.currentFastNote': "\nℹ️ Twój obecny post pozostanie bez zmian.\n",
+  'undo.deleted': {
+    one: "✅ Post usunięty z historii.\nW historii masz teraz {count} post ({week} w tym tygodniu).",
+    few: "✅ Post usunięty z historii.\nW historii masz teraz {count} posty ({week} w tym tygodniu).",
+    many: "✅ Post usunięty z historii.\nW historii masz teraz {count} postów ({week} w tym tygodniu).",
+    other: "✅ Post usunięty z historii.\nW historii masz teraz {count} postu ({week} w tym tygodniu)."
+  },
+  'undo.canceled': "↩️ Usuwanie anulowane. Historia pozostała bez zmian.",
+  'edit.none': "✏️ Brak historii postów do edycji.",
+  'edit.select': "✏️ Wybierz post do edycji:\n\n{list}\n\nLub wyślij: /edit <numer> start|end <godzina>",
+  'edit.usage': "Użycie: /edit <numer> start|end <godzina>\n\nPrzykłady: /edit 1 start 20:30, /edit 2 end -45m",
+  'edit.invalidNumber': "❌ Nieprawidłowy numer postu: {position}. Wybierz od 1 do {count}",
+  'edit.failed': "Nie udało się zaktualizować postu. Spróbuj ponownie.",
+  'edit.updated': "✅ Post zaktualizowany:\n• Początek: {start}\n• Koniec: {end}\n• Czas trwania: {duration} (wcześniej {previous})",
+  'edit.selected': "✏️ Edycja postu nr {position}:\n\n• Początek: {start}\n• Koniec: {end}\n• Czas trwania: {duration}\n\nWyślij /edit {position} start <godzina> lub /edit {position} end <godzina>\n-30m lub +1h przesuwa obecną wartość, 21:00 ustawia godzinę tego samego dnia.",
+  'edit.canceled': "↩️ Edycja anulowana. Historia pozostała bez zmian.",
+  'log.usage': "Użycie: /log <początek> <koniec>\n\nPrzykłady:\n/log yesterday 20:00 today 12:00\n/log 2026-10-18T20:00..2026-10-19T12:00",
+  'log.invalidRange': "Nieprawidłowy zakres czasu",
+  'log.failed': "Nie udało się zapisać postu. Spróbuj ponownie.",
+  'log.logged': "✅ Zapisano post trwający {duration} ({start} → {end})",
+
+  'rate.skipped': "👌 Nie ma sprawy, ocena pominięta.",
+  'rate.saved': "✅ Dzięki! Oceny tego postu ({duration}) zostały zapisane.",
+  'rate.prompt': "📝 Oceń swój post ({duration}) ({step}/{total})\n\n{emoji} {label}: {question}",
+  'rating.hunger.label': "Głód",
+  'rating.hunger.question': "Jak duży był głód? (1 = żaden, 5 = ogromny)",
+  'rating.energy.label': "Energia",
+  'rating.energy.question': "Jak oceniasz swoją energię? (1 = wyczerpanie, 5 = świetnie)",
+  'rating.mood.label': "Nastrój",
+  'rating.mood.question': "Jak oceniasz swój nastrój? (1 = kiepski, 5 = doskonały)",
+
+  'goal.progress': "🎯 Cel {goal}: {percent}% — zostało {remaining}",
+  'goal.reached': "🎯 Cel {goal} osiągnięty ({percent}%) 🎉",
+  'goal.target': "🎯 Cel: {goal} — do {time}",
+  'goal.met': "🎯 Cel {goal} osiągnięty ({percent}%) ✅",
+  'goal.missed': "🎯 Cel {goal} nieosiągnięty — {percent}%, zabrakło {remaining}",
+  'phase.current': "{emoji} Faza: {phase} ({hours} h+)",
+  'phase.early': "🌱 Faza: początek postu",
+  'phase.next': "⏭ Następna: {phase} po {hours} h — za {duration} ({time})",
+  'phase.reached': "{emoji} Osiągnięty etap: {phase} ({hours} h)",
+  'phase.short': "🌱 Zabrakło {duration} do etapu: {phase} ({hours} h)",
+  'phase.glycogen': "Wyczerpanie glikogenu",
+  'phase.fatBurning': "Spalanie tłuszczu",
+  'phase.ketosis': "Ketoza",
+  'phase.autophagy': "Autofagia",
+  'phase.deepAutophagy': "Głęboka autofagia",
+  'phase.immune': "Regeneracja odporności",
+  'badge.unlocked': "🏅 Nowa odznaka: {emoji} {title}",
+  'badge.personalRecord': "🏆 Nowy rekord: {duration} to Twój najdłuższy post w historii!",
+  'badge.title': "🏅 Twoje odznaki ({earned}/{total})",
+  'badge.longest': "🏆 Najdłuższy post: {duration}",
+  'badge.earned': "{emoji} {title} — {date}",
+  'badge.none': "Nie masz jeszcze odznak — zakończ post, aby zdobyć pierwszą.",
+  'badge.locked': "🔒 Do zdobycia:",
+  'badge.lockedItem': "{emoji} {title} — {description}",
+  'achievement.first_fast.title': "Pierwszy post",
+  'achievement.first_fast.description': "Ukończ swój pierwszy post",
+  'achievement.first_24h.title': "Pierwszy post 24 h",
+  'achievement.first_24h.description': "Ukończ post trwający co najmniej 24 godziny",
+  'achievement.first_48h.title': "Pierwszy post 48 h",
+  'achievement.first_48h.description': "Ukończ post trwający co najmniej 48 godzin",
+  'achievement.fasts_10.title': "10 postów",
+  'achievement.fasts_10.description': "Ukończ 10 postów",
+  'achievement.fasts_50.title': "50 postów",
+  'achievement.fasts_50.description': "Ukończ 50 postów",
+  'achievement.fasts_100.title': "100 postów",
+  'achievement.fasts_100.description': "Ukończ 100 postów",
+  'achievement.hours_100.title': "100 godzin postu",
+  'achievement.hours_100.description': "Pość łącznie przez 100 godzin",
+  'achievement.hours_500.title': "500 godzin postu",
+  'achievement.hours_500.description': "Pość łącznie przez 500 godzin",
+  'achievement.hours_1000.title': "1000 godzin postu",
+  'achievement.hours_1000.description': "Pość łącznie przez 1000 godzin",
+  'achievement.goal_weeks_4.title': "4 tygodnie z celem z rzędu",
+  'achievement.goal_weeks_4.description': "Osiągaj cel w każdym poście przez 4 tygodnie z rzędu",
+
+  'timezone.current': "Twoja obecna strefa czasowa: {timezone}\n\nAby ją zmienić, użyj: /timezone Europe/Warsaw",
+  'timezone.invalid': "Nieprawidłowa strefa czasowa: {timezone}\n\nPodaj prawidłową strefę IANA, np.: Europe/Warsaw, Europe/London, America/New_York",
+  'timezone.failed': "Nie udało się zmienić strefy czasowej. Spróbuj ponownie.",
+  'timezone.updated': "✅ Strefa czasowa zmieniona na: {timezone}",
+  'weekStart.current': "📅 Pierwszy dzień tygodnia: {day}\n\nAby to zmienić, użyj: /weekstart monday lub /weekstart sunday",
+  'weekStart.invalid': "Nieprawidłowy początek tygodnia: {input}\n\nUżyj: /weekstart monday lub /weekstart sunday",
+  'weekStart.updated': "✅ Pierwszy dzień tygodnia zmieniony na: {day}",
+  'weekStart.monday': "poniedziałek",
+  'weekStart.sunday': "niedziela",
+  'goal.current': "🎯 Twój domyślny cel: {goal}\n\nAby go zmienić, użyj: /goal 16:8\nDostępne protokoły: {protocols} lub dowolna liczba godzin, np. 18h\nAby go usunąć, użyj: /goal off",
+  'goal.none': "brak",
+  'goal.cleared': "✅ Domyślny cel usunięty",
+  'goal.invalid': "Nieprawidłowy cel: {input}\n\nDostępne protokoły: {protocols} lub dowolna liczba godzin, np. 18h",
+  'goal.failed': "Nie udało się zmienić celu. Spróbuj ponownie.",
+  'goal.updated': "✅ Domyślny cel zmieniony na: {goal}",
+  'limits.title': "⚖️ Twoje limity postów",
+  'limits.maxBackdate': "Okno wstecz",
+  'limits.maxFastDuration': "Najdłuższy post",
+  'limits.minFastDuration': "Najkrótszy post liczony w statystykach",
+  'limits.none': "brak",
+  'limits.personal': "własny",
+  'limits.default': "domyślny",
+  'limits.line': "{label}: {value} ({source})",
+  'limits.usage': "Aby je zmienić, użyj: /limits backdate 3d, /limits max 72h lub /limits min 12h\nCzas można podać w minutach (90m), godzinach (12h) lub dniach (3d)\nAby wrócić do domyślnych, użyj: /limits reset",
+  'limits.reset': "✅ Przywrócono domyślne limity postów",
+  'limits.invalidCommand': "Nieprawidłowe polecenie limitów: {input}\n\n{usage}",
+  'limits.invalidDuration': "Nieprawidłowy czas: {input}\n\nPodaj minuty (90m), godziny (12h) lub dni (3d)",
+  'limits.invalidMinDuration': "Nieprawidłowy czas: {input}\n\nPodaj minuty (90m), godziny (12h) lub dni (3d) albo 0, aby liczyć każdy post",
+  'limits.minAboveMax': "❌ Najkrótszy liczony post ({min}) musi być krótszy niż najdłuższy post ({max})",
+  'limits.updated': "✅ {label}: zmieniono na {value}",
+  'limits.tooLong': "Post nie może trwać dłużej niż {max} (ten trwałby {duration})",
+  'language.current': "🌐 Twój język: {language}\n\nAby go zmienić, użyj: /language <kod>\nDostępne języki: {languages}",
+  'language.invalid': "Nieznany język: {input}\n\nDostępne języki: {languages}",
+  'language.updated': "✅ Język zmieniony na: {language}",
+
+  'note.onCurrent': "📝 Notatka do obecnego postu: {note}",
+  'note.onLast': "📝 Notatka do ostatniego postu: {note}",
+  'note.usage': "Aby dodać notatkę, użyj: /note <tekst>\nZostanie dołączona do obecnego postu, a gdy nie pościsz – do ostatniego.\nAby ją usunąć, użyj: /note clear",
+  'note.savedCurrent': "✅ Notatka zapisana przy obecnym poście",
+  'note.savedLast': "✅ Notatka zapisana przy ostatnim poście",
+  'note.removedCurrent': "✅ Notatka usunięta z obecnego postu",
+  'note.removedLast': "✅ Notatka usunięta z ostatniego postu",
+  'note.noFasts': "Nie masz jeszcze postu, do którego można dodać notatkę",
+  'note.tooLong': "Notatka może mieć najwyżej {max} znaków",
+  'weight.summary': "⚖️ Twoja waga\n\n{summary}\n\nAby zapisać wagę, użyj: /weight 81.4\nAby zmienić jednostkę, użyj: /weight unit lb",
+  'weight.invalidUnit': "Nieprawidłowa jednostka. Użyj: /weight unit kg lub /weight unit lb",
+  'weight.unitUpdated': "✅ Jednostka wagi zmieniona na: {unit}",
+  'weight.invalid': "❌ Nieprawidłowa waga: {input}\n\nPodaj liczbę, np. /weight 81.4 lub /weight 179.5lb",
+  'weight.failed': "Nie udało się zapisać wagi. Spróbuj ponownie.",
+  'weight.logged': "✅ Zapisano {weight}\n\n{summary}",
+  'weight.outOfRange': "Waga musi mieścić się między {min} a {max}",
+  'weight.none': "⚖️ Nie zapisano jeszcze wagi.",
+  'weight.last': "📍 Ostatnio: {weight} ({date})",
+  'weight.average7': "📉 Średnia 7-dniowa: {weight}",
+  'weight.average30': "📊 Średnia 30-dniowa: {weight}",
+  'weight.sinceMonthStart': "📅 Od początku miesiąca: {change}",
+  'weight.monthLine': "⚖️ Waga: {weight} ({change} w tym miesiącu)",
+
+  'help.title': "📖 Dostępne polecenia:",
+  'command.fast': "Zacznij post, np. /f lub /f -30m 16:8",
+  'command.end': "Zakończ post, np. /e lub /e 12:30",
+  'command.cancel': "Odrzuć obecny post",
+  'command.stats': "Ostatnie posty lub wybrany zakres dat",
+  'command.week': "Podsumowanie tego tygodnia",
+  'command.month': "Podsumowanie tego miesiąca",
+  'command.year': "Podsumowanie tego roku",
+  'command.lastweek': "Podsumowanie poprzedniego tygodnia",
+  'command.lastmonth': "Podsumowanie poprzedniego miesiąca",
+  'command.history': "Przeglądaj i filtruj swoje posty",
+  'command.calendar': "Miesięczna mapa godzin postu",
+  'command.chart': "Wykres dziennych godzin postu",
+  'command.streak': "Twoje serie postów",
+  'command.badges': "Zdobyte i kolejne odznaki",
+  'command.note': "Dodaj notatkę do postu",
+  'command.weight': "Zapisz lub pokaż swoją wagę",
+  'command.undo': "Usuń jeden z ostatnich postów",
+  'command.edit': "Popraw jeden z ostatnich postów",
+  'command.log': "Zapisz miniony post",
+  'command.goal': "Ustaw domyślny cel",
+  'command.limits': "Limity cofania czasu i długości postu",
+  'command.timezone': "Ustaw strefę czasową",
+  'command.weekstart': "Wybierz pierwszy dzień tygodnia",
+  'command.language': "Wybierz język bota",
+  'command.start': "Uwierzytelnij ten czat",
+  'command.status': "Pokaż status uwierzytelnienia",
+  'command.help': "Lista wszystkich poleceń",
+
+  'format.days': { one: "{count} dzień", few: "{count} dni", many: "{count} dni", other: "{count} dnia" },
+  'format.ordinal': { other: "{count}." },
+  'relative.today': "dzisiaj",
+  'relative.yesterday': "wczoraj",
+  'relative.daysAgo': { one: "{count} dzień temu", few: "{count} dni temu", many: "{count} dni temu", other: "{count} dnia temu" },
+  'relative.weeksAgo': { one: "{count} tydzień temu", few: "{count} tygodnie temu", many: "{count} tygodni temu", other: "{count} tygodnia temu" },
+  'relative.unknown': "nieznana data"
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, MessageTemplate>> = { en: EN, pl: PL };
+
+export function t(language: Language, key: MessageKey, params: MessageParams = {}): string {
+  const template = CATALOGS[language][key];
+  const text = typeof template === 'string'
+    ? template
+    : selectPluralForm(template, new Intl.PluralRules(getLocale(language)).select(Number(params.count ?? 0)));
+  return interpolate(text, params);
+}
+
+// "1st", "22nd" in English, "1.", "22." in Polish
+export function formatOrdinal(value: number, language: Language): string {
+  const template = CATALOGS[language]['format.ordinal'];
+  const text = typeof template === 'string'
+    ? template
+    : selectPluralForm(template, new Intl.PluralRules(getLocale(language), { type: 'ordinal' }).select(value));
+  return interpolate(text, { count: value });
+}
+
+export function formatNumber(value: number, language: Language, options: Intl.NumberFormatOptions = {}): string {
+  return new Intl.NumberFormat(getLocale(language), options).format(value);
+}
+
+export function getLocale(language: Language): string {
+  return LANGUAGES[language].locale;
+}
+
+// "en (English), pl (Polski)"
+export function formatLanguageList(): string {
+  return Object.entries(LANGUAGES).map(([code, { name }]) => `${code} (${name})`).join(', ');
+}
+
+export function parseLanguage(input: string): Language | null {
+  const code = input.trim().toLowerCase();
+  return code in LANGUAGES ? code as Language : null;
+}
+
+// A language chosen with /language wins over the language of the user's Telegram client
+export function resolveLanguage(user: User, preferred?: Language): Language {
+  if (preferred && preferred in LANGUAGES) {
+    return preferred;
+  }
+  const clientLanguage = user.language_code?.split('-')[0];
+  return (clientLanguage && parseLanguage(clientLanguage)) || DEFAULT_LANGUAGE;
+}
+
+function selectPluralForm(forms: PluralForms, rule: Intl.LDMLPluralRule): string {
+  return forms[rule] ?? forms.other;
+}
+
+function interpolate(text: string, params: MessageParams): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : String(value);
+  });
+}
@@ -1,12 +1,16 @@
 import { Env } from './types';
 import { validateWebhookSecret, parseWebhookUpdate, shouldProcessMessage, extractChatId, extractMessageText, extractUser, extractMessageId } from './webhook';
-import { createTelegramApi, SendMessageParams, AnswerCallbackQueryParams, EditMessageTextParams } from './telegram';
+import { createTelegramApi, SendMessageParams, SendPhotoParams, AnswerCallbackQueryParams, EditMessageTextParams } from './telegram';
 import { isAuthenticated, authenticateChat, isApiKeyPattern } from './auth';
+import { getUserLanguage } from './fasting';
+import { t } from './i18n';
 import { extractCommand, routeCommand } from './commands';
 import { routeCallback } from './callbacks';
 
 import packageJson from '../package.json';
 
+export { UserFastingObject } from './user-fasting-object';
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     // Handle health check endpoint
@@ -114,6 +118,9 @@ export default {
           if (callbackResult.editMessage.newKeyboard) {
             editParams.reply_markup = callbackResult.editMessage.newKeyboard;
           }
+          if (callbackResult.editMessage.parseMode) {
+            editParams.parse_mode = callbackResult.editMessage.parseMode;
+          }
           const editResult = await telegramApi.editMessageText(editParams);
           if (!editResult.ok) {
             console.error('Failed to edit message:', editResult.description);
@@ -154,7 +161,27 @@ export default {
       if (command) {
         // Handle command
         const commandResult = await routeCommand(command, chatId, user, messageId, messageText, env);
-        if (commandResult) {
+        if (commandResult?.photo) {
+          const photoParams: SendPhotoParams = {
+            chat_id: chatId,
+            photo: commandResult.photo,
+            caption: commandResult.text,
+          };
+          if (commandResult.replyToMessageId) {
+            photoParams.reply_to_message_id = commandResult.replyToMessageId;
+          }
+          if (commandResult.replyMarkup) {
+            photoParams.reply_markup = commandResult.replyMarkup;
+          }
+          if (commandResult.parseMode) {
+            photoParams.parse_mode = commandResult.parseMode;
+          }
+          const result = await telegramApi.sendPhoto(photoParams);
+
+          if (!result.ok) {
+            console.error('Failed to send command photo:', result.description);
+          }
+        } else if (commandResult) {
           const sendParams: SendMessageParams = {
             chat_id: chatId,
             text: commandResult.text,
@@ -165,6 +192,9 @@ export default {
           if (commandResult.replyMarkup) {
             sendParams.reply_markup = commandResult.replyMarkup;
           }
+          if (commandResult.parseMode) {
+            sendParams.parse_mode = commandResult.parseMode;
+          }
           const result = await telegramApi.sendMessage(sendParams);
 
           if (!result.ok) {
@@ -194,7 +224,7 @@ export default {
           // Prompt for authentication
           const result = await telegramApi.sendMessage({
             chat_id: chatId,
-            text: "Please authenticate by sending your API key, or use /start for help.",
+            text: t(await getUserLanguage(user, env), 'auth.prompt'),
             reply_to_message_id: messageId,
           });
 
@@ -206,7 +236,7 @@ export default {
       }
 
       // User is authenticated - send simple confirmation
-      const confirmationText = "Message received. Use /fast, /end, /stats, or /timezone commands to track your fasting.";
+      const confirmationText = t(await getUserLanguage(user, env), 'auth.messageReceived');
       const result = await telegramApi.sendMessage({
         chat_id: chatId,
         text: confirmationText,
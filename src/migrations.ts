@@ -0,0 +1,81 @@
+// Stored JSON records carry a schemaVersion. Records written before versioning have none and are
+// treated as version 1; readers upgrade older records through the migrations registered below.
+
+export type SchemaRecordType = 'userFasting' | 'chatAuth' | 'apiKey';
+
+type StoredRecord = { schemaVersion?: number } & Record<string, unknown>;
+
+export interface Migration {
+  version: number; // schema version of the record after this migration
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+export interface MigrationOutcome<T> {
+  record: T;
+  migrated: boolean;
+}
+
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+// Append new migrations at the end of a list; never edit one that has shipped
+export const MIGRATIONS: Record<SchemaRecordType, Migration[]> = {
+  userFasting: [
+    {
+      version: 2,
+      description: 'Move the inline history into monthly shards',
+      // The shards themselves are written by saveUserFastingData, which sees the inline history as fully loaded
+      migrate: record => record.historyShards ? record : { ...record, history: record.history ?? [], historyShards: {} }
+    },
+    {
+      version: 3,
+      description: 'Record the longest fast in each shard summary',
+      // Needs the shard contents, so getUserFastingData loads the shards whose summaries lack it before saving
+      migrate: record => record
+    }
+  ],
+  chatAuth: [],
+  apiKey: []
+};
+
+export const SCHEMA_VERSIONS: Record<SchemaRecordType, number> = {
+  userFasting: getLatestVersion('userFasting'),
+  chatAuth: getLatestVersion('chatAuth'),
+  apiKey: getLatestVersion('apiKey')
+};
+
+function getLatestVersion(type: SchemaRecordType): number {
+  return MIGRATIONS[type].reduce((latest, migration) => Math.max(latest, migration.version), UNVERSIONED_SCHEMA_VERSION);
+}
+
+// Records from a newer deployment are returned untouched so a rollback does not rewrite them
+export function migrateRecord<T>(type: SchemaRecordType, record: StoredRecord): MigrationOutcome<T> {
+  const fromVersion = record.schemaVersion ?? UNVERSIONED_SCHEMA_VERSION;
+  let current = record;
+
+  for (const migration of MIGRATIONS[type]) {
+    if (migration.version > fromVersion) {
+      current = { ...migration.migrate(current), schemaVersion: migration.version };
+    }
+  }
+
+  if (current.schemaVersion === undefined) {
+    current = { ...current, schemaVersion: SCHEMA_VERSIONS[type] };
+  }
+
+  return { record: current as T, migrated: current !== record };
+}
+
+// Reads a JSON record and writes it back when it had to be upgraded
+export async function getVersionedRecord<T>(kv: KVNamespace, key: string, type: SchemaRecordType): Promise<MigrationOutcome<T> | null> {
+  const data = await kv.get(key);
+  if (!data) {
+    return null;
+  }
+
+  const outcome = migrateRecord<T>(type, JSON.parse(data));
+  if (outcome.migrated) {
+    await kv.put(key, JSON.stringify(outcome.record));
+  }
+  return outcome;
+}
@@ -0,0 +1,141 @@
+// Minimal PNG encoder for palette-indexed images, so charts can be rendered inside the worker
+// without native image libraries. Pixel data is compressed with the runtime's CompressionStream.
+
+export type RGB = [number, number, number];
+
+export interface IndexedImage {
+  width: number;
+  height: number;
+  palette: RGB[];
+  pixels: Uint8Array; // one palette index per pixel, row by row
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function createIndexedImage(width: number, height: number, palette: RGB[]): IndexedImage {
+  return { width, height, palette, pixels: new Uint8Array(width * height) };
+}
+
+export function setPixel(image: IndexedImage, x: number, y: number, color: number): void {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) {
+    return;
+  }
+  image.pixels[Math.floor(y) * image.width + Math.floor(x)] = color;
+}
+
+export function fillRect(image: IndexedImage, x: number, y: number, width: number, height: number, color: number): void {
+  for (let row = Math.max(0, Math.round(y)); row < Math.min(image.height, Math.round(y + height)); row++) {
+    for (let column = Math.max(0, Math.round(x)); column < Math.min(image.width, Math.round(x + width)); column++) {
+      image.pixels[row * image.width + column] = color;
+    }
+  }
+}
+
+// Bresenham line, thickened by drawing a square brush at every step
+export function drawLine(image: IndexedImage, x0: number, y0: number, x1: number, y1: number, color: number, thickness: number = 1): void {
+  let x = Math.round(x0);
+  let y = Math.round(y0);
+  const targetX = Math.round(x1);
+  const targetY = Math.round(y1);
+  const dx = Math.abs(targetX - x);
+  const dy = -Math.abs(targetY - y);
+  const stepX = x < targetX ? 1 : -1;
+  const stepY = y < targetY ? 1 : -1;
+  const offset = Math.floor((thickness - 1) / 2);
+  let error = dx + dy;
+
+  for (;;) {
+    fillRect(image, x - offset, y - offset, thickness, thickness, color);
+    if (x === targetX && y === targetY) {
+      break;
+    }
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+}
+
+export async function encodePng(image: IndexedImage): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, image.width);
+  headerView.setUint32(4, image.height);
+  header[8] = 8; // bit depth
+  header[9] = 3; // colour type: indexed
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  const palette = new Uint8Array(image.palette.length * 3);
+  image.palette.forEach(([red, green, blue], index) => {
+    palette.set([red, green, blue], index * 3);
+  });
+
+  // Every scanline starts with filter type 0 (None)
+  const scanlines = new Uint8Array(image.height * (image.width + 1));
+  for (let row = 0; row < image.height; row++) {
+    scanlines.set(image.pixels.subarray(row * image.width, (row + 1) * image.width), row * (image.width + 1) + 1);
+  }
+
+  return concatBytes([
+    new Uint8Array(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('PLTE', palette),
+    createChunk('IDAT', await deflate(scanlines)),
+    createChunk('IEND', new Uint8Array(0))
+  ]);
+}
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// The "deflate" format of CompressionStream is zlib-wrapped, which is exactly what IDAT expects
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -1,4 +1,5 @@
-import { InlineKeyboardMarkup } from './types';
+import { InlineKeyboardMarkup, Language } from './types';
+import { t, DEFAULT_LANGUAGE } from './i18n';
 
 export interface SendMessageParams {
   chat_id: number;
@@ -8,11 +9,37 @@ export interface SendMessageParams {
   reply_markup?: InlineKeyboardMarkup;
 }
 
+export interface SendPhotoParams {
+  chat_id: number;
+  photo: Uint8Array; // PNG bytes, uploaded as multipart/form-data
+  caption?: string;
+  reply_to_message_id?: number;
+  parse_mode?: 'Markdown' | 'MarkdownV2' | 'HTML';
+  reply_markup?: InlineKeyboardMarkup;
+}
+
 export interface SetWebhookParams {
   url: string;
   secret_token: string;
 }
 
+export interface BotCommand {
+  command: string; // 1-32 lowercase letters, digits and underscores, without the leading slash
+  description: string; // 1-256 characters
+}
+
+// Subset of Telegram's BotCommandScope; a menu set for a narrower scope wins over a wider one
+export type BotCommandScope =
+  | { type: 'default' }
+  | { type: 'all_private_chats' }
+  | { type: 'all_group_chats' };
+
+export interface SetMyCommandsParams {
+  commands: BotCommand[];
+  scope?: BotCommandScope;
+  language_code?: string; // two-letter ISO 639-1 code; omitted for users without a dedicated list
+}
+
 export interface AnswerCallbackQueryParams {
   callback_query_id: string;
   text?: string;
@@ -61,6 +88,39 @@ export class TelegramApi {
     }
   }
 
+  async sendPhoto(params: SendPhotoParams): Promise<TelegramApiResponse> {
+    try {
+      const form = new FormData();
+      form.append('chat_id', String(params.chat_id));
+      form.append('photo', new Blob([params.photo], { type: 'image/png' }), 'chart.png');
+      if (params.caption) {
+        form.append('caption', params.caption);
+      }
+      if (params.reply_to_message_id) {
+        form.append('reply_to_message_id', String(params.reply_to_message_id));
+      }
+      if (params.parse_mode) {
+        form.append('parse_mode', params.parse_mode);
+      }
+      if (params.reply_markup) {
+        form.append('reply_markup', JSON.stringify(params.reply_markup));
+      }
+
+      const response = await fetch(`${this.baseUrl}/sendPhoto`, {
+        method: 'POST',
+        body: form,
+      });
+
+      return await response.json() as TelegramApiResponse;
+    } catch (error) {
+      console.error('Failed to send photo:', error);
+      return {
+        ok: false,
+        description: 'Network error occurred',
+      };
+    }
+  }
+
   async setWebhook(params: SetWebhookParams): Promise<TelegramApiResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/setWebhook`, {
@@ -81,6 +141,26 @@ export class TelegramApi {
     }
   }
 
+  async setMyCommands(params: SetMyCommandsParams): Promise<TelegramApiResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/setMyCommands`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(params),
+      });
+
+      return await response.json() as TelegramApiResponse;
+    } catch (error) {
+      console.error('Failed to set commands:', error);
+      return {
+        ok: false,
+        description: 'Network error occurred',
+      };
+    }
+  }
+
   async getWebhookInfo(): Promise<TelegramApiResponse> {
     try {
       const response = await fetch(`${this.baseUrl}/getWebhookInfo`);
@@ -139,6 +219,11 @@ export function createTelegramApi(botToken: string): TelegramApi {
   return new TelegramApi(botToken);
 }
 
+// Text placed in an HTML-formatted message; Telegram rejects a bare "<" or "&" as malformed markup
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 // Helper functions for creating inline keyboards
 export function createInlineKeyboard(buttons: Array<Array<{ text: string; callback_data: string }>>): InlineKeyboardMarkup {
   return {
@@ -153,4 +238,38 @@ export function createInlineKeyboard(buttons: Array<Array<{ text: string; callba
 
 export function createSingleButtonKeyboard(text: string, callback_data: string): InlineKeyboardMarkup {
   return createInlineKeyboard([[{ text, callback_data }]]);
-}
\ No newline at end of file
+}
+
+// The action for the current state, next to a button for picking an earlier time for it
+export function createFastStateKeyboard(isFasting: boolean, language: Language = DEFAULT_LANGUAGE): InlineKeyboardMarkup {
+  return createInlineKeyboard([[
+    isFasting ? { text: t(language, 'button.endFast'), callback_data: "end_fast" } : { text: t(language, 'button.startFast'), callback_data: "start_fast" },
+    { text: t(language, 'button.adjustTime'), callback_data: isFasting ? "adjust_end" : "adjust_start" }
+  ]]);
+}
+
+// Shown after a fast ends: start the next fast or rate the one that just finished
+export function createFastEndedKeyboard(fastReference: string, language: Language = DEFAULT_LANGUAGE): InlineKeyboardMarkup {
+  return createInlineKeyboard([[
+    { text: t(language, 'button.startFast'), callback_data: "start_fast" },
+    { text: t(language, 'button.rateFast'), callback_data: `rate_start_${fastReference}` }
+  ]]);
+}
+
+const NUMBER_EMOJIS = ['1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣', '🔟'];
+
+export function getNumberEmoji(position: number): string {
+  return NUMBER_EMOJIS[position - 1] ?? `${position}.`;
+}
+
+// Builds rows of buttons labelled 1..N, one per callback_data entry
+export function createNumberedButtonRows(callbackData: string[], columns: number = 5): Array<Array<{ text: string; callback_data: string }>> {
+  const rows: Array<Array<{ text: string; callback_data: string }>> = [];
+  callbackData.forEach((data, index) => {
+    if (index % columns === 0) {
+      rows.push([]);
+    }
+    rows[rows.length - 1]?.push({ text: `${index + 1}`, callback_data: data });
+  });
+  return rows;
+}
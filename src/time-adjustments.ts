@@ -1,7 +1,12 @@
+import { FastingLimits, Language } from './types';
+import { t, DEFAULT_LANGUAGE } from './i18n';
+import { getLocalDateKey, addDaysToDateKey, isValidDateKey, getLocalDateTime, getTimezoneOffset, zonedTimeToInstant, DEFAULT_FASTING_LIMITS, formatLimitDuration, getMaxFastDurationError } from './fasting';
+
 export interface TimeAdjustment {
   type: 'relative' | 'absolute';
   value: Date;
   originalInput: string;
+  notice?: string; // explains how a time skipped or repeated by a DST change was resolved
 }
 
 export interface ParseTimeResult {
@@ -9,108 +14,390 @@ export interface ParseTimeResult {
   error?: string;
 }
 
-export function parseTimeAdjustment(input: string, baseTime: Date, timezone: string): ParseTimeResult {
+type TimeToken =
+  | { kind: 'duration'; text: string; sign: 1 | -1 | null; ms: number }
+  | { kind: 'ago'; text: string }
+  | { kind: 'clock'; text: string; hours: number; minutes: number; meridiem: 'am' | 'pm' | null }
+  | { kind: 'day'; text: string; dateKey: string; rolloverDays: number } // rolloverDays: how far back a future time moves
+  | { kind: 'night'; text: string; dateKey: string } // "last night": the evening before `now`
+  | { kind: 'instant'; text: string; value: Date; notice?: string } // notice: a local time skipped or repeated by a clock change
+  | { kind: 'separator'; text: string };
+
+interface TimeContext {
+  base: Date; // relative amounts and bare clock times apply to this instant and its date
+  now: Date; // day words (today, yesterday, mon) are resolved against this instant
+  timezone: string;
+}
+
+interface TimePoint {
+  type: TimeAdjustment['type'];
+  value: Date;
+  next: number;
+  notice?: string;
+}
+
+interface WallClockInstant {
+  value: Date;
+  transition: 'skipped' | 'repeated' | null;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000, min: 60 * 1000, mins: 60 * 1000, minute: 60 * 1000, minutes: 60 * 1000,
+  h: 60 * 60 * 1000, hr: 60 * 60 * 1000, hrs: 60 * 60 * 1000, hour: 60 * 60 * 1000, hours: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000, day: 24 * 60 * 60 * 1000, days: 24 * 60 * 60 * 1000
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, sat: 6, saturday: 6
+};
+
+// Accepts one point in time: a relative amount (-2h, -1h30m, 2h ago, 30 min ago, +1h; unsigned means ago),
+// a clock time (14:00, 8pm, 8:30am) optionally with a day (yesterday 21:00, last night 20:30, mon 19:00)
+// or an ISO datetime. `now` anchors day words; /edit passes the fast's own time as `baseTime`.
+export function parseTimeAdjustment(input: string, baseTime: Date, timezone: string, now: Date = baseTime, language: Language = DEFAULT_LANGUAGE): ParseTimeResult {
   const trimmed = input.trim();
   
   if (!trimmed) {
     return {};
   }
 
-  // Try relative time format first (e.g., -2h, -30m, -1d)
-  const relativeMatch = trimmed.match(/^([+-])?(\d+)([hmd])$/);
-  if (relativeMatch && relativeMatch[2] && relativeMatch[3]) {
-    const sign = relativeMatch[1] === '+' ? 1 : -1; // Default to negative (ago)
-    const amount = parseInt(relativeMatch[2], 10);
-    const unit = relativeMatch[3];
-    
-    if (isNaN(amount) || amount <= 0) {
-      return { error: `Invalid time amount: ${trimmed}` };
+  const tokenized = tokenizeTime(trimmed, now, timezone, language);
+  if ('error' in tokenized) {
+    return { error: tokenized.error };
+  }
+  if (tokenized.unknown.length > 0) {
+    return { error: t(language, 'time.notUnderstood', { input: trimmed, tokens: formatTokenList(tokenized.unknown), help: t(language, 'time.help') }) };
+  }
+
+  const { tokens } = tokenized;
+  const point = parseTimePoint(tokens, 0, { base: baseTime, now, timezone }, trimmed, language);
+  if ('error' in point) {
+    return { error: point.error };
+  }
+  if (point.next < tokens.length) {
+    const extra = tokens.slice(point.next).map(token => token.text);
+    return { error: t(language, 'time.extra', { input: trimmed, tokens: formatTokenList(extra), help: t(language, 'time.help') }) };
+  }
+
+  const adjustment: TimeAdjustment = {
+    type: point.type,
+    value: point.value,
+    originalInput: trimmed
+  };
+  if (point.notice) {
+    adjustment.notice = point.notice;
+  }
+  return { adjustment };
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface ParseTimeRangeResult {
+  range?: TimeRange;
+  error?: string;
+  notices?: string[];
+}
+
+export function parseTimeRange(input: string, now: Date, timezone: string, language: Language = DEFAULT_LANGUAGE): ParseTimeRangeResult {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { error: t(language, 'time.rangeMissing', { help: t(language, 'time.rangeHelp') }) };
+  }
+
+  const tokenized = tokenizeTime(trimmed, now, timezone, language);
+  if ('error' in tokenized) {
+    return { error: tokenized.error };
+  }
+  if (tokenized.unknown.length > 0) {
+    return { error: t(language, 'time.rangeNotUnderstood', { tokens: formatTokenList(tokenized.unknown), help: t(language, 'time.rangeHelp') }) };
+  }
+
+  const tokens = tokenized.tokens.filter(token => token.kind !== 'separator');
+  const points: Date[] = [];
+  const notices: string[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const point = parseTimePoint(tokens, i, { base: now, now, timezone }, trimmed, language);
+    if ('error' in point) {
+      return { error: point.error };
     }
-    
-    const adjustedTime = new Date(baseTime);
-    
-    switch (unit) {
-      case 'h':
-        adjustedTime.setHours(adjustedTime.getHours() + (sign * amount));
-        break;
-      case 'm':
-        adjustedTime.setMinutes(adjustedTime.getMinutes() + (sign * amount));
-        break;
-      case 'd':
-        adjustedTime.setDate(adjustedTime.getDate() + (sign * amount));
-        break;
-      default:
-        return { error: `Unsupported time unit: ${unit}. Use h (hours), m (minutes), or d (days)` };
+    points.push(point.value);
+    if (point.notice) {
+      notices.push(point.notice);
     }
-    
-    return {
-      adjustment: {
-        type: 'relative',
-        value: adjustedTime,
-        originalInput: trimmed
+    i = point.next;
+  }
+
+  const [start, end] = points;
+  if (points.length !== 2 || !start || !end || isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: t(language, 'time.rangeIncomplete', { help: t(language, 'time.rangeHelp') }) };
+  }
+
+  return notices.length > 0 ? { range: { start, end }, notices } : { range: { start, end } };
+}
+
+function tokenizeTime(input: string, now: Date, timezone: string, language: Language): { tokens: TimeToken[]; unknown: string[] } | { error: string } {
+  // Glue "30 min", "8 pm" and "1h 30m"-style pieces into single words, and split ".." ranges
+  const words = input
+    .replace(/\.\./g, ' .. ')
+    .replace(/(\d)\s+([a-z]+)\b/gi, (match, digit: string, word: string) => {
+      const unit = word.toLowerCase();
+      return unit in DURATION_UNITS || unit === 'am' || unit === 'pm' ? `${digit}${word}` : match;
+    })
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+
+  const today = getLocalDateKey(now.toISOString(), timezone);
+  const tokens: TimeToken[] = [];
+  const unknown: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const text = words[i]!;
+    const word = text.toLowerCase();
+    const next = words[i + 1]?.toLowerCase();
+
+    if (word === '..') {
+      tokens.push({ kind: 'separator', text });
+      continue;
+    }
+    if (word === 'ago') {
+      tokens.push({ kind: 'ago', text });
+      continue;
+    }
+
+    const duration = word.match(/^([+-])?((?:\d+[a-z]+)+)$/);
+    if (duration && duration[2]) {
+      const parts = [...duration[2].matchAll(/(\d+)([a-z]+)/g)];
+      if (parts.every(part => part[2]! in DURATION_UNITS)) {
+        const ms = parts.reduce((sum, part) => sum + parseInt(part[1]!, 10) * DURATION_UNITS[part[2]!]!, 0);
+        tokens.push({ kind: 'duration', text, sign: duration[1] === '+' ? 1 : duration[1] === '-' ? -1 : null, ms });
+        continue;
       }
-    };
+    }
+
+    const clock = word.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+    if (clock && clock[1] && (clock[2] || clock[3])) {
+      const hours = parseInt(clock[1], 10);
+      const minutes = clock[2] ? parseInt(clock[2], 10) : 0;
+      const meridiem = (clock[3] as 'am' | 'pm' | undefined) ?? null;
+      if (meridiem ? hours < 1 || hours > 12 : hours > 23) {
+        return { error: t(language, meridiem ? 'time.invalidHour12' : 'time.invalidHour', { hours }) };
+      }
+      if (minutes > 59) {
+        return { error: t(language, 'time.invalidMinutes', { minutes }) };
+      }
+      tokens.push({ kind: 'clock', text, hours, minutes, meridiem });
+      continue;
+    }
+
+    const iso = word.match(/^(\d{4}-\d{2}-\d{2})t(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/);
+    if (iso && iso[1] && iso[2] && iso[3]) {
+      if (!isValidDateKey(iso[1])) {
+        return { error: t(language, 'time.invalidDateTime', { input: text }) };
+      }
+      const hours = parseInt(iso[2], 10);
+      const minutes = parseInt(iso[3], 10);
+      if (hours > 23) {
+        return { error: t(language, 'time.invalidHour', { hours }) };
+      }
+      if (minutes > 59) {
+        return { error: t(language, 'time.invalidMinutes', { minutes }) };
+      }
+      if (!iso[4]) {
+        // Without an offset the time is local, and may fall in an hour a clock change skips or repeats
+        const instant = resolveWallClock(iso[1], hours, minutes, timezone);
+        const notice = formatTransitionNotice(instant, hours, minutes, timezone, language);
+        tokens.push(notice ? { kind: 'instant', text, value: instant.value, notice } : { kind: 'instant', text, value: instant.value });
+        continue;
+      }
+      // Date only parses two-digit hours; whatever else it cannot read comes back as Invalid Date
+      const value = new Date(text.replace(/t(\d):/i, 'T0$1:'));
+      if (isNaN(value.getTime())) {
+        return { error: t(language, 'time.invalidDateTime', { input: text }) };
+      }
+      tokens.push({ kind: 'instant', text, value });
+      continue;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+      if (!isValidDateKey(word)) {
+        return { error: t(language, 'time.invalidDate', { input: text }) };
+      }
+      tokens.push({ kind: 'day', text, dateKey: word, rolloverDays: 0 });
+      continue;
+    }
+    if (word === 'today' || word === 'yesterday') {
+      tokens.push({ kind: 'day', text, dateKey: word === 'today' ? today : addDaysToDateKey(today, -1), rolloverDays: 0 });
+      continue;
+    }
+    if (word === 'last' && next === 'night') {
+      tokens.push({ kind: 'night', text: `${text} ${words[i + 1]}`, dateKey: addDaysToDateKey(today, -1) });
+      i++;
+      continue;
+    }
+
+    // "mon" is the most recent Monday (today included, unless the time is still ahead), "last mon" the one before today
+    const weekdayWord = word === 'last' && next !== undefined && next in WEEKDAYS ? next : word;
+    const weekday = WEEKDAYS[weekdayWord];
+    if (weekday !== undefined) {
+      const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+      let daysBack = (todayWeekday - weekday + 7) % 7;
+      if (word === 'last') {
+        daysBack = daysBack || 7;
+        tokens.push({ kind: 'day', text: `${text} ${words[i + 1]}`, dateKey: addDaysToDateKey(today, -daysBack), rolloverDays: 0 });
+        i++;
+      } else {
+        tokens.push({ kind: 'day', text, dateKey: addDaysToDateKey(today, -daysBack), rolloverDays: 7 });
+      }
+      continue;
+    }
+
+    unknown.push(text);
   }
 
-  // Try absolute time format (e.g., 14:00, 09:30)
-  const absoluteMatch = trimmed.match(/^(\d{1,2}):(\d{2})$/);
-  if (absoluteMatch && absoluteMatch[1] && absoluteMatch[2]) {
-    const hours = parseInt(absoluteMatch[1], 10);
-    const minutes = parseInt(absoluteMatch[2], 10);
-    
-    if (hours < 0 || hours > 23) {
-      return { error: `Invalid hour: ${hours}. Must be 0-23` };
+  return { tokens, unknown };
+}
+
+function parseTimePoint(tokens: TimeToken[], start: number, context: TimeContext, input: string, language: Language): TimePoint | { error: string } {
+  const token = tokens[start]!;
+
+  switch (token.kind) {
+    case 'duration': {
+      // "1h 30m" arrives as two tokens; only the first may carry a sign
+      let ms = token.ms;
+      let next = start + 1;
+      for (let candidate = tokens[next]; candidate?.kind === 'duration' && candidate.sign === null; candidate = tokens[++next]) {
+        ms += candidate.ms;
+      }
+      const ago = tokens[next]?.kind === 'ago';
+      if (ago && token.sign === 1) {
+        return { error: t(language, 'time.plusWithAgo', { input }) };
+      }
+      if (ms <= 0) {
+        return { error: t(language, 'time.invalidAmount', { input }) };
+      }
+      const sign = token.sign ?? -1; // Default to negative (ago)
+      return { type: 'relative', value: new Date(context.base.getTime() + sign * ms), next: ago ? next + 1 : next };
     }
-    
-    if (minutes < 0 || minutes > 59) {
-      return { error: `Invalid minutes: ${minutes}. Must be 0-59` };
+    case 'instant':
+      return token.notice
+        ? { type: 'absolute', value: token.value, next: start + 1, notice: token.notice }
+        : { type: 'absolute', value: token.value, next: start + 1 };
+    case 'day':
+    case 'night': {
+      const clock = tokens[start + 1];
+      if (clock?.kind !== 'clock') {
+        return { error: t(language, 'time.needsClock', { input, token: token.text, example: token.kind === 'night' ? 'last night 20:30' : 'yesterday 21:00' }) };
+      }
+      return { ...resolveClockTime(clock, token, context, language), next: start + 2 };
     }
-    
-    try {
-      // Get today's date in the user's timezone
-      const today = new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
-      const timeString = `${today}T${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:00`;
-      
-      // Create a date object representing the time in the user's timezone
-      // We'll interpret this as a local time in the target timezone
-      const localDate = new Date(timeString);
-      
-      // Get the timezone offset difference to convert to UTC
-      const utcTime = new Date(localDate.toLocaleString('en-US', { timeZone: 'UTC' }));
-      const timezoneTime = new Date(localDate.toLocaleString('en-US', { timeZone: timezone }));
-      const offsetMs = utcTime.getTime() - timezoneTime.getTime();
-      
-      // Apply the offset to get the correct UTC time
-      const adjustedTime = new Date(localDate.getTime() + offsetMs);
-      
-      return {
-        adjustment: {
-          type: 'absolute',
-          value: adjustedTime,
-          originalInput: trimmed
-        }
-      };
-    } catch (error) {
-      return { error: `Failed to parse time in timezone ${timezone}: ${trimmed}` };
+    case 'clock': {
+      // "8pm yesterday" is the same as "yesterday 8pm"
+      const day = tokens[start + 1];
+      if (day?.kind === 'day' || day?.kind === 'night') {
+        return { ...resolveClockTime(token, day, context, language), next: start + 2 };
+      }
+      return { ...resolveClockTime(token, null, context, language), next: start + 1 };
+    }
+    default:
+      return { error: t(language, 'time.agoWithoutAmount', { input, token: token.text }) };
+  }
+}
+
+// A bare clock time in the future means its most recent past occurrence: "/f 23:00" typed at 00:30 is last night
+function resolveClockTime(
+  clock: Extract<TimeToken, { kind: 'clock' }>,
+  day: Extract<TimeToken, { kind: 'day' | 'night' }> | null,
+  context: TimeContext,
+  language: Language
+): Omit<TimePoint, 'next'> {
+  let hours = clock.hours % (clock.meridiem ? 12 : 24) + (clock.meridiem === 'pm' ? 12 : 0);
+  let dateKey = day?.dateKey ?? getLocalDateKey(context.base.toISOString(), context.timezone);
+  const rolloverDays = day === null ? 1 : day.kind === 'day' ? day.rolloverDays : 0;
+
+  if (day?.kind === 'night') {
+    if (hours < 6) {
+      // Small hours of last night fall on today's date
+      dateKey = addDaysToDateKey(dateKey, 1);
+    } else if (hours < 12 && !clock.meridiem) {
+      // "last night 8:30" means the evening
+      hours += 12;
     }
   }
 
-  return { error: `Invalid time format: ${trimmed}. Use formats like: -2h, -30m, -1d, 14:00, 09:30` };
+  let instant = resolveWallClock(dateKey, hours, clock.minutes, context.timezone);
+  if (rolloverDays > 0 && instant.value > context.now) {
+    dateKey = addDaysToDateKey(dateKey, -rolloverDays);
+    instant = resolveWallClock(dateKey, hours, clock.minutes, context.timezone);
+  }
+
+  const point: Omit<TimePoint, 'next'> = { type: 'absolute', value: instant.value };
+  const notice = formatTransitionNotice(instant, hours, clock.minutes, context.timezone, language);
+  if (notice) {
+    point.notice = notice;
+  }
+  return point;
 }
 
+function formatTokenList(tokens: string[]): string {
+  return tokens.map(token => `"${token}"`).join(', ');
+}
+
+// Converts a local date and wall-clock time to an instant. A time skipped when clocks go forward does not
+// exist and moves forward by the gap (02:30 → 03:30); a time repeated when clocks go back resolves to its
+// first occurrence. The transition is reported so callers can tell the user what was picked.
+function resolveWallClock(dateKey: string, hours: number, minutes: number, timezone: string): WallClockInstant {
+  const [year, month, day] = dateKey.split('-').map(Number) as [number, number, number];
+  const value = zonedTimeToInstant(year, month, day, hours, minutes, timezone);
+  
+  const local = getLocalDateTime(value, timezone);
+  if (local.hour !== hours || local.minute !== minutes) {
+    return { value, transition: 'skipped' };
+  }
+  
+  // After a fall-back the offset shrinks; the same wall-clock time comes around again that much later
+  const offsetChange = getTimezoneOffset(value, timezone) - getTimezoneOffset(new Date(value.getTime() + 12 * 60 * 60 * 1000), timezone);
+  if (offsetChange > 0) {
+    const repeated = getLocalDateTime(new Date(value.getTime() + offsetChange), timezone);
+    if (repeated.hour === hours && repeated.minute === minutes) {
+      return { value, transition: 'repeated' };
+    }
+  }
+  
+  return { value, transition: null };
+}
+
+function formatTransitionNotice(instant: WallClockInstant, hours: number, minutes: number, timezone: string, language: Language): string | null {
+  const requested = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  if (instant.transition === 'skipped') {
+    const local = getLocalDateTime(instant.value, timezone);
+    const used = `${local.hour.toString().padStart(2, '0')}:${local.minute.toString().padStart(2, '0')}`;
+    return t(language, 'time.skipped', { requested, used });
+  }
+  if (instant.transition === 'repeated') {
+    return t(language, 'time.repeated', { requested });
+  }
+  return null;
+}
 
 export function validateTimelineConsistency(
   adjustedTime: Date, 
   existingCurrentFast?: { startedAt: string },
   isStartCommand: boolean = true,
-  now: Date = new Date()
+  now: Date = new Date(),
+  limits: FastingLimits = DEFAULT_FASTING_LIMITS,
+  language: Language = DEFAULT_LANGUAGE
 ): { valid: boolean; error?: string } {
   
   // Check if adjusted time is in the future
   if (adjustedTime > now) {
     return { 
       valid: false, 
-      error: `Cannot ${isStartCommand ? 'start' : 'end'} a fast in the future` 
+      error: t(language, isStartCommand ? 'time.startInFuture' : 'time.endInFuture')
     };
   }
   
@@ -122,7 +409,7 @@ export function validateTimelineConsistency(
     if (adjustedTime >= existingStartTime) {
       return {
         valid: false,
-        error: `Cannot start a fast at ${adjustedTime.toISOString()} - you already have a fast that started at ${existingStartTime.toISOString()}`
+        error: t(language, 'time.startAfterCurrent', { time: adjustedTime.toISOString(), existing: existingStartTime.toISOString() })
       };
     }
   }
@@ -134,17 +421,21 @@ export function validateTimelineConsistency(
     if (adjustedTime <= startTime) {
       return {
         valid: false,
-        error: `Cannot end a fast before it started. Fast started at ${startTime.toISOString()}, trying to end at ${adjustedTime.toISOString()}`
+        error: t(language, 'time.endBeforeStart', { start: startTime.toISOString(), end: adjustedTime.toISOString() })
       };
     }
+    
+    const lengthError = getMaxFastDurationError(adjustedTime.getTime() - startTime.getTime(), limits, language);
+    if (lengthError) {
+      return { valid: false, error: lengthError };
+    }
   }
   
-  // Check if the adjusted time is too far in the past (more than 7 days)
-  const sevenDaysAgo = new Date(now.getTime() - (7 * 24 * 60 * 60 * 1000));
-  if (adjustedTime < sevenDaysAgo) {
+  // Check if the adjusted time is further in the past than the backdating limit
+  if (adjustedTime.getTime() < now.getTime() - limits.maxBackdate) {
     return {
       valid: false,
-      error: `Cannot ${isStartCommand ? 'start' : 'end'} a fast more than 7 days ago`
+      error: t(language, isStartCommand ? 'time.startTooEarly' : 'time.endTooEarly', { limit: formatLimitDuration(limits.maxBackdate, language) })
     };
   }
   
@@ -3,12 +3,14 @@ export interface ApiKeyData {
   name: string;
   expiry: string; // ISO 8601
   created: string; // ISO 8601
+  schemaVersion?: number; // see migrations.ts; absent on records written before versioning
 }
 
 export interface ChatAuthData {
   api_key_hash: string;
   authenticated_at: string; // ISO 8601
   authenticated_by: User;
+  schemaVersion?: number; // see migrations.ts; absent on records written before versioning
 }
 
 export interface RateLimitData {
@@ -20,14 +22,54 @@ export interface RateLimitData {
 
 // Fasting Types
 export interface UserFastingData {
+  schemaVersion?: number; // see migrations.ts; absent on records written before versioning
   timezone: string; // IANA timezone string, default: "Europe/Paris"
+  weekStart?: WeekStart; // default: "monday"
+  language?: Language; // set with /language; otherwise follows the Telegram client
+  defaultGoal?: FastingGoal;
   currentFast?: CurrentFast;
-  history: FastEntry[];
+  history: FastEntry[]; // completed fasts loaded from the monthly shards, oldest first
+  achievements?: EarnedAchievement[];
+  longestStreak?: number; // days; kept up to date on save so ending a fast need not load every shard
+  longestGoalStreak?: number;
+  limits?: Partial<FastingLimits>; // personal overrides of the deployment limits, set with /limits
+  historyShards?: Record<string, HistoryShardSummary>; // UTC month (YYYY-MM) of endedAt → shard summary
+}
+
+// Completed fasts live in `user:<id>:fasts:<YYYY-MM>`; the profile under `user:<id>` keeps one summary per shard
+export interface HistoryShardSummary {
+  count: number;
+  totalDuration: number; // milliseconds
+  longestDuration: number; // milliseconds
+  firstEndedAt: string; // ISO 8601
+}
+
+// Durations in milliseconds. Deployment defaults come from Env (MAX_BACKDATE_DAYS, MAX_FAST_HOURS, MIN_FAST_HOURS)
+export interface FastingLimits {
+  maxBackdate: number; // how far in the past /f and /end may place a time
+  maxFastDuration: number; // longest plausible fast
+  minFastDuration: number; // shorter fasts stay in history but are left out of period statistics
+}
+
+export interface EarnedAchievement {
+  id: string; // see ACHIEVEMENTS in fasting.ts
+  earnedAt: string; // ISO 8601
+}
+
+export type WeekStart = 'monday' | 'sunday';
+
+export type Language = 'en' | 'pl'; // see the catalogs in i18n.ts
+
+export interface FastingGoal {
+  protocol: string; // e.g. "16:8", "omad", "18h"
+  targetDuration: number; // milliseconds
 }
 
 export interface CurrentFast {
   startedAt: string; // ISO 8601
   startedBy: User;
+  goal?: FastingGoal;
+  note?: string;
 }
 
 export interface FastEntry {
@@ -35,6 +77,28 @@ export interface FastEntry {
   endedAt: string; // ISO 8601
   duration: number; // milliseconds
   endedBy: User;
+  goal?: FastingGoal;
+  note?: string;
+  ratings?: FastRatings;
+}
+
+// Weight Types
+export type WeightUnit = 'kg' | 'lb';
+
+export interface UserWeightData {
+  unit: WeightUnit; // display preference, entries are always stored in kg
+  entries: WeightEntry[]; // chronological
+}
+
+export interface WeightEntry {
+  recordedAt: string; // ISO 8601
+  weightKg: number;
+}
+
+export interface FastRatings {
+  hunger?: number; // 1-5
+  energy?: number; // 1-5
+  mood?: number; // 1-5
 }
 
 // Telegram Types (subset used)
@@ -68,6 +132,7 @@ export interface User {
   is_bot: boolean;
   first_name: string;
   username?: string;
+  language_code?: string; // IETF tag of the user's Telegram client, e.g. "pl" or "en-GB"
 }
 
 export interface Chat {
@@ -101,4 +166,8 @@ export interface Env {
   CHATS: KVNamespace;
   RATE_LIMITS: KVNamespace;
   FASTS: KVNamespace;
+  USER_FASTING?: DurableObjectNamespace; // per-user UserFastingObject; falls back to in-isolate serialisation when unbound
+  MAX_BACKDATE_DAYS?: string; // default 7
+  MAX_FAST_HOURS?: string; // default 336 (14 days)
+  MIN_FAST_HOURS?: string; // default 0, every fast counts in statistics
 }
\ No newline at end of file
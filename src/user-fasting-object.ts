@@ -0,0 +1,72 @@
+import { Env } from './types';
+import { applyFastingOperation, FastingOperation, FastingOperationResult, IDEMPOTENCY_TTL_MS } from './fasting';
+
+interface FastingOperationRequest {
+  operation: FastingOperation;
+  idempotencyKey?: string;
+}
+
+interface StoredOperationResult {
+  result: FastingOperationResult;
+  storedAt: number; // epoch milliseconds
+}
+
+const IDEMPOTENCY_PREFIX = 'op:';
+
+// One instance per user (idFromName(`user:<id>`)); it applies the user's fasting operations one at a time
+// and remembers recent results by idempotency key so retried updates are not applied twice.
+export class UserFastingObject implements DurableObject {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    const { operation, idempotencyKey } = await request.json<FastingOperationRequest>();
+    const result = await this.enqueue(() => this.run(operation, idempotencyKey));
+    return Response.json(result);
+  }
+
+  async alarm(): Promise<void> {
+    const stored = await this.state.storage.list<StoredOperationResult>({ prefix: IDEMPOTENCY_PREFIX });
+    const expired = [...stored.entries()]
+      .filter(([, entry]) => Date.now() - entry.storedAt >= IDEMPOTENCY_TTL_MS)
+      .map(([key]) => key);
+    if (expired.length > 0) {
+      await this.state.storage.delete(expired);
+    }
+    if (stored.size > expired.length) {
+      await this.state.storage.setAlarm(Date.now() + IDEMPOTENCY_TTL_MS);
+    }
+  }
+
+  private async run(operation: FastingOperation, idempotencyKey?: string): Promise<FastingOperationResult> {
+    const storageKey = idempotencyKey ? `${IDEMPOTENCY_PREFIX}${idempotencyKey}` : null;
+    if (storageKey) {
+      const previous = await this.state.storage.get<StoredOperationResult>(storageKey);
+      if (previous && Date.now() - previous.storedAt < IDEMPOTENCY_TTL_MS) {
+        return previous.result;
+      }
+    }
+
+    const result = await applyFastingOperation(operation, this.env);
+
+    if (storageKey) {
+      await this.state.storage.put(storageKey, { result, storedAt: Date.now() });
+      if (await this.state.storage.getAlarm() === null) {
+        await this.state.storage.setAlarm(Date.now() + IDEMPOTENCY_TTL_MS);
+      }
+    }
+    return result;
+  }
+
+  // Storage calls keep the input gate closed, but KV reads and writes do not; queue explicitly
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.catch(() => undefined).then(task);
+    this.queue = next;
+    return next;
+  }
+}
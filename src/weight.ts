@@ -0,0 +1,206 @@
+import { Env, UserWeightData, WeightEntry, WeightUnit, Language } from './types';
+import { getLocalDateKey, formatDateInTimezone, runFastingOperation } from './fasting';
+import { t, formatNumber, DEFAULT_LANGUAGE } from './i18n';
+
+const KG_PER_LB = 0.45359237;
+const MIN_WEIGHT_KG = 20;
+const MAX_WEIGHT_KG = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ONE_DECIMAL: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1, useGrouping: false };
+
+export interface WeightSummary {
+  latest: WeightEntry | null;
+  average7Days: number | null; // in kg
+  average30Days: number | null; // in kg
+  changeThisMonth: number | null; // in kg, relative to the last weight before the month started
+}
+
+export interface LogWeightResult { success: boolean; entry?: WeightEntry; weightData: UserWeightData; error?: string }
+export interface WeightUnitResult { success: boolean; weightData: UserWeightData }
+
+export interface ParsedWeight {
+  weightKg: number;
+  unit: WeightUnit;
+}
+
+export async function getUserWeightData(userId: number, env: Env): Promise<UserWeightData> {
+  const key = `user:${userId}:weights`;
+  const data = await env.FASTS.get(key);
+  
+  if (!data) {
+    return {
+      unit: 'kg',
+      entries: []
+    };
+  }
+  
+  return JSON.parse(data);
+}
+
+export async function saveUserWeightData(userId: number, data: UserWeightData, env: Env): Promise<void> {
+  const key = `user:${userId}:weights`;
+  await env.FASTS.put(key, JSON.stringify(data));
+}
+
+// Weights are changed through the user's Durable Object like fasts, so retried updates and concurrent /weight calls
+// neither add an entry twice nor lose one
+export async function logWeight(userId: number, weightKg: number, env: Env, recordedAt: Date = new Date(), idempotencyKey?: string, language: Language = DEFAULT_LANGUAGE): Promise<LogWeightResult> {
+  return await runFastingOperation({ type: 'weight', userId, language, weightKg, recordedAt: recordedAt.toISOString() }, env, idempotencyKey) as LogWeightResult;
+}
+
+export async function applyLogWeight(userId: number, weightKg: number, env: Env, recordedAt: Date, language: Language): Promise<LogWeightResult> {
+  const weightData = await getUserWeightData(userId, env);
+  
+  if (weightKg < MIN_WEIGHT_KG || weightKg > MAX_WEIGHT_KG) {
+    return {
+      success: false,
+      weightData,
+      error: t(language, 'weight.outOfRange', { min: formatWeight(MIN_WEIGHT_KG, weightData.unit, language), max: formatWeight(MAX_WEIGHT_KG, weightData.unit, language) })
+    };
+  }
+  
+  const entry: WeightEntry = {
+    recordedAt: recordedAt.toISOString(),
+    weightKg: Math.round(weightKg * 100) / 100
+  };
+  
+  const insertAt = weightData.entries.findIndex(existing => new Date(existing.recordedAt) > recordedAt);
+  if (insertAt === -1) {
+    weightData.entries.push(entry);
+  } else {
+    weightData.entries.splice(insertAt, 0, entry);
+  }
+  
+  await saveUserWeightData(userId, weightData, env);
+  
+  return { success: true, entry, weightData };
+}
+
+export async function setWeightUnit(userId: number, unit: WeightUnit, env: Env, idempotencyKey?: string): Promise<WeightUnitResult> {
+  return await runFastingOperation({ type: 'weightUnit', userId, unit }, env, idempotencyKey) as WeightUnitResult;
+}
+
+export async function applySetWeightUnit(userId: number, unit: WeightUnit, env: Env): Promise<WeightUnitResult> {
+  const weightData = await getUserWeightData(userId, env);
+  weightData.unit = unit;
+  
+  await saveUserWeightData(userId, weightData, env);
+  
+  return { success: true, weightData };
+}
+
+export function parseWeightUnit(input: string): WeightUnit | null {
+  const normalized = input.trim().toLowerCase();
+  if (normalized === 'kg' || normalized === 'kgs') {
+    return 'kg';
+  }
+  if (normalized === 'lb' || normalized === 'lbs') {
+    return 'lb';
+  }
+  return null;
+}
+
+// Accepts "81.4", "81,4", "81.4kg" or "179.5 lb"; without a unit the user's preference applies
+export function parseWeight(input: string, defaultUnit: WeightUnit): ParsedWeight | null {
+  const match = input.trim().toLowerCase().match(/^(\d{1,3}(?:[.,]\d{1,2})?)\s*(kg|kgs|lb|lbs)?$/);
+  if (!match?.[1]) {
+    return null;
+  }
+  
+  const value = parseFloat(match[1].replace(',', '.'));
+  const unit = match[2] ? parseWeightUnit(match[2]) ?? defaultUnit : defaultUnit;
+  
+  return {
+    weightKg: unit === 'lb' ? value * KG_PER_LB : value,
+    unit
+  };
+}
+
+export function convertFromKg(weightKg: number, unit: WeightUnit): number {
+  return unit === 'lb' ? weightKg / KG_PER_LB : weightKg;
+}
+
+export function formatWeight(weightKg: number, unit: WeightUnit, language: Language = DEFAULT_LANGUAGE): string {
+  return `${formatNumber(convertFromKg(weightKg, unit), language, ONE_DECIMAL)} ${unit}`;
+}
+
+export function formatWeightChange(changeKg: number, unit: WeightUnit, language: Language = DEFAULT_LANGUAGE): string {
+  const value = convertFromKg(changeKg, unit);
+  // Round first so tiny changes don't show as "-0.0"
+  const rounded = Math.round(value * 10) / 10;
+  if (rounded === 0) {
+    return `±${formatNumber(0, language, ONE_DECIMAL)} ${unit}`;
+  }
+  return `${rounded > 0 ? '+' : '−'}${formatNumber(Math.abs(rounded), language, ONE_DECIMAL)} ${unit}`;
+}
+
+export function getWeightSummary(entries: WeightEntry[], timezone: string, now: Date = new Date()): WeightSummary {
+  const latest = entries[entries.length - 1] ?? null;
+  if (!latest) {
+    return { latest: null, average7Days: null, average30Days: null, changeThisMonth: null };
+  }
+  
+  const currentMonth = getLocalDateKey(now.toISOString(), timezone).substring(0, 7);
+  const monthIndex = entries.findIndex(entry => getLocalDateKey(entry.recordedAt, timezone).substring(0, 7) >= currentMonth);
+  
+  let changeThisMonth: number | null = null;
+  if (monthIndex !== -1) {
+    // Compare against the last weight before the month started, or the first one logged this month
+    const baseline = entries[monthIndex - 1] ?? entries[monthIndex];
+    if (baseline) {
+      changeThisMonth = latest.weightKg - baseline.weightKg;
+    }
+  }
+  
+  return {
+    latest,
+    average7Days: getMovingAverage(entries, 7, now),
+    average30Days: getMovingAverage(entries, 30, now),
+    changeThisMonth
+  };
+}
+
+function getMovingAverage(entries: WeightEntry[], days: number, now: Date): number | null {
+  const since = now.getTime() - days * DAY_MS;
+  const window = entries.filter(entry => {
+    const time = new Date(entry.recordedAt).getTime();
+    return time >= since && time <= now.getTime();
+  });
+  
+  if (window.length === 0) {
+    return null;
+  }
+  return window.reduce((sum, entry) => sum + entry.weightKg, 0) / window.length;
+}
+
+export function formatWeightSummary(summary: WeightSummary, unit: WeightUnit, timezone: string, language: Language = DEFAULT_LANGUAGE): string {
+  if (!summary.latest) {
+    return t(language, 'weight.none');
+  }
+  
+  const lines = [t(language, 'weight.last', {
+    weight: formatWeight(summary.latest.weightKg, unit, language),
+    date: formatDateInTimezone(summary.latest.recordedAt, timezone, language)
+  })];
+  if (summary.average7Days !== null) {
+    lines.push(t(language, 'weight.average7', { weight: formatWeight(summary.average7Days, unit, language) }));
+  }
+  if (summary.average30Days !== null) {
+    lines.push(t(language, 'weight.average30', { weight: formatWeight(summary.average30Days, unit, language) }));
+  }
+  if (summary.changeThisMonth !== null) {
+    lines.push(t(language, 'weight.sinceMonthStart', { change: formatWeightChange(summary.changeThisMonth, unit, language) }));
+  }
+  
+  return lines.join('\n');
+}
+
+export function formatMonthlyWeightLine(summary: WeightSummary, unit: WeightUnit, language: Language = DEFAULT_LANGUAGE): string {
+  if (!summary.latest || summary.changeThisMonth === null) {
+    return '';
+  }
+  return t(language, 'weight.monthLine', {
+    weight: formatWeight(summary.latest.weightKg, unit, language),
+    change: formatWeightChange(summary.changeThisMonth, unit, language)
+  });
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { evaluateAchievements, isPersonalRecord, formatNewAchievements, formatBadgeList } from '../src/fasting';
+import { routeCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1515, is_bot: false, first_name: 'Ada', username: 'ada' };
+const goal = { protocol: '16:8', targetDuration: 16 * HOUR };
+
+function fast(endedAt: string, hours: number, withGoal: boolean = false): FastEntry {
+  const entry: FastEntry = {
+    startedAt: new Date(new Date(endedAt).getTime() - hours * HOUR).toISOString(),
+    endedAt,
+    duration: hours * HOUR,
+    endedBy: user
+  };
+  if (withGoal) {
+    entry.goal = goal;
+  }
+  return entry;
+}
+
+describe('Achievements', () => {
+  const now = new Date('2025-08-20T12:00:00.000Z');
+
+  it('awards each badge only once', () => {
+    const userData: UserFastingData = { timezone: 'UTC', history: [fast('2025-08-19T12:00:00.000Z', 16)] };
+
+    expect(evaluateAchievements(userData, now).map(achievement => achievement.id)).toEqual(['first_fast']);
+    expect(userData.achievements).toEqual([{ id: 'first_fast', earnedAt: now.toISOString() }]);
+    expect(evaluateAchievements(userData, now)).toEqual([]);
+  });
+
+  it('tracks duration, fast count and lifetime hour badges', () => {
+    const history = Array.from({ length: 10 }, (_, index) => fast(`2025-08-${String(index + 1).padStart(2, '0')}T12:00:00.000Z`, 12));
+    history.push(fast('2025-08-12T12:00:00.000Z', 26));
+    const userData: UserFastingData = { timezone: 'UTC', history };
+
+    expect(evaluateAchievements(userData, now).map(achievement => achievement.id))
+      .toEqual(['first_fast', 'first_24h', 'fasts_10', 'hours_100']);
+  });
+
+  it('requires four consecutive weeks with every goal met', () => {
+    const history = [
+      fast('2025-07-29T12:00:00.000Z', 17, true),
+      fast('2025-08-05T12:00:00.000Z', 16, true),
+      fast('2025-08-12T12:00:00.000Z', 18, true),
+      fast('2025-08-13T12:00:00.000Z', 14, true),
+      fast('2025-08-19T12:00:00.000Z', 20, true)
+    ];
+    const missed: UserFastingData = { timezone: 'UTC', history };
+    expect(evaluateAchievements(missed, now).map(achievement => achievement.id)).not.toContain('goal_weeks_4');
+
+    const met: UserFastingData = { timezone: 'UTC', history: history.filter(entry => entry.duration !== 14 * HOUR) };
+    expect(evaluateAchievements(met, now).map(achievement => achievement.id)).toContain('goal_weeks_4');
+  });
+
+  it('detects personal records and formats announcements', () => {
+    const previous = fast('2025-08-18T12:00:00.000Z', 16);
+    const longer = fast('2025-08-19T12:00:00.000Z', 18);
+    expect(isPersonalRecord({ timezone: 'UTC', history: [previous] }, longer)).toBe(true);
+    expect(isPersonalRecord({ timezone: 'UTC', history: [longer] }, previous)).toBe(false);
+    expect(isPersonalRecord({ timezone: 'UTC', history: [] }, previous)).toBe(false);
+
+    const [firstFast] = evaluateAchievements({ timezone: 'UTC', history: [previous] }, now);
+    expect(formatNewAchievements([firstFast!], true, 18 * HOUR)).toBe(
+      '🏆 New personal record: 18h is your longest fast ever!\n🏅 Badge unlocked: 🐣 First fast'
+    );
+    expect(formatNewAchievements([], false, 18 * HOUR)).toBe('');
+  });
+
+  it('lists earned and locked badges', () => {
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      history: [fast('2025-08-19T12:00:00.000Z', 16)],
+      achievements: [{ id: 'first_fast', earnedAt: '2025-08-19T12:00:00.000Z' }]
+    };
+
+    const text = formatBadgeList(userData);
+    expect(text).toContain('🏅 Your badges (1/10)');
+    expect(text).toContain('🏆 Longest fast: 16h');
+    expect(text).toContain('🐣 First fast — 19 Aug 2025');
+    expect(text).toContain('🔒 Still to earn:\n⏳ First 24h fast — Complete a fast of 24 hours or more');
+  });
+});
+
+describe('Achievement announcements', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 1515;
+  const messageId = 3;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:badges',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:badges', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 30 * 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function startFastAt(startedAt: string): Promise<void> {
+    const userData: UserFastingData = JSON.parse(await fasts.get(`user:${user.id}`) ?? '{"timezone":"UTC","history":[]}');
+    userData.currentFast = { startedAt, startedBy: user };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  }
+
+  it('announces new badges and records when a fast ends, then lists them', async () => {
+    await startFastAt('2025-08-19T20:00:00.000Z');
+    const first = await routeCommand('end', chatId, user, messageId, '/end', env);
+    expect(first!.text).toContain('\n\n🏅 Badge unlocked: 🐣 First fast');
+    expect(first!.text).not.toContain('personal record');
+
+    vi.setSystemTime(new Date('2025-08-21T20:00:00.000Z'));
+    await startFastAt('2025-08-21T02:00:00.000Z');
+    const second = await routeCommand('end', chatId, user, messageId, '/end', env);
+    expect(second!.text).toContain('\n\n🏆 New personal record: 18h is your longest fast ever!');
+    expect(second!.text).not.toContain('First fast');
+
+    const badges = await routeCommand('badges', chatId, user, messageId, '/badges', env);
+    expect(badges!.text).toContain('🏅 Your badges (1/10)');
+    expect(badges!.text).toContain('🐣 First fast — 20 Aug 2025');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { routeCallback } from '../src/callbacks';
+import { getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+// 2025-08-20T18:00:00Z in minutes since the epoch
+const NOW_MINUTES = 29261880;
+
+describe('Adjust time keyboard', () => {
+  let env: Env;
+  let fasts: MockKV;
+  const chatId = 6060;
+  const messageId = 21;
+  const user: User = { id: 606, is_bot: false, first_name: 'Ravi', username: 'ravi' };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    const apiKeys = new MockKV();
+    const chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'Europe/Paris', history: [] };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCallback(data: string, id: string = 'cbq-adjust'): CallbackQuery {
+    return {
+      id,
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  async function startFastAt(startedAt: string): Promise<void> {
+    const userData: UserFastingData = { timezone: 'Europe/Paris', history: [], currentFast: { startedAt, startedBy: user } };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  }
+
+  it('offers an adjust button next to start and end', async () => {
+    const started = await routeCallback(makeCallback('start_fast'), env);
+    expect(started.editMessage?.newKeyboard?.inline_keyboard[0]).toEqual([
+      { text: '🛑 End Fast', callback_data: 'end_fast' },
+      { text: '🕑 Adjust time', callback_data: 'adjust_end' }
+    ]);
+  });
+
+  it('opens a keyboard with a preview of the current time', async () => {
+    const res = await routeCallback(makeCallback('adjust_start'), env);
+    expect(res.editMessage?.newText).toContain('🕑 Start your fast at 20:00 (now)');
+
+    const rows = res.editMessage!.newKeyboard!.inline_keyboard;
+    expect(rows[0]).toEqual([
+      { text: '−15m', callback_data: `adjust_start_${NOW_MINUTES - 15}` },
+      { text: '−30m', callback_data: `adjust_start_${NOW_MINUTES - 30}` },
+      { text: '−1h', callback_data: `adjust_start_${NOW_MINUTES - 60}` },
+      { text: '−2h', callback_data: `adjust_start_${NOW_MINUTES - 120}` }
+    ]);
+    expect(rows[1]?.map(button => button.callback_data)).toEqual(['adjust_start_custom', 'adjust_start_cancel']);
+    expect(rows[2]).toEqual([{ text: '✅ Start at 20:00', callback_data: `adjust_start_ok_${NOW_MINUTES}` }]);
+  });
+
+  it('steps the previewed time back and starts the fast on confirm', async () => {
+    const stepped = await routeCallback(makeCallback(`adjust_start_${NOW_MINUTES - 45}`), env);
+    expect(stepped.editMessage?.newText).toContain('🕑 Start your fast at 19:15 (45m ago)');
+    expect(stepped.editMessage?.newKeyboard?.inline_keyboard[0]?.[0]?.callback_data).toBe(`adjust_start_${NOW_MINUTES - 60}`);
+    expect(stepped.editMessage?.newKeyboard?.inline_keyboard[2]?.[0]?.callback_data).toBe(`adjust_start_ok_${NOW_MINUTES - 45}`);
+
+    const confirmed = await routeCallback(makeCallback(`adjust_start_ok_${NOW_MINUTES - 45}`), env);
+    expect(confirmed.editMessage?.newText).toBe('✅ Fast started at 19:15');
+    expect((await getUserFastingData(user.id, env, 'all')).currentFast?.startedAt).toBe('2025-08-20T17:15:00.000Z');
+  });
+
+  it('shows the resulting length and ends the fast at the chosen time', async () => {
+    await startFastAt('2025-08-20T02:00:00.000Z');
+
+    const stepped = await routeCallback(makeCallback(`adjust_end_${NOW_MINUTES - 90}`), env);
+    expect(stepped.editMessage?.newText).toContain('🕑 End your fast at 18:30 (1h 30m ago)');
+    expect(stepped.editMessage?.newText).toContain('⏱️ Your fast will have lasted 14h 30m');
+
+    const confirmed = await routeCallback(makeCallback(`adjust_end_ok_${NOW_MINUTES - 90}`), env);
+    expect(confirmed.editMessage?.newText).toContain('You fasted for 14h 30m');
+    expect((await getUserFastingData(user.id, env, 'all')).history[0]?.endedAt).toBe('2025-08-20T16:30:00.000Z');
+  });
+
+  it('hides steps that would end the fast before it started', async () => {
+    await startFastAt('2025-08-20T17:20:00.000Z');
+
+    const res = await routeCallback(makeCallback('adjust_end'), env);
+    expect(res.editMessage?.newKeyboard?.inline_keyboard[0]?.map(button => button.text)).toEqual(['−15m', '−30m']);
+
+    const invalid = await routeCallback(makeCallback(`adjust_end_ok_${NOW_MINUTES - 60}`), env);
+    expect(invalid.showAlert).toBe(true);
+    expect(invalid.text).toContain('Cannot end a fast before it started');
+    expect((await getUserFastingData(user.id, env, 'all')).currentFast).toBeDefined();
+  });
+
+  it('explains custom times and returns to the regular keyboard on cancel', async () => {
+    const custom = await routeCallback(makeCallback('adjust_end_custom'), env);
+    expect(custom.editMessage?.newText).toBe('✏️ Send the time you want, e.g. /end 20:30, /end -45m or /end yesterday 21:00');
+    expect(custom.editMessage?.newKeyboard?.inline_keyboard[0]?.[0]?.callback_data).toBe('adjust_end');
+
+    const canceled = await routeCallback(makeCallback('adjust_start_cancel'), env);
+    expect(canceled.editMessage?.newText).toBe('👌 Time adjustment canceled.');
+    expect(canceled.editMessage?.newKeyboard?.inline_keyboard[0]?.[0]?.callback_data).toBe('start_fast');
+  });
+
+  it('rejects adjusting an action that no longer applies', async () => {
+    const res = await routeCallback(makeCallback('adjust_end'), env);
+    expect(res).toEqual({ text: 'No active fast to end.', showAlert: true });
+
+    await startFastAt(new Date(Date.now() - 2 * HOUR).toISOString());
+    const confirmed = await routeCallback(makeCallback(`adjust_start_ok_${NOW_MINUTES - 15}`), env);
+    expect(confirmed.showAlert).toBe(true);
+    expect(confirmed.text).toContain('you already have a fast');
+  });
+});
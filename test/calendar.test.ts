@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getLocalDateTime,
+  getTimezoneOffset,
+  zonedTimeToInstant,
+  getWeekPeriod,
+  getMonthPeriod,
+  getFastsThisWeek,
+  getWeeklyStatistics,
+  getMonthlyStatistics
+} from '../src/fasting';
+import { handleWeekStartCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1010, is_bot: false, first_name: 'Kai' };
+
+function fastEndingAt(endedAt: string): FastEntry {
+  return {
+    startedAt: new Date(new Date(endedAt).getTime() - 16 * HOUR).toISOString(),
+    endedAt,
+    duration: 16 * HOUR,
+    endedBy: user
+  };
+}
+
+describe('Calendar layer', () => {
+  it('reads local date parts and offsets', () => {
+    const instant = new Date('2025-08-18T09:30:00.000Z');
+    expect(getLocalDateTime(instant, 'Pacific/Honolulu')).toEqual({ year: 2025, month: 8, day: 17, hour: 23, minute: 30, second: 0, weekday: 0 });
+    expect(getLocalDateTime(instant, 'Pacific/Tongatapu')).toMatchObject({ day: 18, hour: 22, weekday: 1 });
+    expect(getTimezoneOffset(instant, 'Pacific/Honolulu')).toBe(-10 * HOUR);
+    expect(getTimezoneOffset(instant, 'Pacific/Tongatapu')).toBe(13 * HOUR);
+    expect(getTimezoneOffset(instant, 'Not/AZone')).toBe(0);
+  });
+
+  it('converts wall-clock times across DST transitions', () => {
+    expect(zonedTimeToInstant(2025, 7, 1, 9, 0, 'Europe/Paris').toISOString()).toBe('2025-07-01T07:00:00.000Z');
+    // 02:30 does not exist on the spring-forward day; it moves past the gap
+    expect(zonedTimeToInstant(2025, 3, 9, 2, 30, 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    // 01:30 happens twice on the fall-back day; the earlier instant wins
+    expect(zonedTimeToInstant(2025, 11, 2, 1, 30, 'America/New_York').toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+
+  it('computes DST-correct week and month boundaries', () => {
+    const week = getWeekPeriod(new Date('2025-11-03T12:00:00.000Z'), 'America/New_York', 'sunday');
+    expect(week.start.toISOString()).toBe('2025-11-02T04:00:00.000Z');
+    expect(week.end.toISOString()).toBe('2025-11-09T05:00:00.000Z');
+
+    const october = getMonthPeriod(new Date('2025-10-15T00:00:00.000Z'), 'Pacific/Auckland');
+    expect(october.start.toISOString()).toBe('2025-09-30T11:00:00.000Z');
+    expect(october.end.toISOString()).toBe('2025-10-31T11:00:00.000Z');
+
+    const december = getMonthPeriod(new Date('2025-12-31T12:00:00.000Z'), 'UTC');
+    expect(december.end.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  describe('UTC-10 (Pacific/Honolulu) around midnight', () => {
+    // Sunday 17 Aug, 23:30 local
+    const now = new Date('2025-08-18T09:30:00.000Z');
+
+    it('keeps late Sunday fasts in the Monday-based week that is ending', () => {
+      const week = getWeekPeriod(now, 'Pacific/Honolulu', 'monday');
+      expect(week.start.toISOString()).toBe('2025-08-11T10:00:00.000Z');
+      expect(week.end.toISOString()).toBe('2025-08-18T10:00:00.000Z');
+
+      // Ended Monday 11 Aug 23:00 local and Sunday 17 Aug 10:00 local
+      const history = [fastEndingAt('2025-08-11T09:00:00.000Z'), fastEndingAt('2025-08-17T20:00:00.000Z')];
+      expect(getFastsThisWeek(history, 'Pacific/Honolulu', 'monday', now)).toBe(1);
+      // A UTC-based week would already have started on Monday 18 Aug 00:00 UTC
+      expect(getFastsThisWeek(history, 'UTC', 'monday', now)).toBe(0);
+      expect(getWeeklyStatistics(history, 'Pacific/Honolulu', 'monday', now).totalFasts).toBe(1);
+    });
+
+    it('starts a Sunday-based week at local midnight', () => {
+      const week = getWeekPeriod(now, 'Pacific/Honolulu', 'sunday');
+      expect(week.start.toISOString()).toBe('2025-08-17T10:00:00.000Z');
+
+      const history = [fastEndingAt('2025-08-17T09:30:00.000Z'), fastEndingAt('2025-08-17T10:30:00.000Z')];
+      expect(getWeeklyStatistics(history, 'Pacific/Honolulu', 'sunday', now).totalFasts).toBe(1);
+    });
+
+    it('still counts the last evening of the month in that month', () => {
+      const monthEnd = new Date('2025-09-01T09:00:00.000Z'); // 31 Aug, 23:00 local
+      const history = [fastEndingAt('2025-08-01T09:00:00.000Z'), fastEndingAt('2025-09-01T08:00:00.000Z')];
+      expect(getMonthlyStatistics(history, 'Pacific/Honolulu', monthEnd).totalFasts).toBe(1);
+      expect(getMonthlyStatistics(history, 'Pacific/Honolulu', monthEnd).longestFast).toBe(16 * HOUR);
+      // In UTC it is already September, so only the second fast counts
+      expect(getMonthlyStatistics([history[0]!], 'UTC', monthEnd).totalFasts).toBe(0);
+    });
+  });
+
+  describe('UTC+13 (Pacific/Tongatapu) around midnight', () => {
+    // Monday 18 Aug, 00:30 local
+    const now = new Date('2025-08-17T11:30:00.000Z');
+
+    it('starts the new week at local Monday midnight', () => {
+      const week = getWeekPeriod(now, 'Pacific/Tongatapu', 'monday');
+      expect(week.start.toISOString()).toBe('2025-08-17T11:00:00.000Z');
+
+      // Ended Sunday 23:30 local: last week for the user, this week in UTC
+      const history = [fastEndingAt('2025-08-17T10:30:00.000Z'), fastEndingAt('2025-08-17T11:15:00.000Z')];
+      expect(getFastsThisWeek(history, 'Pacific/Tongatapu', 'monday', now)).toBe(1);
+      expect(getFastsThisWeek(history, 'UTC', 'monday', now)).toBe(2);
+    });
+
+    it('starts the new month at local midnight on the 1st', () => {
+      const monthStart = new Date('2025-08-31T11:30:00.000Z'); // 1 Sep, 00:30 local
+      const history = [fastEndingAt('2025-08-31T10:00:00.000Z'), fastEndingAt('2025-08-31T11:10:00.000Z')];
+      expect(getMonthlyStatistics(history, 'Pacific/Tongatapu', monthStart).totalFasts).toBe(1);
+      expect(getMonthlyStatistics(history, 'UTC', monthStart).totalFasts).toBe(2);
+    });
+  });
+});
+
+describe('/weekstart command', () => {
+  let env: Env;
+  let fasts: MockKV;
+  const chatId = 1111;
+  const messageId = 2;
+
+  beforeEach(async () => {
+    const chats = new MockKV();
+    const apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:week',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:week', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  it('shows, updates and validates the week start', async () => {
+    const shown = await handleWeekStartCommand(chatId, user, messageId, '/weekstart', env);
+    expect(shown.text).toContain('📅 Your week starts on: Monday');
+
+    const updated = await handleWeekStartCommand(chatId, user, messageId, '/weekstart Sunday', env);
+    expect(updated.text).toBe('✅ Week start updated to: Sunday');
+    expect(JSON.parse((await fasts.get(`user:${user.id}`))!).weekStart).toBe('sunday');
+
+    const invalid = await handleWeekStartCommand(chatId, user, messageId, '/weekstart friday', env);
+    expect(invalid.text).toContain('Invalid week start: friday');
+  });
+});
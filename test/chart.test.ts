@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getFastingChartData, renderFastingChart, formatChartCaption } from '../src/chart';
+import { createIndexedImage, fillRect, encodePng, crc32 } from '../src/png';
+import { getStatisticsPeriod } from '../src/fasting';
+import { routeCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1414, is_bot: false, first_name: 'Iga', username: 'iga' };
+
+function createUserData(): UserFastingData {
+  return {
+    timezone: 'UTC',
+    defaultGoal: { protocol: '16:8', targetDuration: 16 * HOUR },
+    currentFast: { startedAt: '2025-08-20T04:00:00.000Z', startedBy: user },
+    history: [
+      { startedAt: '2025-08-13T20:00:00.000Z', endedAt: '2025-08-14T14:00:00.000Z', duration: 18 * HOUR, endedBy: user },
+      { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user }
+    ]
+  };
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readChunks(png: Uint8Array): Array<{ type: string; data: Uint8Array }> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Array<{ type: string; data: Uint8Array }> = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(png.subarray(offset + 4, offset + 8 + length)));
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('PNG encoder', () => {
+  it('computes standard CRC-32 values', () => {
+    expect(crc32(new TextEncoder().encode('IEND'))).toBe(0xae426082);
+  });
+
+  it('encodes an indexed image with valid chunks and scanlines', async () => {
+    const image = createIndexedImage(4, 2, [[255, 255, 255], [0, 0, 0]]);
+    fillRect(image, 1, 0, 2, 2, 1);
+
+    const png = await encodePng(image);
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const chunks = readChunks(png);
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'PLTE', 'IDAT', 'IEND']);
+    expect([...chunks[0]!.data]).toEqual([0, 0, 0, 4, 0, 0, 0, 2, 8, 3, 0, 0, 0]);
+    expect([...chunks[1]!.data]).toEqual([255, 255, 255, 0, 0, 0]);
+    expect([...await inflate(chunks[2]!.data)]).toEqual([0, 0, 1, 1, 0, 0, 0, 1, 1, 0]);
+  });
+});
+
+describe('Fasting chart', () => {
+  const now = new Date('2025-08-20T12:00:00.000Z'); // Wednesday
+
+  it('collects daily hours, a rolling average and the goal line', () => {
+    const userData = createUserData();
+    const data = getFastingChartData(userData, getStatisticsPeriod('week', now, 'UTC'), now);
+
+    expect(data.dailyHours).toEqual([4, 12, 8, 0, 0, 0, 0]);
+    expect(data.rollingAverage.map(hours => Math.round(hours * 100) / 100)).toEqual([3.14, 4.86, 5.43]);
+    expect(data.goalHours).toBe(16);
+    expect(data.ticks.map(tick => tick.label)).toEqual(['18', '19', '20', '21', '22', '23', '24']);
+  });
+
+  it('labels month and year charts sparsely', () => {
+    const userData = createUserData();
+    const month = getFastingChartData(userData, getStatisticsPeriod('month', now, 'UTC'), now);
+    expect(month.ticks.map(tick => tick.label)).toEqual(['1', '5', '10', '15', '20', '25', '30']);
+
+    const year = getFastingChartData(userData, getStatisticsPeriod('year', now, 'UTC'), now);
+    expect(year.dailyHours).toHaveLength(365);
+    expect(year.ticks.map(tick => tick.label)).toEqual(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12']);
+  });
+
+  it('renders an 800×400 PNG and a caption with the legend', async () => {
+    const data = getFastingChartData(createUserData(), getStatisticsPeriod('week', now, 'UTC'), now);
+    const png = await renderFastingChart(data);
+    const header = readChunks(png)[0]!.data;
+    expect(new DataView(header.buffer, header.byteOffset).getUint32(0)).toBe(800);
+    expect(new DataView(header.buffer, header.byteOffset).getUint32(4)).toBe(400);
+
+    expect(formatChartCaption("📅 This Week's Fasting Summary", data)).toBe(
+      "📅 This Week's Fasting Summary\n\n" +
+      '🟦 Fasting hours per day (🟩 goal met)\n🟧 7-day average\n🟥 Goal: 16h\n\n' +
+      '⏰ Total: 24h • 📊 Daily average: 8h'
+    );
+  });
+});
+
+describe('/chart command', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 1414;
+  const messageId = 6;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:chart',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:chart', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    await fasts.put(`user:${user.id}`, JSON.stringify(createUserData()));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the weekly chart as a photo by default', async () => {
+    const res = await routeCommand('chart', chatId, user, messageId, '/chart', env);
+    expect(res!.photo).toBeInstanceOf(Uint8Array);
+    expect([...res!.photo!.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+    expect(res!.text).toContain("📅 This Week's Fasting Summary");
+    expect(res!.replyToMessageId).toBe(messageId);
+  });
+
+  it('supports month and year charts', async () => {
+    const month = await routeCommand('chart', chatId, user, messageId, '/chart month', env);
+    expect(month!.text).toContain("📊 This Month's Fasting Summary");
+    expect(month!.text).toContain('⏰ Total: 42h');
+
+    const year = await routeCommand('chart', chatId, user, messageId, '/chart year', env);
+    expect(year!.text).toContain('📆 2025 Fasting Summary');
+    expect(year!.photo).toBeDefined();
+  });
+
+  it('rejects unknown periods and explains empty periods', async () => {
+    const invalid = await routeCommand('chart', chatId, user, messageId, '/chart decade', env);
+    expect(invalid!.text).toBe('❌ Unknown chart period: decade. Use /chart week, /chart month or /chart year');
+
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history: [] }));
+    const empty = await routeCommand('chart', chatId, user, messageId, '/chart', env);
+    expect(empty!.photo).toBeUndefined();
+    expect(empty!.text).toBe("📅 This Week's Fasting Summary\n\nNo fasting recorded in this period yet.");
+  });
+});
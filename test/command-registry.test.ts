@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { COMMANDS, findCommand, formatHelp, getMenuCommands, getCommandMenus } from '../src/command-registry';
+import { routeCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User } from '../src/types';
+
+describe('Command registry', () => {
+  it('resolves commands by name and alias', () => {
+    expect(findCommand('f')?.name).toBe('fast');
+    expect(findCommand('e')?.name).toBe('end');
+    expect(findCommand('history')?.name).toBe('history');
+    expect(findCommand('unknown')).toBeUndefined();
+  });
+
+  it('lists every command with its aliases in /help', () => {
+    const help = formatHelp('en');
+    expect(help.startsWith('📖 Available commands:\n\n/fast, /f — Start a fast, e.g. /f or /f -30m 16:8\n/end, /e — End your fast')).toBe(true);
+    expect(help.split('\n')).toHaveLength(COMMANDS.length + 2);
+
+    expect(formatHelp('pl')).toContain('/help — Lista wszystkich poleceń');
+  });
+
+  it('keeps group menus to the everyday commands', () => {
+    const group = getMenuCommands('group', 'en').map(command => command.command);
+    expect(group).toEqual(['fast', 'end', 'cancel', 'stats', 'week', 'month', 'history', 'streak', 'help']);
+    expect(getMenuCommands('private', 'en')).toHaveLength(COMMANDS.length);
+    expect(getMenuCommands('private', 'pl')[0]).toEqual({ command: 'fast', description: 'Zacznij post, np. /f lub /f -30m 16:8' });
+  });
+
+  it('builds one menu per scope and language', () => {
+    const menus = getCommandMenus();
+    expect(menus.map(menu => [menu.scope?.type, menu.language_code])).toEqual([
+      ['all_private_chats', undefined],
+      ['all_private_chats', 'pl'],
+      ['all_group_chats', undefined],
+      ['all_group_chats', 'pl']
+    ]);
+    // Telegram rejects menu descriptions longer than 256 characters
+    for (const menu of menus) {
+      for (const command of menu.commands) {
+        expect(command.description.length).toBeLessThanOrEqual(256);
+      }
+    }
+  });
+});
+
+describe('/help', () => {
+  let env: Env;
+  const user: User = { id: 808, is_bot: false, first_name: 'Sam', language_code: 'pl' };
+
+  beforeEach(() => {
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: new MockKV() as any,
+      CHATS: new MockKV() as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: new MockKV() as any,
+    };
+  });
+
+  it('answers without authentication in the user language', async () => {
+    const result = await routeCommand('help', 8080, user, 12, '/help', env);
+    expect(result?.text).toBe(formatHelp('pl'));
+    expect(result?.replyToMessageId).toBe(12);
+  });
+
+  it('still routes aliases to their commands', async () => {
+    const result = await routeCommand('f', 8080, user, 12, '/f', env);
+    expect(result?.text).toBe('Najpierw uwierzytelnij się, wysyłając swój klucz API.');
+  });
+});
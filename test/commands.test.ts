@@ -278,7 +278,7 @@ describe('Commands Module', () => {
       expect(result.text).toContain('Invalid time format');
     });
 
-    it('should return error for natural language date format "yesterday 14:00"', async () => {
+    it('should accept natural language times like "yesterday 14:00"', async () => {
       const chatId = 12345;
       const messageId = 100;
       
@@ -300,9 +300,7 @@ describe('Commands Module', () => {
       
       const result = await handleFastCommand(chatId, testUser, messageId, env, '/f yesterday 14:00');
       
-      expect(result.text).toContain('❌');
-      expect(result.text).toContain('Invalid time format: yesterday 14:00');
-      expect(result.text).toContain('Use formats like: -2h, -30m, -1d, 14:00, 09:30');
+      expect(result.text).toContain('✅ Fast started at 14:00 (adjusted from your input)');
     });
   });
 
@@ -337,7 +335,7 @@ describe('Commands Module', () => {
       await mockChats.put(chatId.toString(), JSON.stringify(chatAuth));
       
       // Start a fast first
-      await handleFastCommand(chatId, testUser, messageId, env);
+      await handleFastCommand(chatId, testUser, messageId - 1, env);
       
       // Wait a bit for duration
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -376,7 +374,7 @@ describe('Commands Module', () => {
         await mockChats.put(chatId.toString(), JSON.stringify(chatAuth));
         
         // Start a fast first (at 10:00 AM Europe/Paris = 8:00 UTC, earlier than current 18:00 UTC)
-        await handleFastCommand(chatId, testUser, messageId, env, '/f 10:00');
+        await handleFastCommand(chatId, testUser, messageId - 1, env, '/f 10:00');
         
         // End with time adjustment (16:00 Europe/Paris = 14:00 UTC, which is after start but before current 18:00 UTC)
         const result = await handleEndCommand(chatId, testUser, messageId, env, '/e 16:00');
@@ -409,7 +407,7 @@ describe('Commands Module', () => {
       await mockChats.put(chatId.toString(), JSON.stringify(chatAuth));
       
       // Start a fast first
-      await handleFastCommand(chatId, testUser, messageId, env);
+      await handleFastCommand(chatId, testUser, messageId - 1, env);
       
       // Try to end with invalid time adjustment
       const result = await handleEndCommand(chatId, testUser, messageId, env, '/e invalid');
@@ -616,7 +614,7 @@ describe('Commands Module', () => {
       expect(fastResult!.replyMarkup).toBeDefined();
       
       // Test /f alias
-      const fResult = await routeCommand('f', chatId, testUser, messageId, '/f', env);
+      const fResult = await routeCommand('f', chatId, testUser, messageId + 1, '/f', env);
       expect(fResult).toBeTruthy();
       expect(fResult!.text).toContain("You've been fasting for");
       
@@ -624,12 +622,12 @@ describe('Commands Module', () => {
       await new Promise(resolve => setTimeout(resolve, 10));
       
       // Test /end command
-      const endResult = await routeCommand('end', chatId, testUser, messageId, '/end', env);
+      const endResult = await routeCommand('end', chatId, testUser, messageId + 2, '/end', env);
       expect(endResult).toBeTruthy();
       expect(endResult!.text).toContain('Great job! You fasted for');
       
       // Test /e alias
-      const eResult = await routeCommand('e', chatId, testUser, messageId, '/e', env);
+      const eResult = await routeCommand('e', chatId, testUser, messageId + 3, '/e', env);
       expect(eResult).toBeTruthy();
       expect(eResult!.text).toContain("You're not currently fasting");
     });
@@ -695,13 +693,14 @@ describe('Commands Module', () => {
       expect(result).toBeNull();
     });
 
-    it('should handle help command (unknown, should return null)', async () => {
+    it('should route help command without authentication', async () => {
       const chatId = 12345;
       const messageId = 100;
       
       const result = await routeCommand('help', chatId, testUser, messageId, '/help', env);
       
-      expect(result).toBeNull();
+      expect(result?.text).toContain('📖 Available commands:');
+      expect(result?.replyToMessageId).toBe(messageId);
     });
 
     it('should route week command correctly', async () => {
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getEatingWindows,
+  calculateEatingWindowStatistics,
+  getCurrentEatingWindowDuration,
+  formatEatingWindowSummary,
+  getWeeklyStatistics
+} from '../src/fasting';
+import { handleEndCommand, handleStatsCommand, handleWeekCommand, handleMonthCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 606, is_bot: false, first_name: 'Frank', username: 'frank' };
+
+function fast(startedAt: string, endedAt: string): FastEntry {
+  return {
+    startedAt,
+    endedAt,
+    duration: new Date(endedAt).getTime() - new Date(startedAt).getTime(),
+    endedBy: user
+  };
+}
+
+// 16:8 rhythm: eating windows of 8h, 6h and 10h
+const history: FastEntry[] = [
+  fast('2025-08-17T20:00:00.000Z', '2025-08-18T12:00:00.000Z'),
+  fast('2025-08-18T20:00:00.000Z', '2025-08-19T12:00:00.000Z'),
+  fast('2025-08-19T18:00:00.000Z', '2025-08-20T08:00:00.000Z'),
+  fast('2025-08-20T18:00:00.000Z', '2025-08-21T10:00:00.000Z')
+];
+
+describe('Eating windows', () => {
+  it('computes the gap between consecutive fasts', () => {
+    const windows = getEatingWindows(history);
+    expect(windows.map(window => window.duration)).toEqual([8 * HOUR, 6 * HOUR, 10 * HOUR]);
+    expect(windows[0]).toEqual({
+      startedAt: '2025-08-18T12:00:00.000Z',
+      endedAt: '2025-08-18T20:00:00.000Z',
+      duration: 8 * HOUR
+    });
+  });
+
+  it('orders fasts chronologically and skips gaps that are not eating windows', () => {
+    const windows = getEatingWindows([
+      history[1]!,
+      history[0]!,
+      fast('2025-09-10T20:00:00.000Z', '2025-09-11T12:00:00.000Z')
+    ]);
+    expect(windows.map(window => window.duration)).toEqual([8 * HOUR]);
+    expect(getEatingWindows([history[0]!])).toEqual([]);
+  });
+
+  it('summarizes average, shortest and longest windows', () => {
+    const stats = calculateEatingWindowStatistics(getEatingWindows(history));
+    expect(stats).toEqual({ totalWindows: 3, averageDuration: 8 * HOUR, shortestWindow: 6 * HOUR, longestWindow: 10 * HOUR });
+    expect(formatEatingWindowSummary(stats)).toBe('🍽 Eating window: avg 8h • shortest 6h • longest 10h');
+    expect(calculateEatingWindowStatistics([]).totalWindows).toBe(0);
+  });
+
+  it('measures the current eating window since the last fast ended', () => {
+    expect(getCurrentEatingWindowDuration(history, new Date('2025-08-21T12:30:00.000Z'))).toBe(2.5 * HOUR);
+    expect(getCurrentEatingWindowDuration([])).toBeNull();
+  });
+
+  it('includes eating windows in period statistics', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-21T12:00:00.000Z'));
+    try {
+      const stats = getWeeklyStatistics(history, 'UTC');
+      expect(stats.eatingWindows.totalWindows).toBe(3);
+      expect(stats.eatingWindows.averageDuration).toBe(8 * HOUR);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Eating window commands', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 7070;
+  const messageId = 4;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-21T13:15:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:eat',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:eat', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'UTC', history };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('/end shows how long the user has been eating', async () => {
+    const res = await handleEndCommand(chatId, user, messageId, env);
+    expect(res.text).toContain("You're not currently fasting. Your last fast was 16h");
+    expect(res.text).toContain("🍽 You've been eating for 3h 15m");
+  });
+
+  it('/stats, /week and /month show eating window statistics', async () => {
+    const summary = '🍽 Eating window: avg 8h • shortest 6h • longest 10h';
+
+    expect((await handleStatsCommand(chatId, user, messageId, env)).text).toContain(summary);
+    expect((await handleWeekCommand(chatId, user, messageId, env)).text).toContain(summary);
+    expect((await handleMonthCommand(chatId, user, messageId, env)).text).toContain(summary);
+  });
+});
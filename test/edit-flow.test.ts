@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleEditCommand, routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { encodeFastReference, getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Edit Flow', () => {
+  let env: Env;
+  let apiKeys: MockKV;
+  let chats: MockKV;
+  let fasts: MockKV;
+  const chatId = 9090;
+  const messageId = 12;
+  const user: User = { id: 303, is_bot: false, first_name: 'Carol', username: 'carol' };
+
+  // Two fasts: Aug 17 20:00 → Aug 18 12:00 and Aug 18 20:00 → Aug 19 12:00 (UTC)
+  const history: FastEntry[] = [
+    { startedAt: '2025-08-17T20:00:00.000Z', endedAt: '2025-08-18T12:00:00.000Z', duration: 16 * HOUR, endedBy: user },
+    { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user, goal: { protocol: '18:6', targetDuration: 18 * HOUR } }
+  ];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    apiKeys = new MockKV();
+    chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'UTC', history };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function loadHistory(): Promise<FastEntry[]> {
+    return (await getUserFastingData(user.id, env, 'all')).history;
+  }
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: 'cbq-edit',
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('lists recent fasts with edit buttons when called without arguments', async () => {
+    const res = await routeCommand('edit', chatId, user, messageId, '/edit', env);
+    expect(res!.text).toContain('✏️ Select a fast to edit:');
+    expect(res!.text).toContain('Or send: /edit <number> start|end <time>');
+    const kb = res!.replyMarkup!.inline_keyboard;
+    expect(kb[0]?.[0]?.callback_data).toBe(`edit_select_${encodeFastReference(1, history[1]!)}`);
+    expect(kb[1]?.[0]?.callback_data).toBe('edit_cancel');
+  });
+
+  it('shows edit instructions for the selected fast', async () => {
+    const res = await routeCallback(makeCallback(`edit_select_${encodeFastReference(0, history[0]!)}`), env);
+    expect(res.editMessage?.newText).toContain('✏️ Editing fast #2:');
+    expect(res.editMessage?.newText).toContain('Send /edit 2 start <time> or /edit 2 end <time>');
+  });
+
+  it('shifts the start of a fast with a relative adjustment and recomputes duration', async () => {
+    const res = await handleEditCommand(chatId, user, messageId, '/edit 1 start -2h', env);
+    expect(res.text).toContain('✅ Fast updated:');
+    expect(res.text).toContain('• Started: 18 Aug, 18:00');
+    expect(res.text).toContain('• Duration: 18h (was 16h)');
+    expect(res.text).toContain('🎯 Goal 18:6 (18h) met');
+
+    const stored = await loadHistory();
+    expect(stored[1]?.startedAt).toBe('2025-08-18T18:00:00.000Z');
+    expect(stored[1]?.duration).toBe(18 * HOUR);
+    expect(stored[1]?.goal?.protocol).toBe('18:6');
+  });
+
+  it('sets an absolute end time on the same day as the existing value', async () => {
+    const res = await handleEditCommand(chatId, user, messageId, '/edit 2 end 10:30', env);
+    expect(res.text).toContain('• Ended: 18 Aug, 10:30');
+
+    const stored = await loadHistory();
+    expect(stored[0]?.endedAt).toBe('2025-08-18T10:30:00.000Z');
+    expect(stored[0]?.duration).toBe(14.5 * HOUR);
+  });
+
+  it('rejects edits that overlap a neighbouring fast', async () => {
+    const res = await handleEditCommand(chatId, user, messageId, '/edit 1 start -10h', env);
+    expect(res.text).toBe('❌ Overlaps with your fast from 17 Aug, 20:00 to 18 Aug, 12:00');
+    expect((await loadHistory())[1]?.startedAt).toBe(history[1]!.startedAt);
+  });
+
+  it('rejects an end before the start', async () => {
+    const res = await handleEditCommand(chatId, user, messageId, '/edit 1 end -20h', env);
+    expect(res.text).toBe('❌ A fast must end after it started');
+  });
+
+  it('validates usage and fast number', async () => {
+    const usage = await handleEditCommand(chatId, user, messageId, '/edit 1 middle 10:00', env);
+    expect(usage.text).toContain('Usage: /edit <number> start|end <time>');
+
+    const outOfRange = await handleEditCommand(chatId, user, messageId, '/edit 5 start -1h', env);
+    expect(outOfRange.text).toBe('❌ Invalid fast number: 5. Choose between 1 and 2');
+  });
+});
@@ -46,7 +46,7 @@ describe('Fasting Module', () => {
 
   describe('getUserFastingData', () => {
     it('should return default data for new user', async () => {
-      const result = await getUserFastingData(testUser.id, env);
+      const result = await getUserFastingData(testUser.id, env, 'all');
       
       expect(result.timezone).toBe('Europe/Paris');
       expect(result.currentFast).toBeUndefined();
@@ -65,7 +65,7 @@ describe('Fasting Module', () => {
       
       await mockFasts.put(`user:${testUser.id}`, JSON.stringify(userData));
       
-      const result = await getUserFastingData(testUser.id, env);
+      const result = await getUserFastingData(testUser.id, env, 'all');
       
       expect(result.timezone).toBe('America/New_York');
       expect(result.currentFast?.startedAt).toBe('2024-01-01T10:00:00Z');
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { parseGoal, formatGoalLabel, getGoalProgress, isGoalMet } from '../src/goals';
+import { getWeeklyStatistics } from '../src/fasting';
+import { handleFastCommand, handleEndCommand, handleGoalCommand, handleWeekCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Goals Module', () => {
+  describe('parseGoal', () => {
+    it('parses named protocols case-insensitively', () => {
+      expect(parseGoal('16:8')).toEqual({ protocol: '16:8', targetDuration: 16 * HOUR });
+      expect(parseGoal('18:6')?.targetDuration).toBe(18 * HOUR);
+      expect(parseGoal('20:4')?.targetDuration).toBe(20 * HOUR);
+      expect(parseGoal('OMAD')).toEqual({ protocol: 'omad', targetDuration: 23 * HOUR });
+      expect(parseGoal('36h')).toEqual({ protocol: '36h', targetDuration: 36 * HOUR });
+    });
+
+    it('parses custom hour targets', () => {
+      expect(parseGoal('18h')).toEqual({ protocol: '18h', targetDuration: 18 * HOUR });
+      expect(parseGoal('72h')?.targetDuration).toBe(72 * HOUR);
+    });
+
+    it('rejects time adjustments and out-of-range values', () => {
+      expect(parseGoal('-2h')).toBeNull();
+      expect(parseGoal('+2h')).toBeNull();
+      expect(parseGoal('14:00')).toBeNull();
+      expect(parseGoal('0h')).toBeNull();
+      expect(parseGoal('200h')).toBeNull();
+      expect(parseGoal('')).toBeNull();
+    });
+  });
+
+  describe('formatGoalLabel', () => {
+    it('shows target hours for ratio protocols only', () => {
+      expect(formatGoalLabel({ protocol: '16:8', targetDuration: 16 * HOUR })).toBe('16:8 (16h)');
+      expect(formatGoalLabel({ protocol: 'omad', targetDuration: 23 * HOUR })).toBe('OMAD (23h)');
+      expect(formatGoalLabel({ protocol: '36h', targetDuration: 36 * HOUR })).toBe('36h');
+      expect(formatGoalLabel({ protocol: '18h', targetDuration: 18 * HOUR })).toBe('18h');
+    });
+  });
+
+  describe('getGoalProgress', () => {
+    it('reports percentage and remaining time', () => {
+      const progress = getGoalProgress(8 * HOUR, { protocol: '16:8', targetDuration: 16 * HOUR });
+      expect(progress.percent).toBe(50);
+      expect(progress.remaining).toBe(8 * HOUR);
+      expect(progress.met).toBe(false);
+    });
+
+    it('caps remaining time at zero once met', () => {
+      const progress = getGoalProgress(18 * HOUR, { protocol: '16:8', targetDuration: 16 * HOUR });
+      expect(progress.percent).toBe(112);
+      expect(progress.remaining).toBe(0);
+      expect(progress.met).toBe(true);
+    });
+  });
+
+  describe('isGoalMet and period statistics', () => {
+    const user: User = { id: 1, is_bot: false, first_name: 'Goal' };
+
+    it('counts fasts with goals and goals met', () => {
+      const now = new Date();
+      const history: FastEntry[] = [
+        { startedAt: now.toISOString(), endedAt: now.toISOString(), duration: 17 * HOUR, endedBy: user, goal: { protocol: '16:8', targetDuration: 16 * HOUR } },
+        { startedAt: now.toISOString(), endedAt: now.toISOString(), duration: 15 * HOUR, endedBy: user, goal: { protocol: '16:8', targetDuration: 16 * HOUR } },
+        { startedAt: now.toISOString(), endedAt: now.toISOString(), duration: 12 * HOUR, endedBy: user }
+      ];
+
+      expect(history.map(isGoalMet)).toEqual([true, false, false]);
+
+      const stats = getWeeklyStatistics(history, 'UTC');
+      expect(stats.fastsWithGoal).toBe(2);
+      expect(stats.goalsMet).toBe(1);
+    });
+  });
+});
+
+describe('Goal commands', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 5150;
+  const messageId = 1;
+  const user: User = { id: 77, is_bot: false, first_name: 'Goal', username: 'goal' };
+
+  beforeEach(async () => {
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:goal',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:goal', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  it('/goal sets, shows and clears the default protocol', async () => {
+    const set = await handleGoalCommand(chatId, user, messageId, '/goal 18:6', env);
+    expect(set.text).toBe('✅ Default goal updated to: 18:6 (18h)');
+
+    const show = await handleGoalCommand(chatId, user, messageId + 1, '/goal', env);
+    expect(show.text).toContain('Your default goal is: 18:6 (18h)');
+
+    const invalid = await handleGoalCommand(chatId, user, messageId + 2, '/goal forever', env);
+    expect(invalid.text).toContain('Invalid goal: forever');
+
+    const cleared = await handleGoalCommand(chatId, user, messageId + 3, '/goal off', env);
+    expect(cleared.text).toBe('✅ Default goal cleared');
+    const stored = JSON.parse((await fasts.get(`user:${user.id}`))!);
+    expect(stored.defaultGoal).toBeUndefined();
+  });
+
+  it('/f uses the default goal and /f <goal> overrides it', async () => {
+    await handleGoalCommand(chatId, user, messageId, '/goal 16:8', env);
+
+    const started = await handleFastCommand(chatId, user, messageId + 1, env, '/f omad');
+    expect(started.text).toContain('✅ Fast started at');
+    expect(started.text).toContain('🎯 Goal: OMAD (23h)');
+
+    const stored = JSON.parse((await fasts.get(`user:${user.id}`))!);
+    expect(stored.currentFast.goal).toEqual({ protocol: 'omad', targetDuration: 23 * HOUR });
+    expect(stored.defaultGoal.protocol).toBe('16:8');
+  });
+
+  it('/f <goal> combines with a time adjustment', async () => {
+    const started = await handleFastCommand(chatId, user, messageId, env, '/f 18h -2h');
+    expect(started.text).toContain('(adjusted from your input)');
+    expect(started.text).toContain('🎯 Goal: 18h');
+  });
+
+  it('/f <goal> during a fast updates the running goal and shows progress', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+    try {
+      await handleFastCommand(chatId, user, messageId, env, '/f -4h');
+
+      const updated = await handleFastCommand(chatId, user, messageId + 1, env, '/f 16:8');
+      expect(updated.text).toContain('Goal for your current fast set to 16:8 (16h)');
+      expect(updated.text).toContain('🎯 Goal 16:8 (16h): 25% — 12h to go');
+
+      const status = await handleFastCommand(chatId, user, messageId + 2, env, '/f');
+      expect(status.text).toContain("You've been fasting for 4h");
+      expect(status.text).toContain('🎯 Goal 16:8 (16h): 25%');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('/end reports whether the goal was met and /week counts it', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+    try {
+      await handleFastCommand(chatId, user, messageId, env, '/f 16:8 -17h');
+      const ended = await handleEndCommand(chatId, user, messageId + 1, env);
+      expect(ended.text).toContain('🎯 Goal 16:8 (16h) met (106%) ✅');
+
+      await handleFastCommand(chatId, user, messageId + 2, env, '/f 16:8 -30m');
+      vi.setSystemTime(new Date('2025-08-20T20:00:00.000Z'));
+      const missed = await handleEndCommand(chatId, user, messageId + 3, env);
+      expect(missed.text).toContain('🎯 Goal 16:8 (16h) missed — 15%, 13h 30m short');
+
+      const week = await handleWeekCommand(chatId, user, messageId + 4, env);
+      expect(week.text).toContain('🎯 Goals met: 1/2');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseMonthKey,
+  formatMonthKey,
+  shiftMonthKey,
+  getDailyFastingDurations,
+  getHeatmapSymbol,
+  formatCalendarHeatmap
+} from '../src/heatmap';
+import { routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1313, is_bot: false, first_name: 'Ola', username: 'ola' };
+
+describe('Calendar heatmap', () => {
+  const now = new Date('2025-08-20T12:00:00.000Z'); // Wednesday
+  const intervals = [{ startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z' }];
+
+  it('parses and shifts month keys', () => {
+    expect(parseMonthKey('2025-08')).toEqual({ year: 2025, month: 8 });
+    expect(parseMonthKey('2025-13')).toBeNull();
+    expect(parseMonthKey('August')).toBeNull();
+    expect(formatMonthKey(2025, 13)).toBe('2026-01');
+    expect(shiftMonthKey('2025-01', -1)).toBe('2024-12');
+    expect(shiftMonthKey('2025-12', 1)).toBe('2026-01');
+  });
+
+  it('splits fasts across the local days they cover', () => {
+    const utc = getDailyFastingDurations(intervals, '2025-08', 'UTC');
+    expect(utc.get(18)).toBe(4 * HOUR);
+    expect(utc.get(19)).toBe(12 * HOUR);
+
+    const paris = getDailyFastingDurations(intervals, '2025-08', 'Europe/Paris');
+    expect(paris.get(18)).toBe(2 * HOUR);
+    expect(paris.get(19)).toBe(14 * HOUR);
+
+    const september = getDailyFastingDurations(intervals, '2025-09', 'UTC');
+    expect(september.size).toBe(0);
+  });
+
+  it('maps durations to heatmap levels', () => {
+    expect(getHeatmapSymbol(0)).toBe('·');
+    expect(getHeatmapSymbol(4 * HOUR)).toBe('░');
+    expect(getHeatmapSymbol(12 * HOUR)).toBe('▒');
+    expect(getHeatmapSymbol(16 * HOUR)).toBe('▓');
+    expect(getHeatmapSymbol(22 * HOUR)).toBe('█');
+  });
+
+  it('lays out the month grid by week start and leaves future days blank', () => {
+    const durations = getDailyFastingDurations(intervals, '2025-08', 'UTC');
+
+    const monday = formatCalendarHeatmap('2025-08', durations, 'UTC', 'monday', now).split('\n');
+    expect(monday[0]).toBe('Mo  Tu  We  Th  Fr  Sa  Su');
+    expect(monday[1]).toBe(`${' '.repeat(17)}1·  2·  3·`);
+    expect(monday[4]).toBe('18░ 19▒ 20· 21  22  23  24');
+
+    const sunday = formatCalendarHeatmap('2025-08', durations, 'UTC', 'sunday', now).split('\n');
+    expect(sunday[0]).toBe('Su  Mo  Tu  We  Th  Fr  Sa');
+    expect(sunday[1]).toBe(`${' '.repeat(21)}1·  2·`);
+  });
+});
+
+describe('/calendar command', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 1313;
+  const messageId = 4;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:calendar',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:calendar', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      currentFast: { startedAt: '2025-08-20T04:00:00.000Z', startedBy: user },
+      history: [
+        {
+          startedAt: '2025-07-30T20:00:00.000Z',
+          endedAt: '2025-07-31T16:00:00.000Z',
+          duration: 20 * HOUR,
+          endedBy: user
+        },
+        {
+          startedAt: '2025-08-18T20:00:00.000Z',
+          endedAt: '2025-08-19T12:00:00.000Z',
+          duration: 16 * HOUR,
+          endedBy: user
+        }
+      ]
+    };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: 'cbq-calendar',
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('renders the current month including the running fast', async () => {
+    const res = await routeCommand('calendar', chatId, user, messageId, '/calendar', env);
+    expect(res!.parseMode).toBe('HTML');
+    expect(res!.text).toContain('📆 August 2025');
+    expect(res!.text).toContain('<pre>Mo  Tu  We  Th  Fr  Sa  Su');
+    expect(res!.text).toContain('18░ 19▒ 20░ 21');
+    expect(res!.text).toContain('Fasting days: 3 • Total: 24h');
+    expect(res!.replyMarkup!.inline_keyboard[0]?.map(button => button.callback_data)).toEqual(['cal_2025-07']);
+  });
+
+  it('escapes the legend for the HTML parse mode', async () => {
+    const res = await routeCommand('calendar', chatId, user, messageId, '/calendar', env);
+    expect(res!.text).toContain('· none  ░ &lt;12h  ▒ 12–16h  ▓ 16–20h  █ 20h+');
+    // The only markup left is the <pre> block around the grid
+    expect(res!.text.replace(/<\/?pre>/g, '')).not.toMatch(/[<>]/);
+  });
+
+  it('renders a past month with both navigation buttons', async () => {
+    const res = await routeCommand('calendar', chatId, user, messageId, '/calendar 2025-07', env);
+    expect(res!.text).toContain('📆 July 2025');
+    expect(res!.text).toContain('Fasting days: 2 • Total: 20h');
+    expect(res!.replyMarkup!.inline_keyboard[0]?.map(button => button.callback_data)).toEqual(['cal_2025-06', 'cal_2025-08']);
+  });
+
+  it('rejects invalid months', async () => {
+    const res = await routeCommand('calendar', chatId, user, messageId, '/calendar 2025-13', env);
+    expect(res!.text).toBe('❌ Invalid month: 2025-13. Use /calendar YYYY-MM');
+  });
+
+  it('steps between months via inline buttons', async () => {
+    const res = await routeCallback(makeCallback('cal_2025-07'), env);
+    expect(res.editMessage?.parseMode).toBe('HTML');
+    expect(res.editMessage?.newText).toContain('📆 July 2025');
+    expect(res.editMessage?.newKeyboard?.inline_keyboard[0]?.map(button => button.callback_data)).toEqual(['cal_2025-06', 'cal_2025-08']);
+  });
+});
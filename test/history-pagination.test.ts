@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseHistoryFilter, formatHistoryFilter, filterHistory, getFastTags } from '../src/fasting';
+import { handleHistoryCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1313, is_bot: false, first_name: 'Mia', username: 'mia' };
+
+function fast(endedAt: string, hours: number, note?: string): FastEntry {
+  const entry: FastEntry = {
+    startedAt: new Date(new Date(endedAt).getTime() - hours * HOUR).toISOString(),
+    endedAt,
+    duration: hours * HOUR,
+    endedBy: user
+  };
+  if (note) {
+    entry.note = note;
+  }
+  return entry;
+}
+
+describe('History filters', () => {
+  const history = [
+    fast('2026-08-30T23:30:00.000Z', 22, 'Long one #water'),
+    fast('2026-09-05T12:00:00.000Z', 16, 'Coffee only #Coffee'),
+    fast('2026-09-10T12:00:00.000Z', 24, '#water #electrolytes'),
+    fast('2026-10-01T12:00:00.000Z', 18)
+  ];
+
+  it('parses duration, month and tag filters', () => {
+    expect(parseHistoryFilter('>20h')).toEqual({ filter: { minDuration: 20 * HOUR } });
+    expect(parseHistoryFilter('<90m 2026-09 tag:#Water')).toEqual({ filter: { maxDuration: 1.5 * HOUR, month: '2026-09', tag: 'water' } });
+    expect(parseHistoryFilter('')).toEqual({ filter: {} });
+    expect(parseHistoryFilter('2026-13').error).toBe('Unknown filter: 2026-13. Try >20h, <16h, 2026-09 or tag:water');
+    expect(parseHistoryFilter(`tag:${'x'.repeat(60)}`).error).toBe('Filter is too long. Try a shorter tag');
+  });
+
+  it('formats filters so they can be parsed again', () => {
+    const filter = { minDuration: 20 * HOUR, maxDuration: 90 * 60 * 1000, month: '2026-09', tag: 'water' };
+    expect(formatHistoryFilter(filter)).toBe('>20h <90m 2026-09 tag:water');
+    expect(parseHistoryFilter(formatHistoryFilter(filter)).filter).toEqual(filter);
+  });
+
+  it('extracts hashtags from notes', () => {
+    expect(getFastTags(history[2]!)).toEqual(['water', 'electrolytes']);
+    expect(getFastTags(history[3]!)).toEqual([]);
+  });
+
+  it('filters by duration, local month and tag', () => {
+    expect(filterHistory(history, { minDuration: 20 * HOUR }, 'UTC')).toHaveLength(2);
+    expect(filterHistory(history, { tag: 'coffee' }, 'UTC')).toEqual([history[1]]);
+    expect(filterHistory(history, { month: '2026-09' }, 'UTC')).toHaveLength(2);
+    // 23:30 UTC on 30 Aug is still August in UTC+14 (31 Aug, 13:30)
+    expect(filterHistory(history, { month: '2026-09' }, 'Pacific/Kiritimati')).toHaveLength(2);
+    expect(filterHistory(history, { month: '2026-08' }, 'Pacific/Kiritimati')).toHaveLength(1);
+    expect(filterHistory(history, { month: '2026-09', tag: 'water' }, 'UTC')).toEqual([history[2]]);
+  });
+});
+
+describe('Paginated /history', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 1414;
+  const messageId = 10;
+
+  beforeEach(async () => {
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:hist',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:hist', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    // 25 daily fasts in September 2026, every fifth one tagged #water and 21h long
+    const history: FastEntry[] = [];
+    for (let day = 1; day <= 25; day++) {
+      const endedAt = `2026-09-${String(day).padStart(2, '0')}T12:00:00.000Z`;
+      history.push(day % 5 === 0 ? fast(endedAt, 21, `Day ${day} #water`) : fast(endedAt, 16));
+    }
+    const userData: UserFastingData = { timezone: 'UTC', history };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: 'cbq-hist',
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('shows the first page with a next button', async () => {
+    const res = await handleHistoryCommand(chatId, user, messageId, env, '/history');
+    expect(res.text).toContain('📜 Your fasting history (last 10):');
+    expect(res.text).toContain('1. 25 Sept, 12:00');
+    expect(res.text).toContain('📄 Page 1/3 • 25 fasts');
+    expect(res.replyMarkup?.inline_keyboard[1]).toEqual([{ text: '▶️', callback_data: 'hist_2' }]);
+  });
+
+  it('pages through history by editing the message', async () => {
+    const page2 = await routeCallback(makeCallback('hist_2'), env);
+    expect(page2.editMessage?.messageId).toBe(messageId);
+    expect(page2.editMessage?.newText).toContain('📜 Your fasting history:');
+    expect(page2.editMessage?.newText).toContain('11. 15 Sept');
+    expect(page2.editMessage?.newText).toContain('📄 Page 2/3');
+    expect(page2.editMessage?.newKeyboard?.inline_keyboard[1]?.map(button => button.callback_data)).toEqual(['hist_1', 'hist_3']);
+
+    const page3 = await routeCallback(makeCallback('hist_3'), env);
+    expect(page3.editMessage?.newText).toContain('21. 5 Sept');
+    expect(page3.editMessage?.newKeyboard?.inline_keyboard[1]?.map(button => button.callback_data)).toEqual(['hist_2']);
+  });
+
+  it('applies filters and keeps them while paging', async () => {
+    const longFasts = await handleHistoryCommand(chatId, user, messageId, env, '/history >20h');
+    expect(longFasts.text).toContain('📜 Fasts matching >20h:');
+    expect(longFasts.text).toContain('📝 Day 25 #water');
+    expect(longFasts.replyMarkup?.inline_keyboard).toHaveLength(1);
+
+    const tagged = await handleHistoryCommand(chatId, user, messageId, env, '/history tag:water 2026-09');
+    expect(tagged.text).toContain('📜 Fasts matching 2026-09 tag:water:');
+
+    const september = await handleHistoryCommand(chatId, user, messageId, env, '/history 2026-09');
+    expect(september.replyMarkup?.inline_keyboard[1]?.[0]?.callback_data).toBe('hist_2_2026-09');
+
+    const page2 = await routeCallback(makeCallback('hist_2_2026-09'), env);
+    expect(page2.editMessage?.newText).toContain('📜 Fasts matching 2026-09:');
+    expect(page2.editMessage?.newText).toContain('📄 Page 2/3');
+  });
+
+  it('reports empty results and invalid filters', async () => {
+    const none = await handleHistoryCommand(chatId, user, messageId, env, '/history 2026-01');
+    expect(none.text).toBe('📜 No fasts match: 2026-01');
+
+    const invalid = await handleHistoryCommand(chatId, user, messageId, env, '/history yesterday');
+    expect(invalid.text).toBe('❌ Unknown filter: yesterday. Try >20h, <16h, 2026-09 or tag:water');
+  });
+});
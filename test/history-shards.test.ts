@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getUserFastingData,
+  saveUserFastingData,
+  migrateUserFastingData,
+  loadHistoryForPeriods,
+  startFast,
+  endFast,
+  deleteFastFromHistory,
+  setFastNote,
+  encodeFastReference,
+  decodeFastReference,
+  getStatisticsPeriod
+} from '../src/fasting';
+import { routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, UserFastingData, CallbackQuery } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1717, is_bot: false, first_name: 'Eli', username: 'eli' };
+
+function fast(endedAt: string, hours: number): FastEntry {
+  return {
+    startedAt: new Date(new Date(endedAt).getTime() - hours * HOUR).toISOString(),
+    endedAt,
+    duration: hours * HOUR,
+    endedBy: user
+  };
+}
+
+const legacyHistory = [
+  fast('2025-06-10T12:00:00.000Z', 16),
+  fast('2025-07-15T12:00:00.000Z', 18),
+  fast('2025-08-12T12:00:00.000Z', 14),
+  fast('2025-08-19T12:00:00.000Z', 20)
+];
+
+describe('Sharded fasting history', () => {
+  let env: Env;
+  let fasts: MockKV;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: new MockKV() as any,
+      CHATS: new MockKV() as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    const legacy: UserFastingData = { timezone: 'UTC', defaultGoal: { protocol: '16:8', targetDuration: 16 * HOUR }, history: legacyHistory };
+    await fasts.put(`user:${user.id}`, JSON.stringify(legacy));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function readProfile(): Promise<Record<string, any>> {
+    return JSON.parse((await fasts.get(`user:${user.id}`))!);
+  }
+
+  async function readShard(month: string): Promise<FastEntry[] | null> {
+    const shard = await fasts.get(`user:${user.id}:fasts:${month}`);
+    return shard ? JSON.parse(shard) : null;
+  }
+
+  it('reads a legacy single-key record as is and moves it into monthly shards on the next save', async () => {
+    const putSpy = vi.spyOn(fasts, 'put');
+    const userData = await getUserFastingData(user.id, env, 'all');
+    expect(userData.history).toEqual(legacyHistory);
+    expect(putSpy).not.toHaveBeenCalled();
+
+    await migrateUserFastingData(user.id, env);
+    const profile = await readProfile();
+    expect(profile.history).toBeUndefined();
+    expect(profile.defaultGoal).toEqual({ protocol: '16:8', targetDuration: 16 * HOUR });
+    expect(profile.historyShards).toEqual({
+      '2025-06': { count: 1, totalDuration: 16 * HOUR, longestDuration: 16 * HOUR, firstEndedAt: '2025-06-10T12:00:00.000Z' },
+      '2025-07': { count: 1, totalDuration: 18 * HOUR, longestDuration: 18 * HOUR, firstEndedAt: '2025-07-15T12:00:00.000Z' },
+      '2025-08': { count: 2, totalDuration: 34 * HOUR, longestDuration: 20 * HOUR, firstEndedAt: '2025-08-12T12:00:00.000Z' }
+    });
+    expect(await readShard('2025-08')).toEqual(legacyHistory.slice(2));
+  });
+
+  it('loads only the shards covering the requested periods', async () => {
+    await migrateUserFastingData(user.id, env);
+    const getSpy = vi.spyOn(fasts, 'get');
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    expect(userData.history).toEqual([]);
+
+    await loadHistoryForPeriods(user.id, userData, [getStatisticsPeriod('month', new Date(), 'UTC')], env);
+    expect(userData.history).toEqual(legacyHistory.slice(2));
+    expect(getSpy.mock.calls.map(([key]) => key)).toEqual([`user:${user.id}`, `user:${user.id}:fasts:2025-08`]);
+  });
+
+  it('starts fasts without touching shards and ends them by rewriting one month', async () => {
+    await migrateUserFastingData(user.id, env);
+    const getSpy = vi.spyOn(fasts, 'get');
+    const putSpy = vi.spyOn(fasts, 'put');
+
+    await startFast(user.id, user, env, new Date('2025-08-31T20:00:00.000Z'));
+    expect(getSpy.mock.calls.map(([key]) => key)).toEqual([`user:${user.id}`]);
+    expect(putSpy.mock.calls.map(([key]) => key)).toEqual([`user:${user.id}`]);
+
+    vi.setSystemTime(new Date('2025-09-01T12:00:00.000Z'));
+    putSpy.mockClear();
+    const result = await endFast(user.id, user, env);
+    expect(result.success).toBe(true);
+    expect(putSpy.mock.calls.map(([key]) => key)).toEqual([`user:${user.id}:fasts:2025-09`, `user:${user.id}`]);
+    expect((await readProfile()).historyShards['2025-09']).toEqual({ count: 1, totalDuration: 16 * HOUR, longestDuration: 16 * HOUR, firstEndedAt: '2025-09-01T12:00:00.000Z' });
+  });
+
+  it('merges fasts saved into a month that was not loaded', async () => {
+    await migrateUserFastingData(user.id, env);
+    const userData = await getUserFastingData(user.id, env, 'none');
+    userData.history.push(fast('2025-07-20T12:00:00.000Z', 15));
+    await saveUserFastingData(user.id, userData, env);
+
+    expect(await readShard('2025-07')).toEqual([legacyHistory[1], fast('2025-07-20T12:00:00.000Z', 15)]);
+    expect(await readShard('2025-08')).toEqual(legacyHistory.slice(2));
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(5);
+  });
+
+  it('removes a shard when its last fast is deleted', async () => {
+    const userData = await getUserFastingData(user.id, env, 'all');
+    const reference = decodeFastReference(encodeFastReference(0, userData.history[0]!))!;
+    const result = await deleteFastFromHistory(user.id, reference, env);
+    expect(result.success).toBe(true);
+
+    expect(await readShard('2025-06')).toBeNull();
+    expect(Object.keys((await readProfile()).historyShards)).toEqual(['2025-07', '2025-08']);
+  });
+
+  it('/week reads only the current and previous week shards', async () => {
+    const chatId = 1717;
+    await env.CHATS.put(chatId.toString(), JSON.stringify({ api_key_hash: 'sha256:shards', authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    await env.API_KEYS.put('sha256:shards', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    await migrateUserFastingData(user.id, env);
+    const getSpy = vi.spyOn(fasts, 'get');
+
+    const res = await routeCommand('week', chatId, user, 1, '/week', env);
+    expect(res!.text).toContain('📈 Total fasts: 1');
+    expect(getSpy.mock.calls.map(([key]) => key).filter(key => key.includes(':fasts:'))).toEqual([`user:${user.id}:fasts:2025-08`]);
+  });
+
+  it('/end reads only the recent months and still references the fast by its place in the full history', async () => {
+    const chatId = 1717;
+    await env.CHATS.put(chatId.toString(), JSON.stringify({ api_key_hash: 'sha256:shards', authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    await env.API_KEYS.put('sha256:shards', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    await startFast(user.id, user, env, new Date('2025-08-19T20:00:00.000Z'));
+    const getSpy = vi.spyOn(fasts, 'get');
+
+    const res = await routeCommand('end', chatId, user, 1, '/end', env);
+    expect(res!.text).toContain('🔥 Streak: 2 days (longest: 2 days)');
+    expect(res!.replyMarkup!.inline_keyboard[0]?.[1]?.callback_data).toBe(`rate_start_${encodeFastReference(4, fast('2025-08-20T12:00:00.000Z', 16))}`);
+    expect(getSpy.mock.calls.map(([key]) => key)).not.toContain(`user:${user.id}:fasts:2025-06`);
+
+    getSpy.mockClear();
+    const badges = await routeCommand('badges', chatId, user, 1, '/badges', env);
+    expect(badges!.text).toContain('🏆 Longest fast: 20h');
+    expect(getSpy.mock.calls.map(([key]) => key).filter(key => key.includes(':fasts:'))).toEqual([]);
+  });
+
+  it('reads only the months that history pages, the pickers, notes and ratings show', async () => {
+    const chatId = 1717;
+    await env.CHATS.put(chatId.toString(), JSON.stringify({ api_key_hash: 'sha256:shards', authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    await env.API_KEYS.put('sha256:shards', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    const august = Array.from({ length: 10 }, (_, day) => fast(`2025-08-${String(day + 1).padStart(2, '0')}T12:00:00.000Z`, 16));
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history: [...legacyHistory.slice(0, 2), ...august] }));
+    await migrateUserFastingData(user.id, env);
+    const getSpy = vi.spyOn(fasts, 'get');
+    const shardsRead = () => getSpy.mock.calls.map(([key]) => key).filter(key => key.includes(':fasts:'));
+    const callback = (data: string): CallbackQuery => ({
+      id: `cbq-${data}`,
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: { message_id: 5, date: Math.floor(Date.now() / 1000), chat: { id: chatId, type: 'private' }, text: 'msg' }
+    } as any);
+
+    const history = await routeCommand('history', chatId, user, 1, '/history', env);
+    expect(history!.text).toContain('📄 Page 1/2 • 12 fasts');
+    expect(shardsRead()).toEqual([`user:${user.id}:fasts:2025-08`]);
+
+    getSpy.mockClear();
+    const undo = await routeCommand('undo', chatId, user, 2, '/undo', env);
+    expect(undo!.replyMarkup!.inline_keyboard[0]?.[0]?.callback_data).toBe(`undo_select_${encodeFastReference(11, august[9]!)}`);
+    const rate = await routeCallback(callback(`rate_start_${encodeFastReference(11, august[9]!)}`), env);
+    expect(rate.editMessage?.newText).toContain('16h');
+    expect((await setFastNote(user.id, 'Easy one', env)).success).toBe(true);
+    expect(new Set(shardsRead())).toEqual(new Set([`user:${user.id}:fasts:2025-08`]));
+    expect((await readShard('2025-08'))?.[9]?.note).toBe('Easy one');
+
+    getSpy.mockClear();
+    const page2 = await routeCallback(callback('hist_2'), env);
+    expect(page2.editMessage?.newText).toContain('12. 10 Jun');
+    expect(shardsRead()).toContain(`user:${user.id}:fasts:2025-06`);
+  });
+
+  it('keeps the longest streak on the profile so /end can show it without the older months', async () => {
+    const chatId = 1717;
+    await env.CHATS.put(chatId.toString(), JSON.stringify({ api_key_hash: 'sha256:shards', authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    await env.API_KEYS.put('sha256:shards', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    const history = [fast('2025-06-08T12:00:00.000Z', 16), fast('2025-06-09T12:00:00.000Z', 16), ...legacyHistory];
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history }));
+
+    await migrateUserFastingData(user.id, env);
+    expect(await readProfile()).toMatchObject({ longestStreak: 3, longestGoalStreak: 0 });
+
+    await startFast(user.id, user, env, new Date('2025-08-19T20:00:00.000Z'));
+    const getSpy = vi.spyOn(fasts, 'get');
+    const res = await routeCommand('end', chatId, user, 1, '/end', env);
+    expect(res!.text).toContain('🔥 Streak: 2 days (longest: 3 days)');
+    expect(getSpy.mock.calls.map(([key]) => key)).not.toContain(`user:${user.id}:fasts:2025-06`);
+  });
+
+  it('reads the whole history once when ending a fast on a record saved before the longest streak was kept', async () => {
+    await migrateUserFastingData(user.id, env);
+    const { longestStreak: _longest, longestGoalStreak: _longestGoal, ...profile } = await readProfile();
+    await fasts.put(`user:${user.id}`, JSON.stringify({ ...profile, currentFast: { startedAt: '2025-08-19T20:00:00.000Z', startedBy: user } }));
+    const getSpy = vi.spyOn(fasts, 'get');
+
+    const result = await endFast(user.id, user, env);
+    expect(result.success).toBe(true);
+    expect(getSpy.mock.calls.map(([key]) => key)).toContain(`user:${user.id}:fasts:2025-06`);
+    expect(await readProfile()).toMatchObject({ longestStreak: 2 });
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { t, formatOrdinal, formatNumber, parseLanguage, resolveLanguage } from '../src/i18n';
+import { handleFastCommand, handleEndCommand, handleLanguageCommand, routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { getUserFastingData, formatDateInTimezone, formatRelativeTime, formatDays, formatFastingPhase, formatNewAchievements, formatPeriodTitle, getRangeStatisticsPeriod, validateFastTimeline } from '../src/fasting';
+import { formatCalendarHeatmap, formatHeatmapLegend, formatMonthTitle } from '../src/heatmap';
+import { parseTimeAdjustment } from '../src/time-adjustments';
+import { formatWeightSummary, getWeightSummary } from '../src/weight';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('Message catalog', () => {
+  it('fills in placeholders and picks plural forms per language', () => {
+    expect(t('en', 'timezone.updated', { timezone: 'Europe/Warsaw' })).toBe('✅ Timezone updated to: Europe/Warsaw');
+    expect(t('pl', 'timezone.updated', { timezone: 'Europe/Warsaw' })).toBe('✅ Strefa czasowa zmieniona na: Europe/Warsaw');
+
+    expect(formatDays(1)).toBe('1 day');
+    expect(formatDays(3)).toBe('3 days');
+    expect([1, 2, 5, 12, 22, 25].map(days => formatDays(days, 'pl')))
+      .toEqual(['1 dzień', '2 dni', '5 dni', '12 dni', '22 dni', '25 dni']);
+    expect([1, 3, 5, 22].map(count => t('pl', 'history.page', { page: 1, pages: 2, count })))
+      .toEqual(['📄 Strona 1/2 • 1 post', '📄 Strona 1/2 • 3 posty', '📄 Strona 1/2 • 5 postów', '📄 Strona 1/2 • 22 posty']);
+  });
+
+  it('formats ordinals and numbers for the language', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 101].map(value => formatOrdinal(value, 'en')))
+      .toEqual(['1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st', '22nd', '101st']);
+    expect(formatOrdinal(3, 'pl')).toBe('3.');
+    expect(formatNumber(12.5, 'en')).toBe('12.5');
+    expect(formatNumber(12.5, 'pl')).toBe('12,5');
+  });
+
+  it('formats dates and relative times with the language locale', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    expect(formatDateInTimezone('2025-08-20T16:05:00.000Z', 'Europe/Paris')).toBe('20 Aug, 18:05');
+    expect(formatDateInTimezone('2025-08-20T16:05:00.000Z', 'Europe/Paris', 'pl')).toBe('20 sie, 18:05');
+    expect(formatRelativeTime(new Date(Date.now() - 2 * DAY).toISOString(), 'UTC', 'pl')).toBe('2 dni temu');
+    expect(formatRelativeTime(new Date(Date.now() - 35 * DAY).toISOString(), 'UTC', 'pl')).toBe('5 tygodni temu');
+    expect(formatRelativeTime(new Date(Date.now() - 7 * DAY).toISOString(), 'UTC')).toBe('1 week ago');
+    expect(formatRelativeTime('not a date', 'UTC')).toBe('unknown');
+    expect(formatRelativeTime('not a date', 'UTC', 'pl')).toBe('nieznana data');
+
+    vi.useRealTimers();
+  });
+
+  it('formats phases, badges, calendars, time errors and weights in Polish', () => {
+    const now = new Date('2025-08-20T18:00:00.000Z');
+
+    expect(formatFastingPhase('2025-08-20T02:00:00.000Z', 17.5 * HOUR, 'UTC', 'pl'))
+      .toBe('🔥 Faza: Spalanie tłuszczu (16 h+)\n⏭ Następna: Ketoza po 18 h — za 30m (20:00)');
+    expect(formatNewAchievements([{ id: 'first_fast', emoji: '🌱' }], false, 20 * HOUR, 'pl')).toBe('🏅 Nowa odznaka: 🌱 Pierwszy post');
+    expect(formatPeriodTitle(getRangeStatisticsPeriod('2025-03-01', '2025-03-31', 'UTC'), 'UTC', 'monday', now, 'pl'))
+      .toBe('📈 Podsumowanie postów: 1 mar 2025 – 31 mar 2025');
+
+    expect(formatMonthTitle('2025-08', 'pl')).toBe('sierpień 2025');
+    expect(formatCalendarHeatmap('2025-08', new Map(), 'UTC', 'monday', now, 'pl').split('\n')[0]).toBe('Pn  Wt  Śr  Cz  Pt  So  Nd');
+    expect(formatHeatmapLegend('pl')).toBe('· brak  ░ <12h  ▒ 12–16h  ▓ 16–20h  █ 20h+');
+
+    expect(parseTimeAdjustment('25:00', now, 'UTC', now, 'pl').error).toBe('Nieprawidłowa godzina: 25. Dozwolone 0-23');
+    expect(validateFastTimeline([], new Date('2025-08-20T10:00:00Z'), new Date('2025-08-20T09:00:00Z'), 'UTC', {}, 'pl').error)
+      .toBe('Post musi się zakończyć po swoim początku');
+
+    const weights = getWeightSummary([{ recordedAt: '2025-08-19T07:00:00.000Z', weightKg: 81.4 }], 'UTC', now);
+    expect(formatWeightSummary(weights, 'kg', 'UTC', 'pl').split('\n')[0]).toBe('📍 Ostatnio: 81,4 kg (19 sie, 07:00)');
+  });
+
+  it('prefers the chosen language over the Telegram client language', () => {
+    const user: User = { id: 1, is_bot: false, first_name: 'Ola', language_code: 'pl-PL' };
+    expect(resolveLanguage(user)).toBe('pl');
+    expect(resolveLanguage(user, 'en')).toBe('en');
+    expect(resolveLanguage({ ...user, language_code: 'de' })).toBe('en');
+    expect(parseLanguage(' PL ')).toBe('pl');
+    expect(parseLanguage('polish')).toBeNull();
+  });
+});
+
+describe('Localized commands', () => {
+  let env: Env;
+  let fasts: MockKV;
+  const chatId = 7070;
+  const messageId = 33;
+  const user: User = { id: 707, is_bot: false, first_name: 'Kasia', username: 'kasia', language_code: 'pl' };
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    const apiKeys = new MockKV();
+    const chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'Europe/Paris', history: [] };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts and ends a fast in Polish', async () => {
+    const started = await handleFastCommand(chatId, user, messageId, env, '/f -14h');
+    expect(started.text).toBe('✅ Post rozpoczęty o 06:00 (według podanej godziny)');
+    expect(started.replyMarkup?.inline_keyboard[0]?.map(button => button.text)).toEqual(['🛑 Zakończ post', '🗑️ Anuluj post']);
+
+    const ended = await handleEndCommand(chatId, user, messageId + 1, env, '/end');
+    expect(ended.text).toContain('✅ Świetna robota! Twój post trwał 14h (1. post w tym tygodniu)');
+    expect(ended.replyMarkup?.inline_keyboard[0]?.map(button => button.text)).toEqual(['🚀 Zacznij post', '📝 Oceń ten post']);
+  });
+
+  it('localizes inline button replies', async () => {
+    const callback = {
+      id: 'cbq-pl',
+      from: user,
+      chat_instance: 'ci-1',
+      data: 'start_fast',
+      message: { message_id: messageId, date: Math.floor(Date.now() / 1000), chat: { id: chatId, type: 'private' }, text: 'msg' }
+    } as CallbackQuery;
+
+    const result = await routeCallback(callback, env);
+    expect(result.editMessage?.newText).toBe('✅ Post rozpoczęty o 20:00');
+    expect(result.editMessage?.newKeyboard?.inline_keyboard[0]?.map(button => button.text)).toEqual(['🛑 Zakończ post', '🕑 Zmień godzinę']);
+  });
+
+  it('shows and changes the language with /language', async () => {
+    const shown = await handleLanguageCommand(chatId, user, messageId, '/language', env);
+    expect(shown.text).toContain('🌐 Twój język: Polski');
+    expect(shown.text).toContain('en (English), pl (Polski)');
+
+    const invalid = await handleLanguageCommand(chatId, user, messageId + 1, '/language de', env);
+    expect(invalid.text).toBe('Nieznany język: de\n\nDostępne języki: en (English), pl (Polski)');
+
+    const updated = await handleLanguageCommand(chatId, user, messageId + 2, '/language en', env);
+    expect(updated.text).toBe('✅ Language updated to: English');
+    expect((await getUserFastingData(user.id, env, 'all')).language).toBe('en');
+
+    const started = await handleFastCommand(chatId, user, messageId + 3, env, '/f');
+    expect(started.text).toBe('✅ Fast started at 20:00');
+  });
+
+  it('asks for authentication in the user language', async () => {
+    const result = await routeCommand('language', 1, user, messageId, '/language pl', env);
+    expect(result?.text).toBe('Najpierw uwierzytelnij się, wysyłając swój klucz API.');
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleFastCommand, handleEndCommand, handleWeekCommand, handleEditCommand, handleLimitsCommand, routeCommand } from '../src/commands';
+import { getFastingLimits, getUserFastingData, parseLimitDuration, formatLimitDuration, DEFAULT_FASTING_LIMITS } from '../src/fasting';
+import { validateTimelineConsistency } from '../src/time-adjustments';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('Fasting limits', () => {
+  it('uses the defaults without configuration', () => {
+    expect(getFastingLimits({} as Env)).toEqual(DEFAULT_FASTING_LIMITS);
+    expect(DEFAULT_FASTING_LIMITS).toEqual({ maxBackdate: 7 * DAY, maxFastDuration: 14 * DAY, minFastDuration: 0 });
+  });
+
+  it('reads deployment limits from vars and lets users override them', () => {
+    const env = { MAX_BACKDATE_DAYS: '3', MAX_FAST_HOURS: '72', MIN_FAST_HOURS: 'lots' } as Env;
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getFastingLimits(env)).toEqual({ maxBackdate: 3 * DAY, maxFastDuration: 72 * HOUR, minFastDuration: 0 });
+    expect(warn).toHaveBeenCalledWith('Ignoring invalid fasting limit: lots');
+
+    const userData: UserFastingData = { timezone: 'UTC', history: [], limits: { minFastDuration: 12 * HOUR } };
+    expect(getFastingLimits(env, userData)).toEqual({ maxBackdate: 3 * DAY, maxFastDuration: 72 * HOUR, minFastDuration: 12 * HOUR });
+    warn.mockRestore();
+  });
+
+  it('parses and formats limit durations', () => {
+    expect(parseLimitDuration('3d')).toBe(3 * DAY);
+    expect(parseLimitDuration('12h')).toBe(12 * HOUR);
+    expect(parseLimitDuration('1.5h')).toBe(1.5 * HOUR);
+    expect(parseLimitDuration('90m')).toBe(90 * 60 * 1000);
+    expect(parseLimitDuration('0')).toBe(0);
+    expect(parseLimitDuration('-2h')).toBeNull();
+    expect(parseLimitDuration('soon')).toBeNull();
+
+    expect(formatLimitDuration(7 * DAY)).toBe('7 days');
+    expect(formatLimitDuration(1 * DAY)).toBe('1 day');
+    expect(formatLimitDuration(72 * HOUR)).toBe('3 days');
+    expect(formatLimitDuration(12 * HOUR)).toBe('12h');
+  });
+
+  it('quotes the configured limits in validation errors', () => {
+    const now = new Date('2025-08-20T18:00:00.000Z');
+    const limits = { maxBackdate: 2 * DAY, maxFastDuration: 48 * HOUR, minFastDuration: 0 };
+
+    const backdate = validateTimelineConsistency(new Date(now.getTime() - 3 * DAY), undefined, true, now, limits);
+    expect(backdate).toEqual({ valid: false, error: 'Cannot start a fast more than 2 days ago' });
+
+    const tooLong = validateTimelineConsistency(new Date(now.getTime() - HOUR), { startedAt: new Date(now.getTime() - 3 * DAY).toISOString() }, false, now, { ...limits, maxBackdate: 7 * DAY });
+    expect(tooLong.valid).toBe(false);
+    expect(tooLong.error).toBe('A fast cannot last longer than 2 days (this one would last 71h)');
+  });
+});
+
+describe('Fasting limits in commands', () => {
+  let env: Env;
+  let apiKeys: MockKV;
+  let chats: MockKV;
+  let fasts: MockKV;
+  const chatId = 5050;
+  const messageId = 9;
+  const user: User = { id: 505, is_bot: false, first_name: 'Noor', username: 'noor' };
+
+  // 2025-08-20 is a Wednesday; the week started on Monday 2025-08-18
+  const history: FastEntry[] = [
+    { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user },
+    { startedAt: '2025-08-19T14:00:00.000Z', endedAt: '2025-08-19T18:00:00.000Z', duration: 4 * HOUR, endedBy: user }
+  ];
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    apiKeys = new MockKV();
+    chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'UTC', history };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects backdating past the deployment window', async () => {
+    env.MAX_BACKDATE_DAYS = '1';
+
+    const result = await handleFastCommand(chatId, user, messageId, env, '/f -30h');
+    expect(result.text).toBe('❌ Cannot start a fast more than 1 day ago');
+    expect((await getUserFastingData(user.id, env, 'all')).currentFast).toBeUndefined();
+  });
+
+  it('refuses to end a fast that would be implausibly long', async () => {
+    const userData: UserFastingData = { timezone: 'UTC', history, currentFast: { startedAt: '2025-08-16T18:00:00.000Z', startedBy: user }, limits: { maxFastDuration: 72 * HOUR } };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+
+    const result = await handleEndCommand(chatId, user, messageId, env, '/end');
+    expect(result.text).toContain('A fast cannot last longer than 3 days (this one would last 96h)');
+    expect(result.text).toContain('/cancel');
+    expect((await getUserFastingData(user.id, env, 'all')).currentFast).toBeDefined();
+
+    const backdated = await handleEndCommand(chatId, user, messageId + 1, env, '/end -23h');
+    expect(backdated.text).toBe('❌ A fast cannot last longer than 3 days (this one would last 73h)');
+
+    const earlier = await handleEndCommand(chatId, user, messageId + 2, env, '/end -30h');
+    expect(earlier.text).toContain('You fasted for 66h');
+  });
+
+  it('rejects edits that make a fast longer than the limit', async () => {
+    env.MAX_FAST_HOURS = '20';
+
+    const result = await handleEditCommand(chatId, user, messageId, '/edit 2 start -6h', env);
+    expect(result.text).toBe('❌ A fast cannot last longer than 20h (this one would last 22h)');
+  });
+
+  it('leaves fasts shorter than the minimum out of summaries', async () => {
+    const before = await handleWeekCommand(chatId, user, messageId, env);
+    expect(before.text).toContain('Total fasts: 2');
+
+    env.MIN_FAST_HOURS = '12';
+    const after = await handleWeekCommand(chatId, user, messageId, env);
+    expect(after.text).toContain('Total fasts: 1');
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(2);
+  });
+
+  it('shows and updates personal limits with /limits', async () => {
+    const shown = await handleLimitsCommand(chatId, user, messageId, '/limits', env);
+    expect(shown.text).toContain('Backdating window: 7 days (default)');
+    expect(shown.text).toContain('Longest fast: 14 days (default)');
+    expect(shown.text).toContain('Shortest fast counted in stats: none (default)');
+
+    expect((await handleLimitsCommand(chatId, user, messageId + 1, '/limits min 12h', env)).text)
+      .toBe('✅ Shortest fast counted in stats updated to: 12h');
+    expect((await handleLimitsCommand(chatId, user, messageId + 2, '/limits backdate 3d', env)).text)
+      .toBe('✅ Backdating window updated to: 3 days');
+
+    const updated = await handleLimitsCommand(chatId, user, messageId + 3, '/limits', env);
+    expect(updated.text).toContain('Backdating window: 3 days (personal)');
+    expect(updated.text).toContain('Shortest fast counted in stats: 12h (personal)');
+    expect((await getUserFastingData(user.id, env, 'all')).limits).toEqual({ minFastDuration: 12 * HOUR, maxBackdate: 3 * DAY });
+
+    expect((await handleLimitsCommand(chatId, user, messageId + 4, '/limits reset', env)).text).toBe('✅ Fasting limits reset to the defaults');
+    expect((await getUserFastingData(user.id, env, 'all')).limits).toBeUndefined();
+  });
+
+  it('rejects invalid /limits input', async () => {
+    expect((await handleLimitsCommand(chatId, user, messageId, '/limits later 3d', env)).text).toContain('Invalid limits command: later 3d');
+    expect((await handleLimitsCommand(chatId, user, messageId, '/limits max soon', env)).text).toContain('Invalid duration: soon');
+    expect((await handleLimitsCommand(chatId, user, messageId, '/limits backdate 0', env)).text).toContain('Invalid duration: 0');
+    expect((await handleLimitsCommand(chatId, user, messageId, '/limits min 15d', env)).text)
+      .toBe('❌ The shortest counted fast (15 days) must be shorter than the longest fast (14 days)');
+  });
+
+  it('requires authentication', async () => {
+    const result = await routeCommand('limits', 1, user, messageId, '/limits', env);
+    expect(result?.text).toBe('Please authenticate by sending your API key first.');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleLogCommand, routeCommand } from '../src/commands';
+import { getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('/log command', () => {
+  let env: Env;
+  let apiKeys: MockKV;
+  let chats: MockKV;
+  let fasts: MockKV;
+  const chatId = 4040;
+  const messageId = 7;
+  const user: User = { id: 404, is_bot: false, first_name: 'Dana', username: 'dana' };
+
+  const history: FastEntry[] = [
+    { startedAt: '2025-08-01T20:00:00.000Z', endedAt: '2025-08-02T12:00:00.000Z', duration: 16 * HOUR, endedBy: user },
+    { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user }
+  ];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    apiKeys = new MockKV();
+    chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = { timezone: 'UTC', history, defaultGoal: { protocol: '16:8', targetDuration: 16 * HOUR } };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function loadHistory(): Promise<FastEntry[]> {
+    return (await getUserFastingData(user.id, env, 'all')).history;
+  }
+
+  it('requires authentication', async () => {
+    const res = await handleLogCommand(1, user, messageId, '/log yesterday 20:00 today 12:00', env);
+    expect(res.text).toContain('Please authenticate');
+  });
+
+  it('shows usage without arguments', async () => {
+    const res = await handleLogCommand(chatId, user, messageId, '/log', env);
+    expect(res.text).toContain('Usage: /log <start> <end>');
+  });
+
+  it('logs a fast from yesterday to today and keeps it as the latest entry', async () => {
+    const res = await routeCommand('log', chatId, user, messageId, '/log yesterday 20:00 today 12:30', env);
+    expect(res!.text).toBe('✅ Logged a fast of 16h 30m (19 Aug, 20:00 → 20 Aug, 12:30)\n🎯 Goal 16:8 (16h) met (103%) ✅');
+
+    const stored = await loadHistory();
+    expect(stored).toHaveLength(3);
+    expect(stored[2]?.startedAt).toBe('2025-08-19T20:00:00.000Z');
+    expect(stored[2]?.duration).toBe(16.5 * HOUR);
+    expect(stored[2]?.endedBy).toEqual(user);
+  });
+
+  it('inserts older fasts in chronological order beyond the 7-day backdating limit', async () => {
+    const res = await handleLogCommand(chatId, user, messageId, '/log 2025-08-05T19:00..2025-08-06T11:00', env);
+    expect(res.text).toContain('✅ Logged a fast of 16h');
+
+    const stored = await loadHistory();
+    expect(stored.map(fast => fast.startedAt)).toEqual([
+      '2025-08-01T20:00:00.000Z',
+      '2025-08-05T19:00:00.000Z',
+      '2025-08-18T20:00:00.000Z'
+    ]);
+  });
+
+  it('rejects overlaps with existing fasts', async () => {
+    const res = await handleLogCommand(chatId, user, messageId, '/log 2025-08-19 06:00 2025-08-19 18:00', env);
+    expect(res.text).toBe('❌ Overlaps with your fast from 18 Aug, 20:00 to 19 Aug, 12:00');
+    expect(await loadHistory()).toHaveLength(2);
+  });
+
+  it('accepts only one of two overlapping fasts logged at the same time', async () => {
+    const results = await Promise.all([
+      handleLogCommand(chatId, user, messageId, '/log 2025-08-10T20:00..2025-08-11T12:00', env),
+      handleLogCommand(chatId, user, messageId + 1, '/log 2025-08-11T08:00..2025-08-11T20:00', env)
+    ]);
+
+    expect(results.map(res => res.text.startsWith('✅'))).toEqual([true, false]);
+    expect(results[1]!.text).toBe('❌ Overlaps with your fast from 10 Aug, 20:00 to 11 Aug, 12:00');
+    expect(await loadHistory()).toHaveLength(3);
+  });
+
+  it('rejects ranges ending in the future or ending before they start', async () => {
+    const future = await handleLogCommand(chatId, user, messageId, '/log today 10:00 today 20:00', env);
+    expect(future.text).toBe('❌ Cannot end a fast in the future');
+
+    const inverted = await handleLogCommand(chatId, user, messageId + 1, '/log today 10:00 today 08:00', env);
+    expect(inverted.text).toBe('❌ A fast must end after it started');
+  });
+
+  it('reports unparseable input', async () => {
+    const res = await handleLogCommand(chatId, user, messageId, '/log sometime last week', env);
+    expect(res.text).toContain('❌ Could not understand "sometime"');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { migrateRecord, getVersionedRecord, SCHEMA_VERSIONS } from '../src/migrations';
+import { getUserFastingData, getUserLanguage, migrateUserFastingData, startFast } from '../src/fasting';
+import { isAuthenticated, authenticateChat } from '../src/auth';
+import { hashApiKey } from '../src/crypto';
+import { MockKV } from './utils/mockKv';
+import type { Env, User } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1919, is_bot: false, first_name: 'Mia', username: 'mia' };
+const fast = { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user };
+
+describe('migrateRecord', () => {
+  it('moves an unversioned inline history towards shards', () => {
+    const { record, migrated } = migrateRecord<Record<string, unknown>>('userFasting', { timezone: 'UTC', history: [fast] });
+    expect(migrated).toBe(true);
+    expect(record).toEqual({ timezone: 'UTC', history: [fast], historyShards: {}, schemaVersion: 3 });
+  });
+
+  it('only stamps records that are already in the latest shape', () => {
+    const sharded = { timezone: 'UTC', historyShards: {} };
+    expect(migrateRecord('userFasting', sharded).record).toEqual({ ...sharded, schemaVersion: 3 });
+    expect(migrateRecord('chatAuth', { api_key_hash: 'h' }).record).toEqual({ api_key_hash: 'h', schemaVersion: SCHEMA_VERSIONS.chatAuth });
+  });
+
+  it('leaves current and newer records untouched', () => {
+    const current = { timezone: 'UTC', historyShards: {}, schemaVersion: 3 };
+    expect(migrateRecord('userFasting', current)).toEqual({ record: current, migrated: false });
+
+    const newer = { name: 'Key', schemaVersion: 99 };
+    expect(migrateRecord('apiKey', newer)).toEqual({ record: newer, migrated: false });
+  });
+
+  it('writes upgraded records back on read', async () => {
+    const kv = new MockKV();
+    await kv.put('key', JSON.stringify({ name: 'Key' }));
+
+    expect((await getVersionedRecord(kv as any, 'key', 'apiKey'))?.migrated).toBe(true);
+    expect(JSON.parse((await kv.get('key'))!).schemaVersion).toBe(SCHEMA_VERSIONS.apiKey);
+    expect((await getVersionedRecord(kv as any, 'key', 'apiKey'))?.migrated).toBe(false);
+    expect(await getVersionedRecord(kv as any, 'missing', 'apiKey')).toBeNull();
+  });
+});
+
+describe('Lazy migration', () => {
+  let env: Env;
+  let fasts: MockKV;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+
+  beforeEach(() => {
+    fasts = new MockKV();
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+  });
+
+  it('upgrades legacy fasting records in memory and writes them as versioned shards on save', async () => {
+    const legacy = JSON.stringify({ timezone: 'UTC', history: [fast] });
+    await fasts.put(`user:${user.id}`, legacy);
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    expect(userData.history).toEqual([fast]);
+    expect(await fasts.get(`user:${user.id}`)).toBe(legacy);
+
+    await migrateUserFastingData(user.id, env);
+    const profile = JSON.parse((await fasts.get(`user:${user.id}`))!);
+    expect(profile.schemaVersion).toBe(SCHEMA_VERSIONS.userFasting);
+    expect(profile.history).toBeUndefined();
+    expect(JSON.parse((await fasts.get(`user:${user.id}:fasts:2025-08`))!)).toEqual([fast]);
+  });
+
+  it('stamps unversioned sharded records without rewriting their shards', async () => {
+    const shard = JSON.stringify([fast]);
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', historyShards: { '2025-08': { count: 1, totalDuration: 16 * HOUR, firstEndedAt: fast.endedAt } } }));
+    await fasts.put(`user:${user.id}:fasts:2025-08`, shard);
+
+    const userData = await getUserFastingData(user.id, env, 'all');
+    expect(userData.history).toEqual([fast]);
+    expect(JSON.parse((await fasts.get(`user:${user.id}`))!).schemaVersion).toBeUndefined();
+
+    await migrateUserFastingData(user.id, env);
+    expect(JSON.parse((await fasts.get(`user:${user.id}`))!).schemaVersion).toBe(SCHEMA_VERSIONS.userFasting);
+    expect(await fasts.get(`user:${user.id}:fasts:2025-08`)).toBe(shard);
+  });
+
+  it('fills in the longest fast of shard summaries written before version 3', async () => {
+    const shorter = { ...fast, startedAt: '2025-08-20T20:00:00.000Z', endedAt: '2025-08-21T08:00:00.000Z', duration: 12 * HOUR };
+    await fasts.put(`user:${user.id}`, JSON.stringify({
+      timezone: 'UTC',
+      historyShards: { '2025-08': { count: 2, totalDuration: 28 * HOUR, firstEndedAt: fast.endedAt } },
+      schemaVersion: 2
+    }));
+    await fasts.put(`user:${user.id}:fasts:2025-08`, JSON.stringify([fast, shorter]));
+
+    const userData = await getUserFastingData(user.id, env, 'none');
+    expect(userData.historyShards?.['2025-08']?.longestDuration).toBe(16 * HOUR);
+
+    await migrateUserFastingData(user.id, env);
+    const profile = JSON.parse((await fasts.get(`user:${user.id}`))!);
+    expect(profile.schemaVersion).toBe(3);
+    expect(profile.historyShards['2025-08'].longestDuration).toBe(16 * HOUR);
+  });
+
+  it('never writes on read, so reading cannot overwrite a change made meanwhile', async () => {
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history: [fast] }));
+
+    await Promise.all([
+      startFast(user.id, user, env, new Date('2025-08-20T20:00:00.000Z')),
+      getUserLanguage(user, env)
+    ]);
+
+    const profile = JSON.parse((await fasts.get(`user:${user.id}`))!);
+    expect(profile.currentFast?.startedAt).toBe('2025-08-20T20:00:00.000Z');
+    expect(profile.history).toBeUndefined();
+  });
+
+  it('versions chat and API key records when authenticating', async () => {
+    const apiKey = 'alpha-bravo-charlie-delta-echo';
+    const keyHash = await hashApiKey(apiKey);
+    await apiKeys.put(keyHash, JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    expect((await authenticateChat(1919, apiKey, user, env)).success).toBe(true);
+    expect(JSON.parse((await chats.get('1919'))!).schemaVersion).toBe(SCHEMA_VERSIONS.chatAuth);
+    expect(JSON.parse((await apiKeys.get(keyHash))!).schemaVersion).toBe(SCHEMA_VERSIONS.apiKey);
+
+    await chats.put('1919', JSON.stringify({ api_key_hash: keyHash, authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    expect(await isAuthenticated(1919, env)).toBe(true);
+    expect(JSON.parse((await chats.get('1919'))!).schemaVersion).toBe(SCHEMA_VERSIONS.chatAuth);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getFastingPhase, formatFastingPhase, formatMilestoneReached, FASTING_MILESTONES, FastingMilestone } from '../src/fasting';
+import { handleFastCommand, handleEndCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Fasting milestones', () => {
+  it('reports the early phase before the first milestone', () => {
+    const phase = getFastingPhase(10 * HOUR);
+    expect(phase.current).toBeNull();
+    expect(phase.next?.phase).toBe('glycogen');
+    expect(phase.timeToNext).toBe(2 * HOUR);
+  });
+
+  it('reports the last milestone passed and the next one', () => {
+    const phase = getFastingPhase(17 * HOUR);
+    expect(phase.current?.phase).toBe('fatBurning');
+    expect(phase.next?.phase).toBe('ketosis');
+    expect(phase.timeToNext).toBe(HOUR);
+
+    expect(getFastingPhase(16 * HOUR).current?.hours).toBe(16);
+  });
+
+  it('has no next milestone after the last one', () => {
+    const phase = getFastingPhase(80 * HOUR);
+    expect(phase.current).toEqual(FASTING_MILESTONES[FASTING_MILESTONES.length - 1]);
+    expect(phase.next).toBeNull();
+    expect(phase.timeToNext).toBe(0);
+  });
+
+  it('accepts a custom milestone table', () => {
+    const custom: FastingMilestone[] = [
+      { hours: 20, emoji: '🟢', phase: 'autophagy' },
+      { hours: 8, emoji: '🔵', phase: 'glycogen' }
+    ];
+    const phase = getFastingPhase(9 * HOUR, custom);
+    expect(phase.current?.phase).toBe('glycogen');
+    expect(phase.next?.phase).toBe('autophagy');
+  });
+
+  it('formats the current phase with the next milestone ETA', () => {
+    const startedAt = '2025-08-20T02:00:00.000Z';
+    expect(formatFastingPhase(startedAt, 17.5 * HOUR, 'UTC'))
+      .toBe('🔥 Phase: Fat burning (16h+)\n⏭ Next: Ketosis at 18h — in 30m (20:00)');
+    expect(formatFastingPhase(startedAt, 3 * HOUR, 'Asia/Tokyo'))
+      .toBe('🌱 Phase: Early fast\n⏭ Next: Glycogen depletion at 12h — in 9h (23:00)');
+    expect(formatFastingPhase(startedAt, 73 * HOUR, 'UTC')).toBe('🛡️ Phase: Immune regeneration (72h+)');
+  });
+
+  it('formats the milestone reached at the end of a fast', () => {
+    expect(formatMilestoneReached(25 * HOUR)).toBe('♻️ Milestone reached: Autophagy (24h)');
+    expect(formatMilestoneReached(11 * HOUR)).toBe('🌱 1h short of Glycogen depletion (12h)');
+    expect(formatMilestoneReached(HOUR, 'en', [])).toBe('');
+  });
+});
+
+describe('Milestones in fasting replies', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  const chatId = 8080;
+  const messageId = 5;
+  const user: User = { id: 707, is_bot: false, first_name: 'Gina', username: 'gina' };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: new MockKV() as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:ms',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:ms', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the phase while fasting and the milestone when ending', async () => {
+    await handleFastCommand(chatId, user, messageId, env, '/f -13h');
+
+    const status = await handleFastCommand(chatId, user, messageId + 1, env, '/f');
+    expect(status.text).toContain('🔋 Phase: Glycogen depletion (12h+)');
+    expect(status.text).toContain('⏭ Next: Fat burning at 16h — in 3h');
+
+    const ended = await handleEndCommand(chatId, user, messageId + 2, env);
+    expect(ended.text).toContain('🔋 Milestone reached: Glycogen depletion (12h)');
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { handleNoteCommand, handleFastCommand, handleEndCommand, handleHistoryCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { encodeFastReference, formatFastRatings, getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Notes and ratings', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 9191;
+  const messageId = 21;
+  const user: User = { id: 808, is_bot: false, first_name: 'Hana', username: 'hana' };
+
+  const history: FastEntry[] = [
+    { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * HOUR, endedBy: user }
+  ];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:note',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:note', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function storeHistory(): Promise<void> {
+    const userData: UserFastingData = { timezone: 'UTC', history: [...history] };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  }
+
+  async function loadUserData(): Promise<UserFastingData> {
+    return getUserFastingData(user.id, env, 'all');
+  }
+
+  // Every tap is a separate callback query
+  let callbackCount = 0;
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: `cbq-rate-${++callbackCount}`,
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('/note without fasts explains there is nothing to annotate', async () => {
+    const res = await handleNoteCommand(chatId, user, messageId, '/note felt great', env);
+    expect(res.text).toBe('❌ You have no fasts to add a note to yet');
+  });
+
+  it('/note attaches to the last fast when not fasting and can be cleared', async () => {
+    await storeHistory();
+
+    const saved = await handleNoteCommand(chatId, user, messageId, '/note Easy one, lots of #water', env);
+    expect(saved.text).toBe('✅ Note saved on your last fast');
+    expect((await loadUserData()).history[0]?.note).toBe('Easy one, lots of #water');
+
+    const shown = await handleNoteCommand(chatId, user, messageId + 1, '/note', env);
+    expect(shown.text).toContain('📝 Note on your last fast: Easy one, lots of #water');
+
+    const cleared = await handleNoteCommand(chatId, user, messageId + 2, '/note clear', env);
+    expect(cleared.text).toBe('✅ Note removed from your last fast');
+    expect((await loadUserData()).history[0]?.note).toBeUndefined();
+  });
+
+  it('/note on the current fast carries over to the history entry', async () => {
+    await handleFastCommand(chatId, user, messageId, env, '/f -16h');
+    const saved = await handleNoteCommand(chatId, user, messageId + 1, '/note Busy day', env);
+    expect(saved.text).toBe('✅ Note saved on your current fast');
+
+    await handleEndCommand(chatId, user, messageId + 2, env);
+    expect((await loadUserData()).history[0]?.note).toBe('Busy day');
+  });
+
+  it('rejects notes that are too long', async () => {
+    await storeHistory();
+    const res = await handleNoteCommand(chatId, user, messageId, `/note ${'a'.repeat(281)}`, env);
+    expect(res.text).toBe('❌ Notes are limited to 280 characters');
+  });
+
+  it('offers a rating button after ending a fast', async () => {
+    await handleFastCommand(chatId, user, messageId, env, '/f -16h');
+    const ended = await handleEndCommand(chatId, user, messageId + 1, env);
+    const row = ended.replyMarkup?.inline_keyboard?.[0];
+    const stored = (await loadUserData()).history[0]!;
+
+    expect(row?.[0]?.callback_data).toBe('start_fast');
+    expect(row?.[1]?.text).toBe('📝 Rate this fast');
+    expect(row?.[1]?.callback_data).toBe(`rate_start_${encodeFastReference(0, stored)}`);
+  });
+
+  it('walks through hunger, energy and mood and stores the ratings', async () => {
+    await storeHistory();
+    const reference = encodeFastReference(0, history[0]!);
+
+    const hunger = await routeCallback(makeCallback(`rate_start_${reference}`), env);
+    expect(hunger.editMessage?.newText).toContain('📝 Rate your 16h fast (1/3)');
+    expect(hunger.editMessage?.newText).toContain('😋 Hunger:');
+    expect(hunger.editMessage?.newKeyboard?.inline_keyboard?.[0]?.[2]?.callback_data).toBe(`rate_hunger_3_${reference}`);
+
+    const energy = await routeCallback(makeCallback(`rate_hunger_3_${reference}`), env);
+    expect(energy.editMessage?.newText).toContain('⚡ Energy:');
+
+    const mood = await routeCallback(makeCallback(`rate_energy_4_${reference}`), env);
+    expect(mood.editMessage?.newText).toContain('🙂 Mood:');
+
+    const done = await routeCallback(makeCallback(`rate_mood_5_${reference}`), env);
+    expect(done.editMessage?.newText).toContain('✅ Thanks!');
+    expect(done.editMessage?.newText).toContain('😋 Hunger 3/5 • ⚡ Energy 4/5 • 🙂 Mood 5/5');
+
+    expect((await loadUserData()).history[0]?.ratings).toEqual({ hunger: 3, energy: 4, mood: 5 });
+  });
+
+  it('lets the user skip rating', async () => {
+    await storeHistory();
+    const res = await routeCallback(makeCallback('rate_skip'), env);
+    expect(res.editMessage?.newText).toBe('👌 No problem, rating skipped.');
+    expect((await loadUserData()).history[0]?.ratings).toBeUndefined();
+  });
+
+  it('shows notes and ratings in /history', async () => {
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      history: [{ ...history[0]!, note: 'Felt light', ratings: { hunger: 2, mood: 4 } }]
+    };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+
+    const res = await handleHistoryCommand(chatId, user, messageId, env);
+    expect(res.text).toContain('   📝 Felt light');
+    expect(res.text).toContain('   😋 Hunger 2/5 • 🙂 Mood 4/5');
+  });
+
+  it('formats only the ratings that were given', () => {
+    expect(formatFastRatings({ energy: 1 })).toBe('⚡ Energy 1/5');
+    expect(formatFastRatings({})).toBe('');
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  parseDateRange,
+  getStatisticsPeriod,
+  getRangeStatisticsPeriod,
+  shiftStatisticsPeriod,
+  getPeriodStatistics,
+  encodeStatisticsPeriod,
+  decodeStatisticsPeriod,
+  formatPeriodTitle
+} from '../src/fasting';
+import { routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, FastEntry, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 1111, is_bot: false, first_name: 'Lea', username: 'lea' };
+const goal = { protocol: '16:8', targetDuration: 16 * HOUR };
+
+function fast(endedAt: string, hours: number, withGoal: boolean = false): FastEntry {
+  const entry: FastEntry = {
+    startedAt: new Date(new Date(endedAt).getTime() - hours * HOUR).toISOString(),
+    endedAt,
+    duration: hours * HOUR,
+    endedBy: user
+  };
+  if (withGoal) {
+    entry.goal = goal;
+  }
+  return entry;
+}
+
+describe('Period statistics', () => {
+  const now = new Date('2025-08-20T12:00:00.000Z'); // Wednesday
+
+  it('parses and validates date ranges', () => {
+    expect(parseDateRange('2025-01-01..2025-03-31')).toEqual({ from: '2025-01-01', to: '2025-03-31' });
+    expect(parseDateRange('2025-01-01 .. 2025-01-01')).toEqual({ from: '2025-01-01', to: '2025-01-01' });
+    expect(parseDateRange('2025-02-30..2025-03-01').error).toBe('Invalid date: 2025-02-30. Use YYYY-MM-DD');
+    expect(parseDateRange('2025-03-01..2025-01-01').error).toBe('The range must start before it ends: 2025-03-01..2025-01-01');
+    expect(parseDateRange('last spring').error).toBe('Invalid date range: last spring. Use YYYY-MM-DD..YYYY-MM-DD');
+  });
+
+  it('builds week, month, year and range periods in the user timezone', () => {
+    expect(getStatisticsPeriod('week', now, 'UTC')).toMatchObject({ kind: 'week', from: '2025-08-18', to: '2025-08-24' });
+    expect(getStatisticsPeriod('week', now, 'UTC', 'sunday')).toMatchObject({ from: '2025-08-17', to: '2025-08-23' });
+    expect(getStatisticsPeriod('month', now, 'UTC')).toMatchObject({ from: '2025-08-01', to: '2025-08-31' });
+
+    const year = getStatisticsPeriod('year', now, 'Europe/Paris');
+    expect(year).toMatchObject({ from: '2025-01-01', to: '2025-12-31' });
+    expect(year.start.toISOString()).toBe('2024-12-31T23:00:00.000Z');
+
+    const range = getRangeStatisticsPeriod('2025-03-01', '2025-03-31', 'Europe/Paris');
+    expect(range.start.toISOString()).toBe('2025-02-28T23:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-03-31T22:00:00.000Z');
+  });
+
+  it('steps to previous and next periods', () => {
+    const month = getStatisticsPeriod('month', now, 'UTC');
+    expect(shiftStatisticsPeriod(month, -1, 'UTC')).toMatchObject({ from: '2025-07-01', to: '2025-07-31' });
+    expect(shiftStatisticsPeriod(month, 1, 'UTC')).toMatchObject({ from: '2025-09-01', to: '2025-09-30' });
+
+    const year = getStatisticsPeriod('year', now, 'UTC');
+    expect(shiftStatisticsPeriod(year, -1, 'UTC').from).toBe('2024-01-01');
+
+    const range = getRangeStatisticsPeriod('2025-08-01', '2025-08-10', 'UTC');
+    expect(shiftStatisticsPeriod(range, -1, 'UTC')).toMatchObject({ from: '2025-07-22', to: '2025-07-31' });
+  });
+
+  it('round-trips periods through callback data', () => {
+    const week = getStatisticsPeriod('week', now, 'UTC');
+    expect(encodeStatisticsPeriod(week)).toBe('week_2025-08-18');
+    expect(decodeStatisticsPeriod('week_2025-08-18', 'UTC')).toMatchObject({ kind: 'week', from: '2025-08-18', to: '2025-08-24' });
+
+    const range = getRangeStatisticsPeriod('2025-01-01', '2025-03-31', 'UTC');
+    expect(encodeStatisticsPeriod(range)).toBe('range_2025-01-01_2025-03-31');
+    expect(decodeStatisticsPeriod('range_2025-01-01_2025-03-31', 'UTC')).toMatchObject({ kind: 'range', from: '2025-01-01', to: '2025-03-31' });
+
+    expect(decodeStatisticsPeriod('week_2025-02-30', 'UTC')).toBeNull();
+    expect(decodeStatisticsPeriod('decade_2025-01-01', 'UTC')).toBeNull();
+  });
+
+  it('titles periods relative to now', () => {
+    const week = getStatisticsPeriod('week', now, 'UTC');
+    expect(formatPeriodTitle(week, 'UTC', 'monday', now)).toBe("📅 This Week's Fasting Summary");
+    expect(formatPeriodTitle(shiftStatisticsPeriod(week, -1, 'UTC'), 'UTC', 'monday', now)).toBe("📅 Last Week's Fasting Summary");
+    expect(formatPeriodTitle(shiftStatisticsPeriod(shiftStatisticsPeriod(week, -1, 'UTC'), -1, 'UTC'), 'UTC', 'monday', now))
+      .toBe('📅 Fasting Summary: 4 Aug 2025 – 10 Aug 2025');
+
+    const month = getStatisticsPeriod('month', now, 'UTC');
+    expect(formatPeriodTitle(shiftStatisticsPeriod(shiftStatisticsPeriod(month, -1, 'UTC'), -1, 'UTC'), 'UTC', 'monday', now)).toBe('📊 June 2025 Fasting Summary');
+    expect(formatPeriodTitle(getStatisticsPeriod('year', now, 'UTC'), 'UTC', 'monday', now)).toBe('📆 2025 Fasting Summary');
+    expect(formatPeriodTitle(getRangeStatisticsPeriod('2025-01-01', '2025-03-31', 'UTC'), 'UTC', 'monday', now))
+      .toBe('📈 Fasting Summary: 1 Jan 2025 – 31 Mar 2025');
+  });
+
+  it('computes median, fasting days and goal adherence', () => {
+    const history = [
+      fast('2025-08-18T08:00:00.000Z', 12, true),
+      fast('2025-08-18T20:00:00.000Z', 16, true),
+      fast('2025-08-19T12:00:00.000Z', 20, true),
+      fast('2025-08-20T10:00:00.000Z', 14),
+      fast('2025-08-10T10:00:00.000Z', 30)
+    ];
+
+    const stats = getPeriodStatistics(history, getStatisticsPeriod('week', now, 'UTC'), 'UTC');
+    expect(stats.totalFasts).toBe(4);
+    expect(stats.medianDuration).toBe(15 * HOUR);
+    expect(stats.fastingDays).toBe(3);
+    expect(stats.fastsWithGoal).toBe(3);
+    expect(stats.goalsMet).toBe(2);
+    expect(stats.goalAdherence).toBe(67);
+  });
+});
+
+describe('Period statistics commands', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 1212;
+  const messageId = 9;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:period',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:period', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      history: [
+        fast('2025-02-10T12:00:00.000Z', 18, true),
+        fast('2025-07-15T12:00:00.000Z', 16, true),
+        fast('2025-08-12T12:00:00.000Z', 14, true),
+        fast('2025-08-19T12:00:00.000Z', 20)
+      ]
+    };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: 'cbq-period',
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('/year summarizes the current year without a next button', async () => {
+    const res = await routeCommand('year', chatId, user, messageId, '/year', env);
+    expect(res!.text).toContain('📆 2025 Fasting Summary');
+    expect(res!.text).toContain('📈 Total fasts: 4');
+    expect(res!.text).toContain('⚖️ Median duration: 17h');
+    expect(res!.text).toContain('🎯 Goals met: 2/3 (67%)');
+
+    const nav = res!.replyMarkup!.inline_keyboard[1];
+    expect(nav).toHaveLength(1);
+    expect(nav?.[0]?.callback_data).toBe('stats_year_2024-01-01');
+  });
+
+  it('/lastweek and /lastmonth show the previous period with both buttons', async () => {
+    const week = await routeCommand('lastweek', chatId, user, messageId, '/lastweek', env);
+    expect(week!.text).toContain("📅 Last Week's Fasting Summary");
+    expect(week!.text).toContain('📈 Total fasts: 1');
+    expect(week!.replyMarkup!.inline_keyboard[1]?.map(button => button.callback_data))
+      .toEqual(['stats_week_2025-08-04', 'stats_week_2025-08-18']);
+
+    const month = await routeCommand('lastmonth', chatId, user, messageId, '/lastmonth', env);
+    expect(month!.text).toContain("📊 Last Month's Fasting Summary");
+    expect(month!.text).toContain('🏆 Longest fast: 16h');
+  });
+
+  it('/week compares each figure with last week and the all-time weekly average or best', async () => {
+    const res = await routeCommand('week', chatId, user, messageId, '/week', env);
+    expect(res!.text).toContain('📈 Total fasts: 1 (= vs last week • ▲ +0.9 vs avg)');
+    expect(res!.text).toContain('⏰ Total hours: 20h (▲ +6h vs last week • ▲ +17.6h vs avg)');
+    expect(res!.text).toContain('📊 Average duration: 20h (▲ +6h vs last week • ▲ +3h vs avg)');
+    // The longest fast is measured against the longest ever (20h), not the average fast (17h)
+    expect(res!.text).toContain('🏆 Longest fast: 20h (▲ +6h vs last week • = vs best)');
+
+    const lastWeek = await routeCommand('lastweek', chatId, user, messageId, '/lastweek', env);
+    expect(lastWeek!.text).toContain('📈 Total fasts: 1 (▲ +1 vs previous week • ▲ +0.9 vs avg)');
+    expect(lastWeek!.text).toContain('🏆 Longest fast: 14h (▲ +14h vs previous week • ▼ −6h vs best)');
+
+    const range = await routeCommand('stats', chatId, user, messageId, '/stats 2025-01-01..2025-07-31', env);
+    expect(range!.text).toContain('📈 Total fasts: 2\n');
+  });
+
+  it('/stats accepts an arbitrary date range', async () => {
+    const res = await routeCommand('stats', chatId, user, messageId, '/stats 2025-01-01..2025-07-31', env);
+    expect(res!.text).toContain('📈 Fasting Summary: 1 Jan 2025 – 31 Jul 2025');
+    expect(res!.text).toContain('📈 Total fasts: 2');
+    expect(res!.text).toContain('📆 Fasting days: 2');
+
+    const invalid = await routeCommand('stats', chatId, user, messageId, '/stats 2025-13-01..2025-12-31', env);
+    expect(invalid!.text).toBe('❌ Invalid date: 2025-13-01. Use YYYY-MM-DD');
+  });
+
+  it('steps between periods via inline buttons', async () => {
+    const res = await routeCallback(makeCallback('stats_month_2025-06-01'), env);
+    expect(res.editMessage?.newText).toContain('📊 June 2025 Fasting Summary');
+    expect(res.editMessage?.newText).toContain('No fasts completed in this period.');
+
+    const nav = res.editMessage?.newKeyboard?.inline_keyboard[1];
+    expect(nav?.map(button => button.callback_data)).toEqual(['stats_month_2025-05-01', 'stats_month_2025-07-01']);
+
+    const current = await routeCallback(makeCallback('stats_month_2025-08-01'), env);
+    expect(current.editMessage?.newText).toContain("📊 This Month's Fasting Summary");
+  });
+});
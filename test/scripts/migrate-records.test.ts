@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { migrateAllRecords, getLiveWebhookUrl } from '../../scripts/migrate-records';
+import { SCHEMA_VERSIONS } from '../../src/migrations';
+import { MockKV } from '../utils/mockKv';
+
+describe('migrateAllRecords', () => {
+  it('upgrades every outdated record and skips current ones', async () => {
+    const fasts = new MockKV();
+    const chats = new MockKV();
+    const apiKeys = new MockKV();
+    const fast = { startedAt: '2025-08-18T20:00:00.000Z', endedAt: '2025-08-19T12:00:00.000Z', duration: 16 * 3600000, endedBy: { id: 1, is_bot: false, first_name: 'A' } };
+
+    await fasts.put('user:1', JSON.stringify({ timezone: 'UTC', history: [fast] }));
+    await fasts.put('user:2', JSON.stringify({ timezone: 'UTC', historyShards: {}, schemaVersion: SCHEMA_VERSIONS.userFasting }));
+    await fasts.put('user:2:weights', JSON.stringify({ unit: 'kg', entries: [] }));
+    await chats.put('100', JSON.stringify({ api_key_hash: 'sha256:a', authenticated_at: '2025-08-01T00:00:00.000Z', authenticated_by: fast.endedBy }));
+    await apiKeys.put('sha256:a', JSON.stringify({ name: 'Key', expiry: '2030-01-01', created: '2025-08-01T00:00:00.000Z', schemaVersion: SCHEMA_VERSIONS.apiKey }));
+
+    const counts = await migrateAllRecords({ FASTS: fasts as any, CHATS: chats as any, API_KEYS: apiKeys as any });
+    expect(counts).toEqual({ userFasting: 1, chatAuth: 1, apiKey: 0 });
+
+    expect(fasts.keys().sort()).toEqual(['user:1', 'user:1:fasts:2025-08', 'user:2', 'user:2:weights']);
+    expect(JSON.parse((await fasts.get('user:1'))!).schemaVersion).toBe(SCHEMA_VERSIONS.userFasting);
+    expect(JSON.parse((await chats.get('100'))!).schemaVersion).toBe(SCHEMA_VERSIONS.chatAuth);
+
+    expect(await migrateAllRecords({ FASTS: fasts as any, CHATS: chats as any, API_KEYS: apiKeys as any }))
+      .toEqual({ userFasting: 0, chatAuth: 0, apiKey: 0 });
+  });
+});
+
+describe('getLiveWebhookUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubWebhookInfo(body: unknown) {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(body)));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  it('returns the webhook URL while the bot is live', async () => {
+    const fetchMock = stubWebhookInfo({ ok: true, result: { url: 'https://zenfast.example.workers.dev/webhook' } });
+    expect(await getLiveWebhookUrl('123:abc')).toBe('https://zenfast.example.workers.dev/webhook');
+    expect(fetchMock).toHaveBeenCalledWith('https://api.telegram.org/bot123:abc/getWebhookInfo');
+  });
+
+  it('returns null once the webhook is deleted', async () => {
+    stubWebhookInfo({ ok: true, result: { url: '' } });
+    expect(await getLiveWebhookUrl('123:abc')).toBeNull();
+  });
+
+  it('fails when Telegram cannot tell', async () => {
+    stubWebhookInfo({ ok: false, description: 'Unauthorized' });
+    await expect(getLiveWebhookUrl('123:abc')).rejects.toThrow('Failed to check webhook: Unauthorized');
+  });
+});
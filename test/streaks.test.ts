@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { calculateStreaks, formatStreakSummary } from '../src/fasting';
+import { handleStreakCommand, handleFastCommand, handleEndCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, FastEntry, FastingGoal, UserFastingData } from '../src/types';
+
+const HOUR = 60 * 60 * 1000;
+const user: User = { id: 505, is_bot: false, first_name: 'Eve', username: 'eve' };
+const goal: FastingGoal = { protocol: '16:8', targetDuration: 16 * HOUR };
+
+function fastEndingAt(endedAt: string, hours: number, withGoal: boolean = false): FastEntry {
+  const end = new Date(endedAt);
+  const entry: FastEntry = {
+    startedAt: new Date(end.getTime() - hours * HOUR).toISOString(),
+    endedAt: end.toISOString(),
+    duration: hours * HOUR,
+    endedBy: user
+  };
+  if (withGoal) {
+    entry.goal = goal;
+  }
+  return entry;
+}
+
+describe('calculateStreaks', () => {
+  const now = new Date('2025-08-20T18:00:00.000Z');
+
+  it('returns zeros for empty history', () => {
+    expect(calculateStreaks([], 'UTC', now)).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      currentGoalStreak: 0,
+      longestGoalStreak: 0
+    });
+  });
+
+  it('counts consecutive calendar days and keeps the streak alive until today ends', () => {
+    const history = [
+      fastEndingAt('2025-08-10T12:00:00Z', 16),
+      fastEndingAt('2025-08-11T12:00:00Z', 16),
+      fastEndingAt('2025-08-12T12:00:00Z', 16),
+      fastEndingAt('2025-08-13T12:00:00Z', 16),
+      fastEndingAt('2025-08-17T12:00:00Z', 16),
+      fastEndingAt('2025-08-18T12:00:00Z', 16),
+      fastEndingAt('2025-08-18T22:00:00Z', 8),
+      fastEndingAt('2025-08-19T12:00:00Z', 16)
+    ];
+
+    const streaks = calculateStreaks(history, 'UTC', now);
+    expect(streaks.currentStreak).toBe(3);
+    expect(streaks.longestStreak).toBe(4);
+  });
+
+  it('breaks the current streak after a missed day', () => {
+    const history = [
+      fastEndingAt('2025-08-16T12:00:00Z', 16),
+      fastEndingAt('2025-08-17T12:00:00Z', 16)
+    ];
+
+    const streaks = calculateStreaks(history, 'UTC', now);
+    expect(streaks.currentStreak).toBe(0);
+    expect(streaks.longestStreak).toBe(2);
+  });
+
+  it('uses the user timezone to assign fasts to days', () => {
+    // 22:30 UTC on Aug 18 is already Aug 19 in Tokyo
+    const history = [
+      fastEndingAt('2025-08-17T12:00:00Z', 16),
+      fastEndingAt('2025-08-18T22:30:00Z', 16)
+    ];
+
+    expect(calculateStreaks(history, 'UTC', now).longestStreak).toBe(2);
+    expect(calculateStreaks(history, 'Asia/Tokyo', now).longestStreak).toBe(1);
+  });
+
+  it('tracks streaks of days meeting the goal separately', () => {
+    const history = [
+      fastEndingAt('2025-08-17T12:00:00Z', 17, true),
+      fastEndingAt('2025-08-18T12:00:00Z', 12, true),
+      fastEndingAt('2025-08-19T12:00:00Z', 16, true),
+      fastEndingAt('2025-08-20T12:00:00Z', 18, true)
+    ];
+
+    const streaks = calculateStreaks(history, 'UTC', now);
+    expect(streaks.currentStreak).toBe(4);
+    expect(streaks.currentGoalStreak).toBe(2);
+    expect(streaks.longestGoalStreak).toBe(2);
+  });
+
+  it('formats a streak summary', () => {
+    expect(formatStreakSummary({ currentStreak: 1, longestStreak: 5, currentGoalStreak: 0, longestGoalStreak: 0 }))
+      .toBe('🔥 Streak: 1 day (longest: 5 days)');
+  });
+});
+
+describe('Streak commands', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 6060;
+  const messageId = 3;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T18:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:streak',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:streak', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires authentication', async () => {
+    const res = await handleStreakCommand(1, user, messageId, env);
+    expect(res.text).toContain('Please authenticate');
+  });
+
+  it('shows an empty state without history', async () => {
+    const res = await handleStreakCommand(chatId, user, messageId, env);
+    expect(res.text).toContain('No streaks yet');
+  });
+
+  it('shows current, longest and goal streaks', async () => {
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      defaultGoal: goal,
+      history: [
+        fastEndingAt('2025-08-18T12:00:00Z', 14, true),
+        fastEndingAt('2025-08-19T12:00:00Z', 16, true),
+        fastEndingAt('2025-08-20T12:00:00Z', 17, true)
+      ]
+    };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+
+    const res = await handleStreakCommand(chatId, user, messageId, env);
+    expect(res.text).toContain('📆 Current streak: 3 days');
+    expect(res.text).toContain('🏆 Longest streak: 3 days');
+    expect(res.text).toContain('🎯 Current goal streak: 2 days');
+  });
+
+  it('appends the streak to the end-of-fast message', async () => {
+    const userData: UserFastingData = {
+      timezone: 'UTC',
+      history: [fastEndingAt('2025-08-19T12:00:00Z', 16)]
+    };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+
+    await handleFastCommand(chatId, user, messageId, env, '/f -16h');
+    const res = await handleEndCommand(chatId, user, messageId + 1, env);
+    expect(res.text).toContain('✅ Great job! You fasted for 16h');
+    expect(res.text).toContain('🔥 Streak: 2 days (longest: 2 days)');
+  });
+});
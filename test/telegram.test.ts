@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { TelegramApi, createTelegramApi } from '../src/telegram';
+import { TelegramApi, createTelegramApi, createNumberedButtonRows, escapeHtml } from '../src/telegram';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -83,6 +83,43 @@ describe('TelegramApi', () => {
     });
   });
 
+  describe('sendPhoto', () => {
+    it('should upload the photo as multipart form data', async () => {
+      mockFetch.mockResolvedValueOnce({
+        json: () => Promise.resolve({ ok: true }),
+      });
+
+      const result = await api.sendPhoto({
+        chat_id: 123,
+        photo: new Uint8Array([1, 2, 3]),
+        caption: 'Chart',
+        reply_to_message_id: 7,
+      });
+
+      expect(result).toEqual({ ok: true });
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toBe(`https://api.telegram.org/bot${botToken}/sendPhoto`);
+      const form = init.body as FormData;
+      expect(form.get('chat_id')).toBe('123');
+      expect(form.get('caption')).toBe('Chart');
+      expect(form.get('reply_to_message_id')).toBe('7');
+      const photo = form.get('photo') as unknown as File;
+      expect(photo.name).toBe('chart.png');
+      expect(new Uint8Array(await photo.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('should handle network errors', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await api.sendPhoto({ chat_id: 123, photo: new Uint8Array([1]) });
+
+      expect(result).toEqual({
+        ok: false,
+        description: 'Network error occurred',
+      });
+    });
+  });
+
   describe('setWebhook', () => {
     it('should set webhook successfully', async () => {
       const mockResponse = {
@@ -114,6 +151,47 @@ describe('TelegramApi', () => {
     });
   });
 
+  describe('setMyCommands', () => {
+    it('should publish commands for a scope and language', async () => {
+      const mockResponse = {
+        ok: true,
+        result: true,
+      };
+
+      mockFetch.mockResolvedValueOnce({
+        json: () => Promise.resolve(mockResponse),
+      });
+
+      const params = {
+        commands: [{ command: 'fast', description: 'Zacznij post' }],
+        scope: { type: 'all_group_chats' as const },
+        language_code: 'pl',
+      };
+      const result = await api.setMyCommands(params);
+
+      expect(result).toEqual(mockResponse);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.telegram.org/bot${botToken}/setMyCommands`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(params),
+        }
+      );
+    });
+
+    it('should handle network errors', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await api.setMyCommands({ commands: [] });
+
+      expect(result).toEqual({
+        ok: false,
+        description: 'Network error occurred',
+      });
+    });
+  });
+
   describe('getWebhookInfo', () => {
     it('should get webhook info successfully', async () => {
       const mockResponse = {
@@ -144,4 +222,22 @@ describe('TelegramApi', () => {
       expect(api).toBeInstanceOf(TelegramApi);
     });
   });
-});
\ No newline at end of file
+
+  describe('escapeHtml', () => {
+    it('should escape characters Telegram reads as markup', () => {
+      expect(escapeHtml('<12h & 20h+ > 16h')).toBe('&lt;12h &amp; 20h+ &gt; 16h');
+    });
+  });
+
+  describe('createNumberedButtonRows', () => {
+    it('should label buttons 1..N and wrap rows at the column count', () => {
+      const rows = createNumberedButtonRows(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+      expect(rows).toHaveLength(2);
+      expect(rows[0]?.map(button => button.text)).toEqual(['1', '2', '3', '4', '5']);
+      expect(rows[1]).toEqual([
+        { text: '6', callback_data: 'f' },
+        { text: '7', callback_data: 'g' }
+      ]);
+    });
+  });
+});
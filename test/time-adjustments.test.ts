@@ -1,5 +1,7 @@
 import { describe, test, expect } from 'vitest';
-import { parseTimeAdjustment, validateTimelineConsistency, formatAdjustedTime } from '../src/time-adjustments';
+import { parseTimeAdjustment, parseTimeRange, validateTimelineConsistency, formatAdjustedTime } from '../src/time-adjustments';
+import { validateFastTimeline } from '../src/fasting';
+import type { FastEntry } from '../src/types';
 
 describe('parseTimeAdjustment', () => {
   const baseTime = new Date('2024-01-15T10:00:00.000Z'); // Monday 10:00 UTC
@@ -67,7 +69,7 @@ describe('parseTimeAdjustment', () => {
 
     test('returns error for invalid unit', () => {
       const result = parseTimeAdjustment('-2x', baseTime, timezone);
-      expect(result.error).toBe('Invalid time format: -2x. Use formats like: -2h, -30m, -1d, 14:00, 09:30');
+      expect(result.error).toBe('Invalid time format: -2x. Did not understand "-2x". Use formats like: -2h, -1h30m, 2h ago, 14:00, 8pm, yesterday 21:00, last night 20:30, mon 19:00');
     });
   });
 
@@ -103,7 +105,7 @@ describe('parseTimeAdjustment', () => {
   describe('error cases', () => {
     test('returns error for invalid format', () => {
       const result = parseTimeAdjustment('invalid', baseTime, timezone);
-      expect(result.error).toBe('Invalid time format: invalid. Use formats like: -2h, -30m, -1d, 14:00, 09:30');
+      expect(result.error).toBe('Invalid time format: invalid. Did not understand "invalid". Use formats like: -2h, -1h30m, 2h ago, 14:00, 8pm, yesterday 21:00, last night 20:30, mon 19:00');
     });
 
     test('returns empty result for empty input', () => {
@@ -118,14 +120,177 @@ describe('parseTimeAdjustment', () => {
       expect(result.adjustment).toBeUndefined();
     });
 
+    test('lists every word that was not understood', () => {
+      const result = parseTimeAdjustment('tomorrow around 14:00', baseTime, timezone);
+      expect(result.error).toContain('Invalid time format: tomorrow around 14:00. Did not understand "tomorrow", "around".');
+    });
+
+    test('explains incomplete or ambiguous input', () => {
+      expect(parseTimeAdjustment('yesterday', baseTime, timezone).error).toContain('"yesterday" needs a time, e.g. yesterday 21:00');
+      expect(parseTimeAdjustment('ago', baseTime, timezone).error).toContain('"ago" must follow an amount of time');
+      expect(parseTimeAdjustment('+2h ago', baseTime, timezone).error).toContain('cannot be combined with "ago"');
+      expect(parseTimeAdjustment('14:00 -2h', baseTime, timezone).error).toContain('Expected a single time but found extra "-2h"');
+      expect(parseTimeAdjustment('14', baseTime, timezone).error).toContain('Did not understand "14"');
+      expect(parseTimeAdjustment('13pm', baseTime, timezone).error).toBe('Invalid hour: 13. Must be 1-12 with am/pm');
+    });
+  });
+
+  describe('compound and natural-language times', () => {
     test.each([
-      'yesterday 14:00',
-      'today 14:00',
-      'tomorrow 14:00',
-    ])('returns error for natural language date format "%s"', (input) => {
+      ['-1h30m', '2024-01-15T08:30:00.000Z'],
+      ['1h 30m', '2024-01-15T08:30:00.000Z'],
+      ['2h ago', '2024-01-15T08:00:00.000Z'],
+      ['30 min ago', '2024-01-15T09:30:00.000Z'],
+      ['1 hour 15 minutes ago', '2024-01-15T08:45:00.000Z'],
+      ['+1h30m', '2024-01-15T11:30:00.000Z'],
+    ])('parses relative "%s"', (input, expected) => {
       const result = parseTimeAdjustment(input, baseTime, timezone);
-      expect(result.error).toBe(`Invalid time format: ${input}. Use formats like: -2h, -30m, -1d, 14:00, 09:30`);
+      expect(result.adjustment?.type).toBe('relative');
+      expect(result.adjustment?.value.toISOString()).toBe(expected);
     });
+
+    test.each([
+      ['8pm', '2024-01-14T19:00:00.000Z'],
+      ['8:30am', '2024-01-15T07:30:00.000Z'],
+      ['12am', '2024-01-14T23:00:00.000Z'],
+      ['yesterday 21:00', '2024-01-14T20:00:00.000Z'],
+      ['Yesterday 9 pm', '2024-01-14T20:00:00.000Z'],
+      ['8pm yesterday', '2024-01-14T19:00:00.000Z'],
+      ['today 06:15', '2024-01-15T05:15:00.000Z'],
+      ['last night 20:30', '2024-01-14T19:30:00.000Z'],
+      ['last night 8:30', '2024-01-14T19:30:00.000Z'],
+      ['last night 1am', '2024-01-15T00:00:00.000Z'],
+      ['mon 07:00', '2024-01-15T06:00:00.000Z'],
+      ['sun 19:00', '2024-01-14T18:00:00.000Z'],
+      ['last monday 19:00', '2024-01-08T18:00:00.000Z'],
+      ['fri 8pm', '2024-01-12T19:00:00.000Z'],
+    ])('parses absolute "%s"', (input, expected) => {
+      const result = parseTimeAdjustment(input, baseTime, timezone);
+      expect(result.error).toBeUndefined();
+      expect(result.adjustment?.type).toBe('absolute');
+      expect(result.adjustment?.value.toISOString()).toBe(expected);
+    });
+
+    test('resolves day words against now and bare times against the base time', () => {
+      const fastEnd = new Date('2024-01-10T11:00:00.000Z');
+      expect(parseTimeAdjustment('14:00', fastEnd, timezone, baseTime).adjustment?.value.toISOString()).toBe('2024-01-10T13:00:00.000Z');
+      expect(parseTimeAdjustment('yesterday 14:00', fastEnd, timezone, baseTime).adjustment?.value.toISOString()).toBe('2024-01-14T13:00:00.000Z');
+      expect(parseTimeAdjustment('-1h', fastEnd, timezone, baseTime).adjustment?.value.toISOString()).toBe('2024-01-10T10:00:00.000Z');
+    });
+  });
+});
+
+describe('absolute times around DST and midnight', () => {
+  const timezone = 'Europe/Paris';
+
+  test('rolls a future clock time back to its most recent occurrence', () => {
+    const justAfterMidnight = new Date('2024-01-15T23:30:00.000Z'); // 00:30 on the 16th in Paris
+    expect(parseTimeAdjustment('23:00', justAfterMidnight, timezone).adjustment?.value.toISOString()).toBe('2024-01-15T22:00:00.000Z');
+    expect(parseTimeAdjustment('00:15', justAfterMidnight, timezone).adjustment?.value.toISOString()).toBe('2024-01-15T23:15:00.000Z');
+  });
+
+  test('rolls a future weekday time back a week but keeps explicit days', () => {
+    const mondayMorning = new Date('2024-01-15T10:00:00.000Z');
+    expect(parseTimeAdjustment('mon 19:00', mondayMorning, timezone).adjustment?.value.toISOString()).toBe('2024-01-08T18:00:00.000Z');
+    expect(parseTimeAdjustment('today 19:00', mondayMorning, timezone).adjustment?.value.toISOString()).toBe('2024-01-15T18:00:00.000Z');
+  });
+
+  test('uses the offset in effect at the requested time, not at parse time', () => {
+    const afterSpringForward = new Date('2024-03-31T10:00:00.000Z');
+    expect(parseTimeAdjustment('yesterday 21:00', afterSpringForward, timezone).adjustment?.value.toISOString()).toBe('2024-03-30T20:00:00.000Z');
+    expect(parseTimeAdjustment('01:30', afterSpringForward, timezone).adjustment?.value.toISOString()).toBe('2024-03-31T00:30:00.000Z');
+    expect(parseTimeAdjustment('09:00', afterSpringForward, timezone).adjustment?.value.toISOString()).toBe('2024-03-31T07:00:00.000Z');
+  });
+
+  test('moves times skipped by spring-forward past the gap and says so', () => {
+    const result = parseTimeAdjustment('02:30', new Date('2024-03-31T10:00:00.000Z'), timezone);
+    expect(result.adjustment?.value.toISOString()).toBe('2024-03-31T01:30:00.000Z');
+    expect(result.adjustment?.notice).toBe('02:30 was skipped when clocks went forward; using 03:30');
+  });
+
+  test('picks the first of two repeated fall-back times and says so', () => {
+    const result = parseTimeAdjustment('02:30', new Date('2024-10-27T10:00:00.000Z'), timezone);
+    expect(result.adjustment?.value.toISOString()).toBe('2024-10-27T00:30:00.000Z');
+    expect(result.adjustment?.notice).toBe('02:30 happened twice when clocks went back; using the first one');
+
+    const unaffected = parseTimeAdjustment('03:30', new Date('2024-10-27T10:00:00.000Z'), timezone);
+    expect(unaffected.adjustment?.value.toISOString()).toBe('2024-10-27T02:30:00.000Z');
+    expect(unaffected.adjustment?.notice).toBeUndefined();
+  });
+
+  test('says so when an ISO datetime without an offset falls in a skipped or repeated hour', () => {
+    const skipped = parseTimeAdjustment('2025-03-30T02:30', new Date('2025-03-30T10:00:00.000Z'), timezone);
+    expect(skipped.adjustment?.value.toISOString()).toBe('2025-03-30T01:30:00.000Z');
+    expect(skipped.adjustment?.notice).toBe('02:30 was skipped when clocks went forward; using 03:30');
+
+    const repeated = parseTimeAdjustment('2025-10-26T02:30', new Date('2025-10-26T10:00:00.000Z'), timezone);
+    expect(repeated.adjustment?.value.toISOString()).toBe('2025-10-26T00:30:00.000Z');
+    expect(repeated.adjustment?.notice).toBe('02:30 happened twice when clocks went back; using the first one');
+
+    const withOffset = parseTimeAdjustment('2025-10-26T02:30+01:00', new Date('2025-10-26T10:00:00.000Z'), timezone);
+    expect(withOffset.adjustment?.value.toISOString()).toBe('2025-10-26T01:30:00.000Z');
+    expect(withOffset.adjustment?.notice).toBeUndefined();
+  });
+
+  test('reports DST notices for ranges', () => {
+    const result = parseTimeRange('yesterday 20:00 02:30', new Date('2024-03-31T10:00:00.000Z'), timezone);
+    expect(result.range?.end.toISOString()).toBe('2024-03-31T01:30:00.000Z');
+    expect(result.notices).toEqual(['02:30 was skipped when clocks went forward; using 03:30']);
+  });
+});
+
+describe('parseTimeRange', () => {
+  const now = new Date('2024-01-15T10:00:00.000Z');
+  const timezone = 'Europe/Paris'; // UTC+1 in winter
+
+  test('parses day words with clock times', () => {
+    const result = parseTimeRange('yesterday 20:00 today 09:30', now, timezone);
+    expect(result.error).toBeUndefined();
+    expect(result.range?.start.toISOString()).toBe('2024-01-14T19:00:00.000Z');
+    expect(result.range?.end.toISOString()).toBe('2024-01-15T08:30:00.000Z');
+  });
+
+  test('parses ISO datetimes separated by ..', () => {
+    const result = parseTimeRange('2024-01-01T20:00..2024-01-02T12:00', now, timezone);
+    expect(result.range?.start.toISOString()).toBe('2024-01-01T19:00:00.000Z');
+    expect(result.range?.end.toISOString()).toBe('2024-01-02T11:00:00.000Z');
+  });
+
+  test('respects explicit offsets in ISO datetimes', () => {
+    const result = parseTimeRange('2024-01-01T20:00:00Z 2024-01-02T12:00:00+02:00', now, timezone);
+    expect(result.range?.start.toISOString()).toBe('2024-01-01T20:00:00.000Z');
+    expect(result.range?.end.toISOString()).toBe('2024-01-02T10:00:00.000Z');
+  });
+
+  test('accepts the same natural-language times as single adjustments', () => {
+    const result = parseTimeRange('last night 21:00 2h ago', now, timezone);
+    expect(result.range?.start.toISOString()).toBe('2024-01-14T20:00:00.000Z');
+    expect(result.range?.end.toISOString()).toBe('2024-01-15T08:00:00.000Z');
+  });
+
+  test('rejects ISO datetimes that do not exist', () => {
+    expect(parseTimeRange('2026-01-01T25:00Z 2026-01-02T12:00Z', now, timezone).error).toBe('Invalid hour: 25. Must be 0-23');
+    expect(parseTimeRange('2026-01-01T20:00 2026-01-02T12:75', now, timezone).error).toBe('Invalid minutes: 75. Must be 0-59');
+    expect(parseTimeRange('2026-13-01T20:00Z 2026-13-02T12:00Z', now, timezone).error).toBe('Invalid date: 2026-13-01T20:00Z. Use formats like 2026-10-18T20:00');
+    expect(parseTimeRange('2026-02-30T20:00 2026-03-01T12:00', now, timezone).error).toBe('Invalid date: 2026-02-30T20:00. Use formats like 2026-10-18T20:00');
+    expect(parseTimeRange('2026-02-30 20:00 .. 2026-03-01 12:00', now, timezone).error).toBe('Invalid date: 2026-02-30. Use formats like 2026-10-18');
+    expect(parseTimeAdjustment('2026-01-01T25:00Z', now, timezone).error).toBe('Invalid hour: 25. Must be 0-23');
+
+    const singleDigitHour = parseTimeRange('2026-01-01T9:00Z..2026-01-01T18:00Z', now, timezone);
+    expect(singleDigitHour.range?.start.toISOString()).toBe('2026-01-01T09:00:00.000Z');
+  });
+
+  test('parses dates with separate clock times', () => {
+    const result = parseTimeRange('2024-01-01 20:00 .. 2024-01-02 12:00', now, timezone);
+    expect(result.range?.start.toISOString()).toBe('2024-01-01T19:00:00.000Z');
+    expect(result.range?.end.toISOString()).toBe('2024-01-02T11:00:00.000Z');
+  });
+
+  test('reports unknown tokens and missing ends', () => {
+    expect(parseTimeRange('next tuesday', now, timezone).error).toContain('Could not understand "next" in time range');
+    expect(parseTimeRange('last tuesday', now, timezone).error).toContain('"last tuesday" needs a time');
+    expect(parseTimeRange('yesterday 20:00', now, timezone).error).toContain('Expected a start and an end time');
+    expect(parseTimeRange('', now, timezone).error).toContain('Missing time range');
   });
 });
 
@@ -174,6 +339,50 @@ describe('validateTimelineConsistency', () => {
   });
 });
 
+describe('validateFastTimeline', () => {
+  const now = new Date('2024-01-15T10:00:00.000Z');
+  const user = { id: 1, is_bot: false, first_name: 'Test' };
+  const history: FastEntry[] = [
+    { startedAt: '2024-01-10T20:00:00.000Z', endedAt: '2024-01-11T12:00:00.000Z', duration: 16 * 3600000, endedBy: user },
+    { startedAt: '2024-01-12T20:00:00.000Z', endedAt: '2024-01-13T12:00:00.000Z', duration: 16 * 3600000, endedBy: user }
+  ];
+
+  test('allows a fast between existing entries', () => {
+    const result = validateFastTimeline(history, new Date('2024-01-11T20:00:00.000Z'), new Date('2024-01-12T12:00:00.000Z'), 'UTC', { now });
+    expect(result.valid).toBe(true);
+  });
+
+  test('allows entries older than the backdating window', () => {
+    const result = validateFastTimeline(history, new Date('2023-12-01T20:00:00.000Z'), new Date('2023-12-02T12:00:00.000Z'), 'UTC', { now });
+    expect(result.valid).toBe(true);
+  });
+
+  test('rejects overlaps with other entries', () => {
+    const result = validateFastTimeline(history, new Date('2024-01-11T10:00:00.000Z'), new Date('2024-01-12T12:00:00.000Z'), 'UTC', { now });
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Overlaps with your fast from 10 Jan, 20:00 to 11 Jan, 12:00');
+  });
+
+  test('ignores the entry being edited', () => {
+    const result = validateFastTimeline(history, new Date('2024-01-12T18:00:00.000Z'), new Date('2024-01-13T14:00:00.000Z'), 'UTC', { now, excludeIndex: 1 });
+    expect(result.valid).toBe(true);
+  });
+
+  test('rejects overlaps with the current fast', () => {
+    const result = validateFastTimeline([], new Date('2024-01-14T10:00:00.000Z'), new Date('2024-01-15T09:00:00.000Z'), 'UTC', {
+      now,
+      currentFast: { startedAt: '2024-01-15T08:00:00.000Z' }
+    });
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('Overlaps with your current fast');
+  });
+
+  test('rejects inverted and future ranges', () => {
+    expect(validateFastTimeline([], now, new Date('2024-01-15T09:00:00.000Z'), 'UTC', { now }).error).toBe('A fast must end after it started');
+    expect(validateFastTimeline([], new Date('2024-01-15T09:00:00.000Z'), new Date('2024-01-15T11:00:00.000Z'), 'UTC', { now }).error).toBe('Cannot end a fast in the future');
+  });
+});
+
 describe('formatAdjustedTime', () => {
   const timezone = 'Europe/Paris';
   
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { handleUndoCommand, routeCommand } from '../src/commands';
+import { routeCallback } from '../src/callbacks';
+import { startFast, encodeFastReference, getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, CallbackQuery, FastEntry, UserFastingData } from '../src/types';
+
+describe('Undo Flow', () => {
+  let env: Env;
+  let apiKeys: MockKV;
+  let chats: MockKV;
+  let fasts: MockKV;
+  const chatId = 8888;
+  const messageId = 55;
+  const user: User = { id: 202, is_bot: false, first_name: 'Bob', username: 'bob' };
+
+  beforeEach(async () => {
+    apiKeys = new MockKV();
+    chats = new MockKV();
+    fasts = new MockKV();
+
+    env = {
+      BOT_TOKEN: 'tkn',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 'whs',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:key',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:key', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+  });
+
+  function makeHistory(count: number): FastEntry[] {
+    const history: FastEntry[] = [];
+    for (let i = count; i > 0; i--) {
+      const endedAt = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
+      const startedAt = new Date(endedAt.getTime() - (10 + i) * 60 * 60 * 1000);
+      history.push({
+        startedAt: startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+        duration: endedAt.getTime() - startedAt.getTime(),
+        endedBy: user
+      });
+    }
+    return history;
+  }
+
+  async function storeHistory(history: FastEntry[]): Promise<void> {
+    const userData: UserFastingData = { timezone: 'UTC', history };
+    await fasts.put(`user:${user.id}`, JSON.stringify(userData));
+  }
+
+  async function loadHistory(): Promise<FastEntry[]> {
+    return (await getUserFastingData(user.id, env, 'all')).history;
+  }
+
+  // Every tap is a separate callback query
+  let callbackCount = 0;
+
+  function makeCallback(data: string): CallbackQuery {
+    return {
+      id: `cbq-undo-${++callbackCount}`,
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: {
+        message_id: messageId,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: chatId, type: 'private' },
+        text: 'msg',
+      },
+    } as any;
+  }
+
+  it('requires authentication', async () => {
+    const res = await handleUndoCommand(9999, user, messageId, env);
+    expect(res.text).toContain('Please authenticate');
+  });
+
+  it('shows a start button when there is no history', async () => {
+    const res = await handleUndoCommand(chatId, user, messageId, env);
+    expect(res.text).toBe('📋 No fasting history to undo.');
+    expect(res.replyMarkup?.inline_keyboard?.[0]?.[0]?.callback_data).toBe('start_fast');
+  });
+
+  it('lists at most 10 recent fasts with numbered buttons and a cancel row', async () => {
+    const history = makeHistory(12);
+    await storeHistory(history);
+
+    const res = await routeCommand('undo', chatId, user, messageId, '/undo', env);
+    expect(res!.text).toContain('📋 Select a fast to undo:');
+    expect(res!.text).toContain('1️⃣ 11h - ended yesterday');
+    expect(res!.text).toContain('🔟');
+
+    const kb = res!.replyMarkup!.inline_keyboard;
+    expect(kb).toHaveLength(3);
+    expect(kb[0]?.[0]?.callback_data).toBe(`undo_select_${encodeFastReference(11, history[11]!)}`);
+    expect(kb[1]?.[4]?.text).toBe('10');
+    expect(kb[2]?.[0]?.callback_data).toBe('undo_cancel');
+  });
+
+  it('asks for confirmation before deleting', async () => {
+    const history = makeHistory(3);
+    await storeHistory(history);
+    await startFast(user.id, user, env);
+
+    const res = await routeCallback(makeCallback(`undo_select_${encodeFastReference(1, history[1]!)}`), env);
+    expect(res.editMessage?.newText).toContain('⚠️ Confirm deletion of fast:');
+    expect(res.editMessage?.newText).toContain('• Duration: 12h');
+    expect(res.editMessage?.newText).toContain('Your current fast is not affected');
+    const kb = res.editMessage?.newKeyboard?.inline_keyboard;
+    expect(kb?.[0]?.[0]?.callback_data).toBe(`undo_confirm_${encodeFastReference(1, history[1]!)}`);
+    expect(kb?.[0]?.[1]?.callback_data).toBe('undo_cancel');
+    expect(await loadHistory()).toHaveLength(3);
+  });
+
+  it('deletes the selected fast on confirmation and reports remaining counts', async () => {
+    const history = makeHistory(3);
+    await storeHistory(history);
+
+    const res = await routeCallback(makeCallback(`undo_confirm_${encodeFastReference(1, history[1]!)}`), env);
+    expect(res.editMessage?.newText).toContain('✅ Fast deleted from history.');
+    expect(res.editMessage?.newText).toContain('You now have 2 fasts in your history');
+    expect(res.editMessage?.newKeyboard?.inline_keyboard?.[0]?.[0]?.text).toBe('🚀 Start Fast');
+
+    const remaining = await loadHistory();
+    expect(remaining.map(fast => fast.startedAt)).toEqual([history[0]!.startedAt, history[2]!.startedAt]);
+  });
+
+  it('refuses stale references after the history changed', async () => {
+    const history = makeHistory(3);
+    await storeHistory(history);
+    const staleReference = encodeFastReference(1, history[1]!);
+
+    await routeCallback(makeCallback(`undo_confirm_${encodeFastReference(0, history[0]!)}`), env);
+    const res = await routeCallback(makeCallback(`undo_confirm_${staleReference}`), env);
+
+    expect(res.showAlert).toBe(true);
+    expect(res.text).toBe('That fast is no longer in your history.');
+    expect(await loadHistory()).toHaveLength(2);
+  });
+
+  it('cancels without touching history', async () => {
+    await storeHistory(makeHistory(2));
+
+    const res = await routeCallback(makeCallback('undo_cancel'), env);
+    expect(res.editMessage?.newText).toBe('↩️ Deletion cancelled. Your history remains unchanged.');
+    expect(await loadHistory()).toHaveLength(2);
+  });
+});
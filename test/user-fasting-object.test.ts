@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserFastingObject } from '../src/user-fasting-object';
+import { routeCallback } from '../src/callbacks';
+import { startFast, endFast, logFast, setFastNote, setUserTimezone, getUserFastingData } from '../src/fasting';
+import { MockKV } from './utils/mockKv';
+import type { Env, CallbackQuery, User } from '../src/types';
+
+const user: User = { id: 1818, is_bot: false, first_name: 'Ola', username: 'ola' };
+
+// Minimal stand-ins for the Durable Object runtime: one object instance per name, storage backed by a Map
+class FakeStorage {
+  readonly entries = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.entries.get(key) as T | undefined;
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.entries.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.entries.delete(key);
+    }
+  }
+
+  async list<T>({ prefix }: { prefix: string }): Promise<Map<string, T>> {
+    return new Map([...this.entries].filter(([key]) => key.startsWith(prefix)) as Array<[string, T]>);
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+
+  async setAlarm(time: number): Promise<void> {
+    this.alarm = time;
+  }
+}
+
+function createNamespace(getEnv: () => Env) {
+  const objects = new Map<string, { object: UserFastingObject; storage: FakeStorage }>();
+  const namespace = {
+    idFromName: (name: string) => name,
+    get: (name: string) => {
+      if (!objects.has(name)) {
+        const storage = new FakeStorage();
+        objects.set(name, { object: new UserFastingObject({ storage } as any, getEnv()), storage });
+      }
+      const { object } = objects.get(name)!;
+      return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+    }
+  };
+  return { namespace, objects };
+}
+
+describe('UserFastingObject', () => {
+  let env: Env;
+  let fasts: MockKV;
+  let objects: ReturnType<typeof createNamespace>['objects'];
+  const chatId = 1818;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: new MockKV() as any,
+      CHATS: new MockKV() as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+    const created = createNamespace(() => env);
+    env.USER_FASTING = created.namespace as any;
+    objects = created.objects;
+
+    await env.CHATS.put(chatId.toString(), JSON.stringify({ api_key_hash: 'sha256:do', authenticated_at: new Date().toISOString(), authenticated_by: user }));
+    await env.API_KEYS.put('sha256:do', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 30 * 86400000).toISOString(), created: new Date().toISOString() }));
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history: [], currentFast: { startedAt: '2025-08-19T20:00:00.000Z', startedBy: user } }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function makeCallback(id: string, data: string): CallbackQuery {
+    return {
+      id,
+      from: user,
+      chat_instance: 'ci-1',
+      data,
+      message: { message_id: 5, date: Math.floor(Date.now() / 1000), chat: { id: chatId, type: 'private' }, text: 'msg' },
+    } as any;
+  }
+
+  it('applies concurrent End Fast taps one at a time', async () => {
+    const [first, second] = await Promise.all([
+      routeCallback(makeCallback('cbq-1', 'end_fast'), env),
+      routeCallback(makeCallback('cbq-2', 'end_fast'), env)
+    ]);
+
+    expect(first.editMessage?.newText).toContain('✅ Great job! You fasted for 16h');
+    expect(second.text).toBe('No active fast to end.');
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(1);
+  });
+
+  it('returns the stored result when an update is retried', async () => {
+    const first = await routeCallback(makeCallback('cbq-1', 'end_fast'), env);
+    await startFast(user.id, user, env);
+    const retried = await routeCallback(makeCallback('cbq-1', 'end_fast'), env);
+
+    expect(retried.editMessage?.newText).toBe(first.editMessage?.newText);
+    const userData = await getUserFastingData(user.id, env, 'all');
+    expect(userData.history).toHaveLength(1);
+    expect(userData.currentFast).toBeDefined();
+  });
+
+  it('forgets idempotency keys after ten minutes', async () => {
+    await endFast(user.id, user, env, undefined, 'message:1818:5');
+    const { object, storage } = objects.get(`user:${user.id}`)!;
+    expect(storage.alarm).toBe(Date.now() + 10 * 60 * 1000);
+
+    vi.setSystemTime(new Date('2025-08-20T12:10:00.000Z'));
+    await object.alarm();
+    expect([...storage.entries.keys()]).toEqual([]);
+
+    await startFast(user.id, user, env, new Date('2025-08-20T04:10:00.000Z'));
+    const repeated = await endFast(user.id, user, env, undefined, 'message:1818:5');
+    expect(repeated.duration).toBe(8 * 60 * 60 * 1000);
+  });
+
+  it('serialises operations within the isolate without the binding', async () => {
+    delete env.USER_FASTING;
+    const results = await Promise.all([endFast(user.id, user, env), endFast(user.id, user, env)]);
+
+    expect(results.map(result => result.success)).toEqual([true, false]);
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(1);
+  });
+  it('applies notes, settings and logged fasts through the object', async () => {
+    await setFastNote(user.id, 'Slept well', env, 'message:1818:6');
+    await setUserTimezone(user.id, 'Europe/Warsaw', env, 'message:1818:7');
+    await logFast(user.id, user, new Date('2025-08-17T20:00:00.000Z'), new Date('2025-08-18T12:00:00.000Z'), env, 'message:1818:8');
+    await logFast(user.id, user, new Date('2025-08-17T20:00:00.000Z'), new Date('2025-08-18T12:00:00.000Z'), env, 'message:1818:8');
+
+    const { storage } = objects.get(`user:${user.id}`)!;
+    expect([...storage.entries.keys()]).toEqual(['op:message:1818:6', 'op:message:1818:7', 'op:message:1818:8']);
+    const userData = await getUserFastingData(user.id, env, 'all');
+    expect(userData.currentFast?.note).toBe('Slept well');
+    expect(userData.timezone).toBe('Europe/Warsaw');
+    expect(userData.history).toHaveLength(1);
+  });
+
+  it('returns the stored result for retries without the binding', async () => {
+    delete env.USER_FASTING;
+    const start = new Date('2025-08-17T20:00:00.000Z');
+    const end = new Date('2025-08-18T12:00:00.000Z');
+    const first = await logFast(user.id, user, start, end, env, 'message:1818:9');
+    const retried = await logFast(user.id, user, start, end, env, 'message:1818:9');
+
+    expect(retried).toBe(first);
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(1);
+
+    // Once the result has expired the operation runs again, and now overlaps the fast it logged
+    vi.setSystemTime(new Date('2025-08-20T12:10:00.000Z'));
+    const expired = await logFast(user.id, user, start, end, env, 'message:1818:9');
+    expect(expired.error).toBe('Overlaps with your fast from 17 Aug, 20:00 to 18 Aug, 12:00');
+    expect((await getUserFastingData(user.id, env, 'all')).history).toHaveLength(1);
+  });
+});
@@ -32,6 +32,11 @@ export class MockKV {
     this.store.delete(key);
   }
 
+  async list(options?: { prefix?: string }): Promise<{ keys: Array<{ name: string }>; list_complete: true }> {
+    const names = this.keys().filter(name => name.startsWith(options?.prefix ?? ''));
+    return { keys: names.map(name => ({ name })), list_complete: true };
+  }
+
   clear(): void {
     this.store.clear();
   }
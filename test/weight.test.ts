@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parseWeight, formatWeight, formatWeightChange, getWeightSummary, logWeight, getUserWeightData } from '../src/weight';
+import { handleWeightCommand, handleMonthCommand } from '../src/commands';
+import { MockKV } from './utils/mockKv';
+import type { Env, User, WeightEntry } from '../src/types';
+
+function entry(recordedAt: string, weightKg: number): WeightEntry {
+  return { recordedAt, weightKg };
+}
+
+describe('Weight Module', () => {
+  describe('parseWeight', () => {
+    it('uses the preferred unit when none is given', () => {
+      expect(parseWeight('81.4', 'kg')).toEqual({ weightKg: 81.4, unit: 'kg' });
+      expect(parseWeight('81,4', 'kg')?.weightKg).toBe(81.4);
+      expect(parseWeight('180', 'lb')?.weightKg).toBeCloseTo(81.65, 2);
+    });
+
+    it('honours an explicit unit', () => {
+      expect(parseWeight('180lb', 'kg')?.weightKg).toBeCloseTo(81.65, 2);
+      expect(parseWeight('81.4 kg', 'lb')).toEqual({ weightKg: 81.4, unit: 'kg' });
+    });
+
+    it('rejects malformed input', () => {
+      expect(parseWeight('heavy', 'kg')).toBeNull();
+      expect(parseWeight('-80', 'kg')).toBeNull();
+      expect(parseWeight('81.456', 'kg')).toBeNull();
+      expect(parseWeight('80 stone', 'kg')).toBeNull();
+    });
+  });
+
+  it('formats weights and changes in the chosen unit', () => {
+    expect(formatWeight(81.4, 'kg')).toBe('81.4 kg');
+    expect(formatWeight(81.64656, 'lb')).toBe('180.0 lb');
+    expect(formatWeightChange(-1.26, 'kg')).toBe('−1.3 kg');
+    expect(formatWeightChange(0.5, 'kg')).toBe('+0.5 kg');
+    expect(formatWeightChange(0.01, 'kg')).toBe('±0.0 kg');
+  });
+
+  describe('getWeightSummary', () => {
+    const now = new Date('2025-08-20T12:00:00.000Z');
+    const entries = [
+      entry('2025-07-15T07:00:00.000Z', 84),
+      entry('2025-07-31T07:00:00.000Z', 83),
+      entry('2025-08-10T07:00:00.000Z', 82),
+      entry('2025-08-15T07:00:00.000Z', 81.5),
+      entry('2025-08-19T07:00:00.000Z', 80.5)
+    ];
+
+    it('computes last value, moving averages and change since month start', () => {
+      const summary = getWeightSummary(entries, 'UTC', now);
+      expect(summary.latest?.weightKg).toBe(80.5);
+      expect(summary.average7Days).toBe(81);
+      expect(summary.average30Days).toBeCloseTo((83 + 82 + 81.5 + 80.5) / 4, 5);
+      expect(summary.changeThisMonth).toBe(80.5 - 83);
+    });
+
+    it('uses the first weight of the month when nothing was logged before', () => {
+      const summary = getWeightSummary(entries.slice(2), 'UTC', now);
+      expect(summary.changeThisMonth).toBe(80.5 - 82);
+    });
+
+    it('assigns weights to months in the user timezone', () => {
+      // 2025-07-31T23:30Z is already August in Paris
+      const summary = getWeightSummary([entry('2025-07-31T23:30:00.000Z', 83), entry('2025-08-19T07:00:00.000Z', 82)], 'Europe/Paris', now);
+      expect(summary.changeThisMonth).toBe(-1);
+    });
+
+    it('returns nulls without data', () => {
+      expect(getWeightSummary([], 'UTC', now)).toEqual({ latest: null, average7Days: null, average30Days: null, changeThisMonth: null });
+    });
+  });
+});
+
+describe('Weight commands', () => {
+  let env: Env;
+  let chats: MockKV;
+  let apiKeys: MockKV;
+  let fasts: MockKV;
+  const chatId = 9292;
+  const messageId = 8;
+  const user: User = { id: 909, is_bot: false, first_name: 'Ivan', username: 'ivan' };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-08-20T12:00:00.000Z'));
+
+    chats = new MockKV();
+    apiKeys = new MockKV();
+    fasts = new MockKV();
+    env = {
+      BOT_TOKEN: 't',
+      BOT_USERNAME: 'TestBot',
+      WEBHOOK_SECRET: 's',
+      API_KEYS: apiKeys as any,
+      CHATS: chats as any,
+      RATE_LIMITS: new MockKV() as any,
+      FASTS: fasts as any,
+    };
+
+    await chats.put(chatId.toString(), JSON.stringify({
+      api_key_hash: 'sha256:weight',
+      authenticated_at: new Date().toISOString(),
+      authenticated_by: user,
+    }));
+    await apiKeys.put('sha256:weight', JSON.stringify({ name: 'Key', expiry: new Date(Date.now() + 86400000).toISOString(), created: new Date().toISOString() }));
+    await fasts.put(`user:${user.id}`, JSON.stringify({ timezone: 'UTC', history: [] }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores weights separately from fasting data', async () => {
+    const res = await handleWeightCommand(chatId, user, messageId, '/weight 81.4', env);
+    expect(res.text).toContain('✅ Logged 81.4 kg');
+    expect(res.text).toContain('📍 Last: 81.4 kg');
+
+    const stored = JSON.parse((await fasts.get(`user:${user.id}:weights`))!);
+    expect(stored.entries).toEqual([{ recordedAt: '2025-08-20T12:00:00.000Z', weightKg: 81.4 }]);
+    expect(fasts.keys()).toEqual([`user:${user.id}`, `user:${user.id}:weights`]);
+  });
+
+  it('switches units and converts the display', async () => {
+    await logWeight(user.id, 81.64656, env);
+
+    const unit = await handleWeightCommand(chatId, user, messageId, '/weight unit lb', env);
+    expect(unit.text).toBe('✅ Weight unit updated to: lb');
+
+    const summary = await handleWeightCommand(chatId, user, messageId, '/weight', env);
+    expect(summary.text).toContain('📍 Last: 180.0 lb');
+
+    const logged = await handleWeightCommand(chatId, user, messageId + 1, '/weight 178', env);
+    expect(logged.text).toContain('✅ Logged 178.0 lb');
+    expect((await getUserWeightData(user.id, env)).entries[1]?.weightKg).toBeCloseTo(80.74, 2);
+  });
+
+  it('logs a redelivered /weight once and keeps concurrent ones', async () => {
+    await handleWeightCommand(chatId, user, messageId, '/weight 81.4', env);
+    const retried = await handleWeightCommand(chatId, user, messageId, '/weight 81.4', env);
+    expect(retried.text).toContain('✅ Logged 81.4 kg');
+    expect((await getUserWeightData(user.id, env)).entries).toHaveLength(1);
+
+    await Promise.all([
+      handleWeightCommand(chatId, user, messageId + 1, '/weight 81.2', env),
+      handleWeightCommand(chatId, user, messageId + 2, '/weight 81.0', env),
+      handleWeightCommand(chatId, user, messageId + 3, '/weight unit lb', env)
+    ]);
+    const weightData = await getUserWeightData(user.id, env);
+    expect(weightData.entries.map(entry => entry.weightKg)).toEqual([81.4, 81.2, 81]);
+    expect(weightData.unit).toBe('lb');
+  });
+
+  it('validates input and range', async () => {
+    const invalid = await handleWeightCommand(chatId, user, messageId, '/weight lots', env);
+    expect(invalid.text).toContain('❌ Invalid weight: lots');
+
+    const outOfRange = await handleWeightCommand(chatId, user, messageId, '/weight 900', env);
+    expect(outOfRange.text).toBe('❌ Weight must be between 20.0 kg and 500.0 kg');
+
+    const badUnit = await handleWeightCommand(chatId, user, messageId, '/weight unit stone', env);
+    expect(badUnit.text).toContain('Invalid unit');
+  });
+
+  it('shows the monthly weight change in /month', async () => {
+    await logWeight(user.id, 83, env, new Date('2025-07-30T07:00:00.000Z'));
+    await logWeight(user.id, 81.8, env, new Date('2025-08-19T07:00:00.000Z'));
+
+    const res = await handleMonthCommand(chatId, user, messageId, env);
+    expect(res.text).toContain('⚖️ Weight: 81.8 kg (−1.2 kg this month)');
+  });
+});